@@ -19,8 +19,8 @@ export interface CanvasProps {
   style?: CSSProperties;
   onReady?: (canvas: FabricCanvas) => void;
   /**
-   * Enable Delete/Backspace keyboard shortcuts for removing selected objects.
-   * Default: `false`. Set to `true` when using `<Canvas>` without `useEditCanvas`
+   * Enable the default keyboard shortcuts (see `createKeymap`) while the
+   * canvas has focus. Default: `false`. Set to `true` when using `<Canvas>` without `useEditCanvas`
    * (which registers its own shortcuts).
    */
   keyboardShortcuts?: boolean;
@@ -1,6 +1,12 @@
 import { Canvas as FabricCanvas, type FabricObject, Point } from 'fabric';
 import { getSnapPoints } from './snapPoints';
 import { computeSnapMargin, DEFAULT_SNAP_MARGIN } from '../constants';
+import { getCanvasSnapGrid, snapPointToGrid, type SnapGrid } from '../grid';
+import {
+  getCanvasGuides,
+  getGuideSnapPoints,
+  type CanvasGuide,
+} from '../guides';
 
 export interface CursorSnapResult {
   /** The snapped point (or original if no snap occurred). */
@@ -36,6 +42,18 @@ export interface CursorSnapOptions {
    * Default: `true`. Pass `false` to use a fixed margin regardless of size.
    */
   scaleWithCanvasSize?: boolean;
+  /**
+   * Grid to snap to, in addition to the target points: the nearest grid
+   * intersection is treated as one more target. Pass `false` to ignore the
+   * grid. Default: the canvas grid set up by `enableGrid`, if any.
+   */
+  grid?: SnapGrid | false;
+  /**
+   * Guide lines to snap to, on their own axis only. Pass `false` to ignore
+   * guides. Default: the canvas guides set by `setCanvasGuides` (e.g. from
+   * `CanvasRulers`).
+   */
+  guides?: CanvasGuide[] | false;
 }
 
 export interface GuidelineStyle {
@@ -75,28 +93,59 @@ export function snapCursorPoint(
     });
   }
 
+  // The nearest grid intersection competes with the object snap points.
+  const grid =
+    options?.grid !== undefined ? options.grid : getCanvasSnapGrid(canvas);
+  const candidates = grid ? [snapPointToGrid(rawPoint, grid)] : [];
+
+  // Guides only attract along their own axis, so they get separate lists.
+  const guides =
+    options?.guides !== undefined
+      ? options.guides || []
+      : getCanvasGuides(canvas);
+  const guideTargetsX = getGuideSnapPoints(guides, 'x', rawPoint);
+  const guideTargetsY = getGuideSnapPoints(guides, 'y', rawPoint);
+
   let bestDx = Infinity;
   let bestDy = Infinity;
   let snapTargetsX: Point[] = [];
   let snapTargetsY: Point[] = [];
 
-  for (const tp of targetPoints) {
+  for (const list of [targetPoints, candidates]) {
+    for (const tp of list) {
+      const dx = Math.abs(rawPoint.x - tp.x);
+      const dy = Math.abs(rawPoint.y - tp.y);
+      if (dx < bestDx) {
+        bestDx = dx;
+        snapTargetsX = [];
+      }
+      if (dx === bestDx) {
+        snapTargetsX.push(tp);
+      }
+      if (dy < bestDy) {
+        bestDy = dy;
+        snapTargetsY = [];
+      }
+      if (dy === bestDy) {
+        snapTargetsY.push(tp);
+      }
+    }
+  }
+  for (const tp of guideTargetsX) {
     const dx = Math.abs(rawPoint.x - tp.x);
-    const dy = Math.abs(rawPoint.y - tp.y);
     if (dx < bestDx) {
       bestDx = dx;
       snapTargetsX = [];
     }
-    if (dx === bestDx) {
-      snapTargetsX.push(tp);
-    }
+    if (dx === bestDx) snapTargetsX.push(tp);
+  }
+  for (const tp of guideTargetsY) {
+    const dy = Math.abs(rawPoint.y - tp.y);
     if (dy < bestDy) {
       bestDy = dy;
       snapTargetsY = [];
     }
-    if (dy === bestDy) {
-      snapTargetsY.push(tp);
-    }
+    if (dy === bestDy) snapTargetsY.push(tp);
   }
 
   const snapX = bestDx <= margin && snapTargetsX.length > 0;
@@ -1,6 +1,8 @@
 import { type Canvas, type FabricObject, Point, util } from 'fabric';
 import { computeSnapMargin, DEFAULT_SNAP_MARGIN } from '../constants';
 import { getSnapPoints } from './snapPoints';
+import { getCanvasSnapGrid, snapPointToGrid } from '../grid';
+import { getCanvasGuides, getGuideSnapPoints } from '../guides';
 import {
   type TransformEvent,
   type AlignmentLine,
@@ -223,6 +225,17 @@ class ObjectAlignmentGuides {
     const objects = getAlignmentTargets(target);
     const points: Point[] = [];
     for (const obj of objects) points.push(...this.getCachedSnapPoints(obj));
+
+    // With a grid, the grid intersections nearest to the target's own
+    // corners, edge midpoints and center are snap targets too.
+    const grid = getCanvasSnapGrid(this.canvas);
+    if (grid) {
+      const own = [
+        ...Object.values(getBoundingPointMap(target)),
+        target.getCenterPoint(),
+      ];
+      for (const p of own) points.push(snapPointToGrid(p, grid));
+    }
     return points;
   }
 
@@ -248,6 +261,7 @@ class ObjectAlignmentGuides {
       target,
       points,
       margin,
+      getCanvasGuides(this.canvas),
     );
     for (const l of verticalLines) this.verticalLines.add(JSON.stringify(l));
     for (const l of horizontalLines)
@@ -313,7 +327,14 @@ class ObjectAlignmentGuides {
     const skipHorizontal =
       this.markersOnly && (corner.includes('l') || corner.includes('r'));
 
-    const vList = skipVertical ? [] : collectVerticalSnapOffset(props);
+    // Guides only attract along their own axis, so each axis gets its own list.
+    const guides = getCanvasGuides(this.canvas);
+    const vList = skipVertical
+      ? []
+      : collectVerticalSnapOffset({
+          ...props,
+          list: [...allPoints, ...getGuideSnapPoints(guides, 'x', point)],
+        });
     // Vertical snap may have mutated scaleX (and scaleY for uniform scaling),
     // shifting the active corner's Y position. Refresh point so horizontal snap
     // computes its offset against the post-snap corner location, not the stale one.
@@ -321,7 +342,12 @@ class ObjectAlignmentGuides {
       const updatedPointMap = getBoundingPointMap(target);
       if (corner in updatedPointMap) props.point = updatedPointMap[corner];
     }
-    const hList = skipHorizontal ? [] : collectHorizontalSnapOffset(props);
+    const hList = skipHorizontal
+      ? []
+      : collectHorizontalSnapOffset({
+          ...props,
+          list: [...allPoints, ...getGuideSnapPoints(guides, 'y', props.point)],
+        });
 
     for (const l of vList) this.verticalLines.add(JSON.stringify(l));
     for (const l of hList) this.horizontalLines.add(JSON.stringify(l));
@@ -1,4 +1,5 @@
 import { type FabricObject, Point } from 'fabric';
+import { getGuideSnapPoints, type CanvasGuide } from '../guides';
 import {
   type AlignmentLine,
   type OriginMap,
@@ -22,16 +23,17 @@ export const OPPOSITE_ORIGIN_MAP: OriginMap = {
 
 /**
  * Collect alignment lines when an object is being moved.
- * Checks the target's corners + center against all snap points.
+ * Checks the target's corners + center against all snap points and guides.
  */
 export function collectMovingAlignmentLines(
   target: FabricObject,
   points: Point[],
   margin: number,
+  guides: CanvasGuide[] = [],
 ): { verticalLines: AlignmentLine[]; horizontalLines: AlignmentLine[] } {
   const list: Point[] = [...getStrokeFreeCoords(target)];
   list.push(target.getCenterPoint());
-  const opts = { target, list, points, margin };
+  const opts = { target, list, points, margin, guides };
   const verticalLines = collectMovingAxisMatches({ ...opts, axis: 'x' });
   const horizontalLines = collectMovingAxisMatches({ ...opts, axis: 'y' });
   return { verticalLines, horizontalLines };
@@ -46,15 +48,20 @@ function collectMovingAxisMatches(props: {
   list: Point[];
   points: Point[];
   margin: number;
+  guides: CanvasGuide[];
   axis: 'x' | 'y';
 }): AlignmentLine[] {
-  const { target, list, points, margin, axis } = props;
+  const { target, list, points, margin, guides, axis } = props;
   const result: AlignmentLine[] = [];
   const distances: ReturnType<typeof findNearestOnAxis>[] = [];
   let min = Infinity;
 
   for (const item of list) {
-    const nearest = findNearestOnAxis(item, points, axis);
+    const candidates =
+      guides.length > 0
+        ? [...points, ...getGuideSnapPoints(guides, axis, item)]
+        : points;
+    const nearest = findNearestOnAxis(item, candidates, axis);
     distances.push(nearest);
     if (min > nearest.distance) min = nearest.distance;
   }
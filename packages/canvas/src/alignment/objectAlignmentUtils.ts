@@ -110,6 +110,14 @@ export function getOppositeCornerMap(
   };
 }
 
+/**
+ * Whether an object is a plain group whose children align individually.
+ * Icons (see `createIcon`) are groups too, but align as a single object.
+ */
+function isFlattenedGroup(obj: FabricObject): obj is Group {
+  return obj.shapeType !== 'icon' && obj.constructor === Group;
+}
+
 /**
  * Collect all canvas objects that should be considered as alignment targets
  * for a given moving/scaling object. Excludes the target itself and its children
@@ -125,16 +133,16 @@ export function getAlignmentTargets(target: FabricObject): Set<FabricObject> {
 
   canvas.forEachObject((o) => {
     if (!o.isOnScreen() || !o.visible) return;
-    if (o.constructor === Group) {
-      collectGroupChildren(objects, o as Group);
+    if (isFlattenedGroup(o)) {
+      collectGroupChildren(objects, o);
       return;
     }
     objects.add(o);
   });
 
   for (const child of children) {
-    if (child.constructor === Group) {
-      for (const gc of (child as Group).getObjects()) objects.delete(gc);
+    if (isFlattenedGroup(child)) {
+      for (const gc of child.getObjects()) objects.delete(gc);
     } else {
       objects.delete(child);
     }
@@ -147,8 +155,8 @@ export function getAlignmentTargets(target: FabricObject): Set<FabricObject> {
 function collectGroupChildren(objects: Set<FabricObject>, group: Group): void {
   for (const child of group.getObjects()) {
     if (!child.visible) continue;
-    if (child.constructor === Group) {
-      collectGroupChildren(objects, child as Group);
+    if (isFlattenedGroup(child)) {
+      collectGroupChildren(objects, child);
     } else {
       objects.add(child);
     }
@@ -1,4 +1,5 @@
-import { type FabricObject, Point, Polygon, Rect, util } from 'fabric';
+import { type FabricObject, Point, Polyline, Rect, util } from 'fabric';
+import { getCurvedEdgeMidpoints, hasCurvedEdges } from '../shapes/curves';
 import { getStrokeFreeCoords } from './objectAlignmentUtils';
 
 /**
@@ -59,20 +60,29 @@ registerSnapPointExtractor(
   },
 );
 
-// Polygon: all vertices transformed to scene space + center
+function getVertexSnapPoints(polygon: Polyline): Point[] {
+  const matrix = polygon.calcTransformMatrix();
+  return polygon.points.map((pt) => {
+    const local = new Point(
+      pt.x - polygon.pathOffset.x,
+      pt.y - polygon.pathOffset.y,
+    );
+    return util.transformPoint(local, matrix);
+  });
+}
+
+// Polygon, polyline and line: all vertices transformed to scene space + center
 registerSnapPointExtractor(
-  (obj) => obj instanceof Polygon,
-  (obj) => {
-    const polygon = obj as Polygon;
-    const matrix = polygon.calcTransformMatrix();
-    const points: Point[] = polygon.points.map((pt) => {
-      const local = new Point(
-        pt.x - polygon.pathOffset.x,
-        pt.y - polygon.pathOffset.y,
-      );
-      return util.transformPoint(local, matrix);
-    });
-    points.push(polygon.getCenterPoint());
-    return points;
-  },
+  (obj) => obj instanceof Polyline,
+  (obj) => [...getVertexSnapPoints(obj as Polyline), obj.getCenterPoint()],
+);
+
+// Shapes with curved edges: vertices + arc midpoints + center
+registerSnapPointExtractor(
+  (obj) => obj instanceof Polyline && hasCurvedEdges(obj),
+  (obj) => [
+    ...getVertexSnapPoints(obj as Polyline),
+    ...getCurvedEdgeMidpoints(obj as Polyline),
+    obj.getCenterPoint(),
+  ],
 );
@@ -0,0 +1,394 @@
+import {
+  ActiveSelection,
+  Canvas as FabricCanvas,
+  FabricObject,
+  Point,
+  util,
+  version,
+} from 'fabric';
+import {
+  restoreLoadedObject,
+  serializeObjects,
+  type SerializeOptions,
+} from './serialization';
+import { CANVAS_SCHEMA_VERSION, migrateCanvasJSON } from './migrations';
+import { isEditableTarget, makeCanvasFocusable } from './focus';
+import { forEachNestedObject } from './groups';
+import type { Point2D } from './types';
+
+/**
+ * MIME type used for canvas objects on the system clipboard. Browsers only
+ * expose custom types to pages of the same browser, so copies can be pasted
+ * into other tabs but not other applications.
+ */
+export const CANVAS_CLIPBOARD_MIME_TYPE = 'application/x-bwp-canvas+json';
+
+/** Objects copied from a canvas, as produced by {@link copyObjects}. */
+export interface CanvasClipboardData {
+  /** Marks the payload as canvas objects. Always `'bwp-canvas-objects'`. */
+  format: 'bwp-canvas-objects';
+  /** Fabric version that wrote the objects. */
+  version: string;
+  /** Schema version of the objects (see {@link CANVAS_SCHEMA_VERSION}). */
+  schemaVersion: number;
+  /** Serialized objects, following the rules of {@link serializeCanvas}. */
+  objects: Record<string, unknown>[];
+}
+
+/** Object metadata passed to {@link PasteOptions.generateId}. */
+export type ObjectData = NonNullable<FabricObject['data']>;
+
+export interface PasteOptions {
+  /**
+   * Return a new `data.id` for a pasted object. Called once per object
+   * (including members of groups) that has `data`, with a copy of the
+   * original data.
+   * Default: `crypto.randomUUID()`.
+   */
+  generateId?: (data: ObjectData) => string;
+  /**
+   * Where to place the pasted objects:
+   * - `{ x, y }`: centre the pasted objects on this scene point.
+   * - `{ offset }`: move them by `offset` scene units right and down from
+   *   where they were copied.
+   *
+   * Default: `{ offset: 10 }`.
+   */
+  position?: Point2D | { offset: number };
+  /**
+   * Visual border radius applied to pasted Rects, as in `loadCanvas`.
+   * Default: `4`.
+   */
+  borderRadius?: number | false;
+  /** Select the pasted objects. Default: `true`. */
+  select?: boolean;
+}
+
+export interface CanvasClipboardOptions extends Pick<
+  PasteOptions,
+  'generateId' | 'borderRadius'
+> {
+  /**
+   * Where keyboard pastes are placed:
+   * - `'offset'`: offset from the copied objects, cascading with each
+   *   repeated paste.
+   * - `'cursor'`: centred on the last pointer position over the canvas
+   *   (falls back to `'offset'` before the pointer has been over it).
+   *
+   * Default: `'offset'`.
+   */
+  pastePosition?: 'offset' | 'cursor';
+  /** Distance in scene units between successive offset pastes. Default: 10. */
+  pasteOffset?: number;
+  /** Additional object properties to copy, as in `serializeCanvas`. */
+  properties?: SerializeOptions['properties'];
+  /**
+   * Where copy, cut and paste events are handled, as in `createKeymap`:
+   * only while the canvas has focus (`'canvas'`) or anywhere on the page
+   * (`'document'`). Default: `'canvas'`.
+   */
+  scope?: 'canvas' | 'document';
+  /** Called with the pasted (or duplicated) objects after they are added. */
+  onPaste?: (objects: FabricObject[]) => void;
+}
+
+/** Clipboard operations bound to a canvas. */
+export interface CanvasClipboard {
+  /** Copy the selected objects. Returns `false` if nothing is selected. */
+  copy: () => boolean;
+  /** Copy and delete the selected objects. Returns `false` if nothing is selected. */
+  cut: () => boolean;
+  /**
+   * Paste the last copied objects, or `data` if given. Resolves with the
+   * pasted objects (empty if there was nothing to paste).
+   */
+  paste: (
+    data?: CanvasClipboardData,
+    options?: Pick<PasteOptions, 'position'>,
+  ) => Promise<FabricObject[]>;
+  /** Copy and paste the selection in one step, without touching the clipboard. */
+  duplicate: () => Promise<FabricObject[]>;
+  /** The last copied objects, or `null` if nothing was copied yet. */
+  getContents: () => CanvasClipboardData | null;
+  /** Remove the event listeners. */
+  cleanup: () => void;
+}
+
+const DEFAULT_PASTE_OFFSET = 10;
+
+/**
+ * Most recent copy in this page, shared between canvases. Used when the
+ * system clipboard is not available (e.g. programmatic copy and paste).
+ */
+let lastCopied: CanvasClipboardData | null = null;
+
+/** Whether `value` is a payload written by {@link copyObjects}. */
+export function isCanvasClipboardData(
+  value: unknown,
+): value is CanvasClipboardData {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    (value as CanvasClipboardData).format === 'bwp-canvas-objects' &&
+    Array.isArray((value as CanvasClipboardData).objects)
+  );
+}
+
+/**
+ * Serialize objects for the clipboard, following the same rules as
+ * {@link serializeCanvas}. Defaults to the active selection.
+ */
+export function copyObjects(
+  canvas: FabricCanvas,
+  objects: FabricObject[] = canvas.getActiveObjects(),
+  options?: SerializeOptions,
+): CanvasClipboardData {
+  return {
+    format: 'bwp-canvas-objects',
+    version,
+    schemaVersion: CANVAS_SCHEMA_VERSION,
+    objects: serializeObjects(canvas, objects, options),
+  };
+}
+
+/** Scene-space centre of the bounding box around `objects`. */
+function getCenterOf(objects: FabricObject[]): Point {
+  const corners = objects.flatMap((obj) => obj.getCoords());
+  const xs = corners.map((p) => p.x);
+  const ys = corners.map((p) => p.y);
+  return new Point(
+    (Math.min(...xs) + Math.max(...xs)) / 2,
+    (Math.min(...ys) + Math.max(...ys)) / 2,
+  );
+}
+
+/**
+ * Add copies of clipboard objects to the canvas. Objects with `data` get a
+ * new `data.id` from `options.generateId`, and a `data.parentId` pointing
+ * at a pasted object is updated to its copy. The payload is migrated like
+ * `loadCanvas` data, so copies from older versions paste correctly.
+ *
+ * Resolves with the pasted objects.
+ */
+export async function pasteObjects(
+  canvas: FabricCanvas,
+  data: CanvasClipboardData,
+  options?: PasteOptions,
+): Promise<FabricObject[]> {
+  const { objects: json } = migrateCanvasJSON(data);
+  if (json.length === 0) return [];
+
+  const objects = await util.enlivenObjects<FabricObject>(json);
+  const generateId = options?.generateId ?? (() => crypto.randomUUID());
+  const newIds = new Map<string, string>();
+  for (const obj of objects) {
+    restoreLoadedObject(obj, options?.borderRadius);
+    obj.setCoords();
+  }
+  forEachNestedObject(objects, (obj) => {
+    if (!obj.data) return;
+    const copied = structuredClone(obj.data);
+    const id = generateId(copied);
+    newIds.set(copied.id, id);
+    obj.data = { ...copied, id };
+  });
+  // Copies of children belong to the copy of their parent, if it was pasted.
+  forEachNestedObject(objects, (obj) => {
+    const parentId = obj.data?.parentId;
+    if (obj.data && parentId && newIds.has(parentId)) {
+      obj.data = { ...obj.data, parentId: newIds.get(parentId) };
+    }
+  });
+
+  const position = options?.position ?? { offset: DEFAULT_PASTE_OFFSET };
+  let dx: number;
+  let dy: number;
+  if ('offset' in position) {
+    dx = dy = position.offset;
+  } else {
+    const center = getCenterOf(objects);
+    dx = position.x - center.x;
+    dy = position.y - center.y;
+  }
+  for (const obj of objects) {
+    obj.set({ left: obj.left + dx, top: obj.top + dy });
+    obj.setCoords();
+  }
+
+  canvas.add(...objects);
+  if (options?.select !== false) {
+    canvas.discardActiveObject();
+    canvas.setActiveObject(
+      objects.length === 1
+        ? objects[0]
+        : new ActiveSelection(objects, { canvas }),
+    );
+  }
+  canvas.requestRenderAll();
+  return objects;
+}
+
+/**
+ * Copy `objects` and paste them `offset` scene units away, with new ids.
+ * Does not touch the clipboard. Resolves with the copies.
+ */
+export function duplicateObjects(
+  canvas: FabricCanvas,
+  objects: FabricObject[],
+  options?: Omit<PasteOptions, 'position'> & {
+    offset?: number;
+    properties?: SerializeOptions['properties'];
+  },
+): Promise<FabricObject[]> {
+  const data = copyObjects(canvas, objects, options);
+  return pasteObjects(canvas, data, {
+    ...options,
+    position: { offset: options?.offset ?? DEFAULT_PASTE_OFFSET },
+  });
+}
+
+/**
+ * Enable copy, cut and paste of canvas objects.
+ *
+ * Handles the browser's copy, cut and paste events (Ctrl/Cmd+C, X, V), so
+ * copies go to the system clipboard under {@link CANVAS_CLIPBOARD_MIME_TYPE}
+ * and can be pasted into a canvas in another tab. Events from text inputs
+ * and editable elements are left alone. Pasted objects get new ids from
+ * `options.generateId`.
+ *
+ * The returned controller also exposes the operations for toolbar buttons
+ * and context menus; these use the last copy made in this page.
+ */
+export function createCanvasClipboard(
+  canvas: FabricCanvas,
+  options?: CanvasClipboardOptions,
+): CanvasClipboard {
+  const pasteOffset = options?.pasteOffset ?? DEFAULT_PASTE_OFFSET;
+  let pointer: Point2D | null = null;
+  /** Payload last pasted and how many times in a row, for cascading offsets. */
+  let lastPasted: { data: CanvasClipboardData; count: number } | null = null;
+
+  function copy(): boolean {
+    const active = canvas.getActiveObjects();
+    if (active.length === 0) return false;
+    lastCopied = copyObjects(canvas, active, {
+      properties: options?.properties,
+    });
+    lastPasted = null;
+    return true;
+  }
+
+  function cut(): boolean {
+    const active = canvas.getActiveObjects();
+    if (!copy()) return false;
+    canvas.discardActiveObject();
+    canvas.remove(...active);
+    canvas.requestRenderAll();
+    return true;
+  }
+
+  function nextPastePosition(
+    data: CanvasClipboardData,
+  ): NonNullable<PasteOptions['position']> {
+    if (options?.pastePosition === 'cursor' && pointer) return pointer;
+    const count = lastPasted?.data === data ? lastPasted.count + 1 : 1;
+    lastPasted = { data, count };
+    return { offset: pasteOffset * count };
+  }
+
+  async function paste(
+    data: CanvasClipboardData | null = lastCopied,
+    pasteOptions?: Pick<PasteOptions, 'position'>,
+  ): Promise<FabricObject[]> {
+    if (!data) return [];
+    const objects = await pasteObjects(canvas, data, {
+      generateId: options?.generateId,
+      borderRadius: options?.borderRadius,
+      position: pasteOptions?.position ?? nextPastePosition(data),
+    });
+    if (objects.length > 0) options?.onPaste?.(objects);
+    return objects;
+  }
+
+  async function duplicate(): Promise<FabricObject[]> {
+    const active = canvas.getActiveObjects();
+    if (active.length === 0) return [];
+    const objects = await duplicateObjects(canvas, active, {
+      generateId: options?.generateId,
+      borderRadius: options?.borderRadius,
+      offset: pasteOffset,
+      properties: options?.properties,
+    });
+    options?.onPaste?.(objects);
+    return objects;
+  }
+
+  // --- System clipboard events ---
+
+  const shouldHandle = (e: ClipboardEvent) =>
+    !e.defaultPrevented && !isEditableTarget(e.target);
+
+  const handleCopy = (e: ClipboardEvent) => {
+    if (!shouldHandle(e) || !e.clipboardData) return;
+    const handled = e.type === 'cut' ? cut() : copy();
+    if (!handled) return;
+    e.clipboardData.setData(
+      CANVAS_CLIPBOARD_MIME_TYPE,
+      JSON.stringify(lastCopied),
+    );
+    e.preventDefault();
+  };
+
+  const handlePaste = (e: ClipboardEvent) => {
+    if (!shouldHandle(e) || !e.clipboardData) return;
+    const text = e.clipboardData.getData(CANVAS_CLIPBOARD_MIME_TYPE);
+    if (!text) return;
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return;
+    }
+    if (!isCanvasClipboardData(data)) return;
+    e.preventDefault();
+    // Reuse the in-page copy when it is the same payload, so repeated
+    // pastes keep cascading.
+    const source =
+      lastCopied && text === JSON.stringify(lastCopied) ? lastCopied : data;
+    void paste(source);
+  };
+
+  const handleMouseMove = (event: { scenePoint: Point2D }) => {
+    pointer = { x: event.scenePoint.x, y: event.scenePoint.y };
+  };
+  const handleMouseOut = () => {
+    pointer = null;
+  };
+
+  const scope = options?.scope ?? 'canvas';
+  const target: HTMLElement | Document =
+    scope === 'canvas' ? canvas.wrapperEl : document;
+  const restoreFocus = scope === 'canvas' ? makeCanvasFocusable(canvas) : null;
+
+  target.addEventListener('copy', handleCopy as EventListener);
+  target.addEventListener('cut', handleCopy as EventListener);
+  target.addEventListener('paste', handlePaste as EventListener);
+  canvas.on('mouse:move', handleMouseMove);
+  canvas.on('mouse:out', handleMouseOut);
+
+  return {
+    copy,
+    cut,
+    paste: (data, pasteOptions) => paste(data ?? lastCopied, pasteOptions),
+    duplicate,
+    getContents: () => lastCopied,
+    cleanup() {
+      target.removeEventListener('copy', handleCopy as EventListener);
+      target.removeEventListener('cut', handleCopy as EventListener);
+      target.removeEventListener('paste', handlePaste as EventListener);
+      canvas.off('mouse:move', handleMouseMove);
+      canvas.off('mouse:out', handleMouseOut);
+      restoreFocus?.();
+    },
+  };
+}
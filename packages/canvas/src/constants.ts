@@ -41,6 +41,20 @@ export function computeSnapMargin(
   return (baseMargin * sizeScale) / zoom;
 }
 
+// --- Grid ---
+
+/** Default distance between major grid lines, in scene units. */
+export const DEFAULT_GRID_SPACING = 50;
+/** Default number of minor cells per major grid cell. */
+export const DEFAULT_GRID_SUBDIVISIONS = 5;
+/** Grid lines closer together than this on screen (in pixels) are not drawn. */
+export const MIN_GRID_SCREEN_SPACING = 6;
+
+// --- Rulers ---
+
+/** Minimum distance between labelled ruler ticks, in screen pixels. */
+export const MIN_RULER_LABEL_SPACING = 50;
+
 // --- Interactions ---
 
 /**
@@ -0,0 +1,330 @@
+import {
+  Canvas as FabricCanvas,
+  FabricObject,
+  Point,
+  util,
+  type TMat2D,
+} from 'fabric';
+import { getShapeOutline, isPointInOutline, measureShape } from './scale';
+import type { Point2D } from './types';
+
+/**
+ * How parent/child relationships are determined:
+ * - `'data'`: an object belongs to the object whose `data.id` is its
+ *   `data.parentId` (see {@link setParentObject}).
+ * - `'geometry'`: an object belongs to the smallest shape that contains its
+ *   centre and is larger than the object itself, e.g. a desk to the zone
+ *   it stands in.
+ */
+export type ContainmentMode = 'data' | 'geometry';
+
+export interface ContainmentOptions {
+  /** How parents are determined. Default: `'geometry'`. */
+  mode?: ContainmentMode;
+  /**
+   * Which objects can be parents in `'geometry'` mode, e.g.
+   * `(obj) => obj.data?.type === 'PLACE'`. Only polygons, rectangles and
+   * circles are considered either way. Default: all of them.
+   */
+  canContain?: (obj: FabricObject) => boolean;
+}
+
+/** A shape that can contain others, with its outline and area. */
+interface Container {
+  object: FabricObject;
+  outline: Point2D[];
+  area: number;
+}
+
+/** Top-level objects that take part in containment (not previews or guides). */
+function getContainableObjects(canvas: FabricCanvas): FabricObject[] {
+  return canvas.getObjects().filter((obj) => !obj.excludeFromExport);
+}
+
+/** Map every object that has a parent to that parent. */
+function getParentMap(
+  canvas: FabricCanvas,
+  options?: ContainmentOptions,
+): Map<FabricObject, FabricObject> {
+  const objects = getContainableObjects(canvas);
+  const parents = new Map<FabricObject, FabricObject>();
+
+  if (options?.mode === 'data') {
+    const byId = new Map<string, FabricObject>();
+    for (const obj of objects) {
+      if (obj.data?.id) byId.set(obj.data.id, obj);
+    }
+    for (const obj of objects) {
+      const parentId = obj.data?.parentId;
+      const parent = parentId ? byId.get(parentId) : undefined;
+      if (parent && parent !== obj) parents.set(obj, parent);
+    }
+    return parents;
+  }
+
+  const containers: Container[] = [];
+  for (const obj of objects) {
+    if (options?.canContain && !options.canContain(obj)) continue;
+    const outline = getShapeOutline(obj);
+    const area = measureShape(obj)?.area ?? 0;
+    if (outline && area > 0) containers.push({ object: obj, outline, area });
+  }
+  // Smallest first, so that the first match is the innermost container.
+  containers.sort((a, b) => a.area - b.area);
+
+  for (const obj of objects) {
+    const area = measureShape(obj)?.area ?? 0;
+    const center = obj.getCenterPoint();
+    const parent = containers.find(
+      (c) =>
+        c.object !== obj &&
+        c.area > area &&
+        isPointInOutline(center, c.outline),
+    );
+    if (parent) parents.set(obj, parent.object);
+  }
+  return parents;
+}
+
+/** Invert a parent map into lists of direct children, in stacking order. */
+function getChildMap(
+  parents: Map<FabricObject, FabricObject>,
+): Map<FabricObject, FabricObject[]> {
+  const children = new Map<FabricObject, FabricObject[]>();
+  parents.forEach((parent, child) => {
+    const list = children.get(parent);
+    if (list) list.push(child);
+    else children.set(parent, [child]);
+  });
+  return children;
+}
+
+/** All descendants of `roots` (excluding the roots), parents before children. */
+function collectDescendants(
+  roots: FabricObject[],
+  children: Map<FabricObject, FabricObject[]>,
+): FabricObject[] {
+  const seen = new Set(roots);
+  const result: FabricObject[] = [];
+  const queue = [...roots];
+  while (queue.length > 0) {
+    for (const child of children.get(queue.shift()!) ?? []) {
+      // `seen` also guards against cyclic `data.parentId` links.
+      if (seen.has(child)) continue;
+      seen.add(child);
+      result.push(child);
+      queue.push(child);
+    }
+  }
+  return result;
+}
+
+// --- Queries ---
+
+/**
+ * The object that `obj` belongs to, or `null` if it has none. Only
+ * top-level canvas objects take part; members of groups do not.
+ */
+export function getParentObject(
+  canvas: FabricCanvas,
+  obj: FabricObject,
+  options?: ContainmentOptions,
+): FabricObject | null {
+  return getParentMap(canvas, options).get(obj) ?? null;
+}
+
+/** The objects that belong directly to `parent`, in stacking order. */
+export function getChildObjects(
+  canvas: FabricCanvas,
+  parent: FabricObject,
+  options?: ContainmentOptions,
+): FabricObject[] {
+  return getChildMap(getParentMap(canvas, options)).get(parent) ?? [];
+}
+
+/**
+ * The objects that belong to `parent` directly or through other children
+ * (e.g. a device on a desk in a zone), parents before their children.
+ */
+export function getDescendantObjects(
+  canvas: FabricCanvas,
+  parent: FabricObject,
+  options?: ContainmentOptions,
+): FabricObject[] {
+  return collectDescendants(
+    [parent],
+    getChildMap(getParentMap(canvas, options)),
+  );
+}
+
+/**
+ * Make `child` belong to `parent` in `'data'` mode by setting its
+ * `data.parentId`, or remove the link with `null`. Both objects need `data`.
+ *
+ * Fires `object:modified` on the child, so history and dirty tracking pick
+ * up the change.
+ */
+export function setParentObject(
+  canvas: FabricCanvas,
+  child: FabricObject,
+  parent: FabricObject | null,
+): void {
+  if (!child.data) {
+    throw new Error('Only objects with `data` can belong to a parent.');
+  }
+  if (parent) {
+    if (!parent.data) {
+      throw new Error('Only objects with `data` can be parents.');
+    }
+    const descendants = getDescendantObjects(canvas, child, { mode: 'data' });
+    if (parent === child || descendants.includes(parent)) {
+      throw new Error('An object cannot belong to itself or its children.');
+    }
+    child.data = { ...child.data, parentId: parent.data.id };
+  } else {
+    if (child.data.parentId === undefined) return;
+    const { parentId: _parentId, ...data } = child.data;
+    child.data = data;
+  }
+  canvas.fire('object:modified', { target: child });
+}
+
+// --- Moving children with their parents ---
+
+/** Tolerance for comparing poses, which go through matrix round trips. */
+const POSE_EPSILON = 1e-6;
+
+function isSamePose(obj: FabricObject, center: Point2D, angle: number) {
+  const current = obj.getCenterPoint();
+  return (
+    Math.abs(current.x - center.x) < POSE_EPSILON &&
+    Math.abs(current.y - center.y) < POSE_EPSILON &&
+    Math.abs(obj.angle - angle) < POSE_EPSILON
+  );
+}
+
+/** A child following a selected ancestor, with both their starting poses. */
+interface Follower {
+  object: FabricObject;
+  /** The selected object whose transform the child follows. */
+  root: FabricObject;
+  /** Inverse of the root's scene transform when the child was recorded. */
+  rootInverse: TMat2D;
+  center: Point;
+  angle: number;
+}
+
+/**
+ * Move children along when their parent is moved, rotated or scaled, by
+ * dragging or by keyboard nudges. Children keep their own size; locked
+ * children (`lockMovementX` and `lockMovementY`) stay where they are.
+ *
+ * Relationships are worked out when the parent is selected, so in
+ * `'geometry'` mode objects that a dragged zone passes over do not join it. Each moved child gets its own `object:modified` when the parent's
+ * does.
+ *
+ * Returns a cleanup function that removes the listeners.
+ */
+export function enableContainment(
+  canvas: FabricCanvas,
+  options?: ContainmentOptions,
+): () => void {
+  let followers: Follower[] = [];
+  let isReporting = false;
+
+  function record() {
+    const selected = canvas.getActiveObjects();
+    if (selected.length === 0) {
+      followers = [];
+      return;
+    }
+    const parents = getParentMap(canvas, options);
+    const children = getChildMap(parents);
+    const selectedSet = new Set(selected);
+    followers = [];
+    for (const root of selected) {
+      const rootInverse = util.invertTransform(root.calcTransformMatrix());
+      for (const object of collectDescendants([root], children)) {
+        if (selectedSet.has(object)) continue;
+        if (object.lockMovementX && object.lockMovementY) continue;
+        // Each object follows the first selected ancestor that claims it.
+        selectedSet.add(object);
+        followers.push({
+          object,
+          root,
+          rootInverse,
+          center: object.getCenterPoint(),
+          angle: object.angle,
+        });
+      }
+    }
+  }
+
+  /** Where a follower belongs now, given its root's change since recording. */
+  function getTargetPose(follower: Follower): { center: Point; angle: number } {
+    const delta = util.multiplyTransformMatrices(
+      follower.root.calcTransformMatrix(),
+      follower.rootInverse,
+    );
+    return {
+      center: util.transformPoint(follower.center, delta),
+      angle: follower.angle + util.qrDecompose(delta).angle,
+    };
+  }
+
+  function follow() {
+    for (const follower of followers) {
+      const { object } = follower;
+      const { center, angle } = getTargetPose(follower);
+      if (isSamePose(object, center, angle)) continue;
+      object.set('angle', angle);
+      object.setPositionByOrigin(center, 'center', 'center');
+      object.setCoords();
+    }
+  }
+
+  const onSelection = () => record();
+
+  const onCleared = () => {
+    followers = [];
+  };
+
+  const onBeforeRender = () => {
+    if (followers.length > 0) follow();
+  };
+
+  const onModified = ({ target }: { target?: FabricObject }) => {
+    if (isReporting || !target || target !== canvas.getActiveObject()) return;
+    follow();
+    const moved = followers.filter(
+      (f) => !isSamePose(f.object, f.center, f.angle),
+    );
+    isReporting = true;
+    try {
+      for (const { object } of moved) {
+        canvas.fire('object:modified', { target: object });
+      }
+    } finally {
+      isReporting = false;
+    }
+    // The new positions are the starting point for the next change.
+    record();
+  };
+
+  canvas.on('selection:created', onSelection);
+  canvas.on('selection:updated', onSelection);
+  canvas.on('before:transform', onSelection);
+  canvas.on('selection:cleared', onCleared);
+  canvas.on('before:render', onBeforeRender);
+  canvas.on('object:modified', onModified);
+
+  return () => {
+    canvas.off('selection:created', onSelection);
+    canvas.off('selection:updated', onSelection);
+    canvas.off('before:transform', onSelection);
+    canvas.off('selection:cleared', onCleared);
+    canvas.off('before:render', onBeforeRender);
+    canvas.off('object:modified', onModified);
+    followers = [];
+  };
+}
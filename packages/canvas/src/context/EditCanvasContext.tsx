@@ -100,8 +100,25 @@ export function EditCanvasProvider({
       redo: canvas.redo,
       canUndo: canvas.canUndo,
       canRedo: canvas.canRedo,
+      historyEntries: canvas.historyEntries,
+      historyIndex: canvas.historyIndex,
+      jumpTo: canvas.jumpTo,
+      beginTransaction: canvas.beginTransaction,
+      commit: canvas.commit,
+      recoverableDraft: canvas.recoverableDraft,
+      recoverDraft: canvas.recoverDraft,
+      discardDraft: canvas.discardDraft,
+      getKeyBindings: canvas.getKeyBindings,
+      copy: canvas.copy,
+      cut: canvas.cut,
+      paste: canvas.paste,
+      duplicate: canvas.duplicate,
+      group: canvas.group,
+      ungroup: canvas.ungroup,
       lockLightMode: canvas.lockLightMode,
       setLockLightMode: canvas.setLockLightMode,
+      scale: canvas.scale,
+      setScale: canvas.setScale,
     }),
     // Only reactive state — stable callbacks omitted
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -113,7 +130,11 @@ export function EditCanvasProvider({
       canvas.isDirty,
       canvas.canUndo,
       canvas.canRedo,
+      canvas.historyEntries,
+      canvas.historyIndex,
+      canvas.recoverableDraft,
       canvas.lockLightMode,
+      canvas.scale,
     ],
   );
 
@@ -91,10 +91,11 @@ export function ViewCanvasProvider({
       setObjectStyles: canvas.setObjectStyles,
       setObjectStyleByType: canvas.setObjectStyleByType,
       lockLightMode: canvas.lockLightMode,
+      scale: canvas.scale,
     }),
     // Only reactive state — stable callbacks omitted
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    [canvas.objects, canvas.isLoading, canvas.lockLightMode],
+    [canvas.objects, canvas.isLoading, canvas.lockLightMode, canvas.scale],
   );
 
   return (
@@ -0,0 +1,571 @@
+import {
+  Canvas as FabricCanvas,
+  FabricImage,
+  Group,
+  IText,
+  Point,
+  Polyline,
+  Rect,
+  util,
+  type FabricObject,
+  type TOriginX,
+  type TOriginY,
+} from 'fabric';
+import { getBackgroundInverted, setBackgroundInverted } from './background';
+import { isCanvasLayers, setCanvasLayers } from './layers';
+import { migrateCanvasJSON } from './migrations';
+import { isCanvasScale, setCanvasScale } from './scale';
+import {
+  restoreLoadedObject,
+  setBaseBorderRadius,
+  setBaseStrokeWidth,
+} from './serialization';
+import { enableCurvedEdges } from './shapes/curves';
+import { editIcon, setBaseIconScale } from './shapes/icon';
+import { editLabel } from './shapes/label';
+import { DEFAULT_ICON_STYLE } from './styles';
+import type { CanvasJSON } from './types';
+
+/**
+ * Category of a change to a matched object.
+ * - `moved`: the object's centre moved.
+ * - `rotated`: `angle` changed.
+ * - `resized`: `width`, `height`, `scaleX` or `scaleY` changed.
+ * - `reshaped`: geometry other than size changed (`points`, corner radii, type).
+ * - `restyled`: appearance changed (`fill`, `stroke`, `strokeWidth`, `opacity`, …).
+ * - `data`: `data` changed.
+ * - `other`: any other serialized property changed.
+ */
+export type CanvasChangeKind =
+  | 'moved'
+  | 'rotated'
+  | 'resized'
+  | 'reshaped'
+  | 'restyled'
+  | 'data'
+  | 'other';
+
+/** A single changed property, with its value in each document. */
+export interface CanvasPropertyChange {
+  from: unknown;
+  to: unknown;
+}
+
+/** An object present in both documents whose serialized state differs. */
+export interface CanvasObjectModification {
+  /** The object's `data.id`. */
+  id: string;
+  /** Change categories, in a stable order. */
+  kinds: CanvasChangeKind[];
+  /** Changed top-level properties. */
+  properties: Record<string, CanvasPropertyChange>;
+  /** The object's full serialized state in the new document. */
+  object: Record<string, unknown>;
+}
+
+/** An object present only in the new document. */
+export interface CanvasObjectAddition {
+  id: string;
+  /** Index of the object in the new document's `objects` array. */
+  index: number;
+  object: Record<string, unknown>;
+}
+
+/** An object present only in the old document. */
+export interface CanvasObjectRemoval {
+  id: string;
+  object: Record<string, unknown>;
+}
+
+/**
+ * Result of {@link diffCanvasJSON}. Plain JSON — safe to send over the wire
+ * and apply elsewhere with {@link applyCanvasPatch}.
+ */
+export interface CanvasDiff {
+  added: CanvasObjectAddition[];
+  removed: CanvasObjectRemoval[];
+  modified: CanvasObjectModification[];
+  /** Background image change, or `null` if the background is unchanged. */
+  background: CanvasPropertyChange | null;
+  /** Real-world scale change, or `null` if the scale is unchanged. */
+  scale: CanvasPropertyChange | null;
+  /** Layers change (as whole lists), or `null` if the layers are unchanged. */
+  layers: CanvasPropertyChange | null;
+  /**
+   * Number of objects without a usable `data.id` (or with a duplicate one)
+   * in either document. Such objects cannot be matched and are not diffed.
+   */
+  unmatched: number;
+}
+
+/** Options for {@link applyCanvasPatch}. */
+export interface ApplyCanvasPatchOptions {
+  /**
+   * Visual border radius for added Rects, as in `loadCanvas`.
+   * Default: `4`.
+   */
+  borderRadius?: number | false;
+}
+
+/** Result of {@link applyCanvasPatch}. */
+export interface CanvasPatchResult {
+  added: FabricObject[];
+  removed: FabricObject[];
+  modified: FabricObject[];
+  /** IDs of removed or modified objects that were not found on the canvas. */
+  missing: string[];
+}
+
+const EPSILON = 1e-6;
+
+const KIND_ORDER: CanvasChangeKind[] = [
+  'moved',
+  'rotated',
+  'resized',
+  'reshaped',
+  'restyled',
+  'data',
+  'other',
+];
+
+/**
+ * Property → change category. Position properties (`left`, `top`, origins)
+ * are handled separately: they only count as `moved` when the centre moves.
+ */
+const PROPERTY_KINDS: Record<string, CanvasChangeKind> = {
+  angle: 'rotated',
+  width: 'resized',
+  height: 'resized',
+  scaleX: 'resized',
+  scaleY: 'resized',
+  points: 'reshaped',
+  path: 'reshaped',
+  rx: 'reshaped',
+  ry: 'reshaped',
+  radius: 'reshaped',
+  skewX: 'reshaped',
+  skewY: 'reshaped',
+  flipX: 'reshaped',
+  flipY: 'reshaped',
+  type: 'reshaped',
+  shapeType: 'reshaped',
+  fill: 'restyled',
+  stroke: 'restyled',
+  strokeWidth: 'restyled',
+  strokeDashArray: 'restyled',
+  strokeLineCap: 'restyled',
+  strokeLineJoin: 'restyled',
+  strokeUniform: 'restyled',
+  opacity: 'restyled',
+  visible: 'restyled',
+  shadow: 'restyled',
+  data: 'data',
+};
+
+const POSITION_PROPERTIES = new Set(['left', 'top', 'originX', 'originY']);
+
+// --- Comparison helpers ---
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Deep equality on JSON values, with a tolerance for floating-point noise. */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return Math.abs(a - b) <= EPSILON;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => isEqual(v, b[i]));
+  }
+  if (isRecord(a) && isRecord(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+      if (!isEqual(a[key], b[key])) return false;
+    }
+    return true;
+  }
+  return a === b;
+}
+
+function getNumber(obj: Record<string, unknown>, key: string, fallback = 0) {
+  const value = obj[key];
+  return typeof value === 'number' ? value : fallback;
+}
+
+const ORIGIN_OFFSET: Record<string, number> = {
+  left: 0,
+  top: 0,
+  center: 0.5,
+  right: 1,
+  bottom: 1,
+};
+
+/**
+ * Centre of a serialized object, derived from its position, origin, size,
+ * scale, stroke and rotation (skew is ignored).
+ */
+function getSerializedCenter(obj: Record<string, unknown>): Point {
+  const strokeWidth = obj.stroke ? getNumber(obj, 'strokeWidth') : 0;
+  const scaleX = getNumber(obj, 'scaleX', 1);
+  const scaleY = getNumber(obj, 'scaleY', 1);
+  const width = obj.strokeUniform
+    ? getNumber(obj, 'width') * scaleX + strokeWidth
+    : (getNumber(obj, 'width') + strokeWidth) * scaleX;
+  const height = obj.strokeUniform
+    ? getNumber(obj, 'height') * scaleY + strokeWidth
+    : (getNumber(obj, 'height') + strokeWidth) * scaleY;
+  const ox = 0.5 - (ORIGIN_OFFSET[String(obj.originX)] ?? 0.5);
+  const oy = 0.5 - (ORIGIN_OFFSET[String(obj.originY)] ?? 0.5);
+  const offset = util.rotateVector(
+    new Point(ox * width, oy * height),
+    util.degreesToRadians(getNumber(obj, 'angle')),
+  );
+  return new Point(getNumber(obj, 'left'), getNumber(obj, 'top')).add(offset);
+}
+
+/**
+ * Index objects by `data.id`. Objects without an ID, and every occurrence
+ * after the first of a duplicated ID, are counted as unmatched.
+ */
+function indexById(objects: Record<string, unknown>[]) {
+  const byId = new Map<
+    string,
+    { object: Record<string, unknown>; index: number }
+  >();
+  let unmatched = 0;
+  objects.forEach((object, index) => {
+    const id = isRecord(object.data) ? object.data.id : undefined;
+    if (typeof id !== 'string' || id === '' || byId.has(id)) {
+      unmatched++;
+      return;
+    }
+    byId.set(id, { object, index });
+  });
+  return { byId, unmatched };
+}
+
+function diffObject(
+  id: string,
+  from: Record<string, unknown>,
+  to: Record<string, unknown>,
+): CanvasObjectModification | null {
+  const properties: Record<string, CanvasPropertyChange> = {};
+  const kinds = new Set<CanvasChangeKind>();
+
+  const keys = new Set([...Object.keys(from), ...Object.keys(to)]);
+  for (const key of keys) {
+    if (isEqual(from[key], to[key])) continue;
+    properties[key] = { from: from[key], to: to[key] };
+    if (!POSITION_PROPERTIES.has(key)) {
+      kinds.add(PROPERTY_KINDS[key] ?? 'other');
+    }
+  }
+  if (Object.keys(properties).length === 0) return null;
+
+  const fromCenter = getSerializedCenter(from);
+  const toCenter = getSerializedCenter(to);
+  if (
+    Math.abs(fromCenter.x - toCenter.x) > EPSILON ||
+    Math.abs(fromCenter.y - toCenter.y) > EPSILON
+  ) {
+    kinds.add('moved');
+  }
+
+  return {
+    id,
+    kinds: KIND_ORDER.filter((kind) => kinds.has(kind)),
+    properties,
+    object: to,
+  };
+}
+
+// --- Patch helpers ---
+
+function findObjectsById(canvas: FabricCanvas): Map<string, FabricObject> {
+  const byId = new Map<string, FabricObject>();
+  canvas.forEachObject((obj) => {
+    const id = obj.data?.id;
+    if (id && !byId.has(id)) byId.set(id, obj);
+  });
+  return byId;
+}
+
+/** Apply a modification to a live (center/center origin) object. */
+function applyModification(
+  canvas: FabricCanvas,
+  obj: FabricObject,
+  modification: CanvasObjectModification,
+) {
+  const target = modification.object;
+  let changes: Record<string, unknown> = {};
+  for (const [key, change] of Object.entries(modification.properties)) {
+    if (POSITION_PROPERTIES.has(key) || key === 'type') continue;
+    changes[key] = change.to;
+  }
+
+  if (obj.shapeType === 'icon' && obj instanceof Group) {
+    // Recolour and re-lock the icon as `editIcon` does. Its paths follow the
+    // tint, so their serialized `objects` need no patching of their own.
+    const {
+      tint,
+      fixedSize,
+      scaleX,
+      scaleY,
+      objects: _objects,
+      ...other
+    } = changes;
+    editIcon(canvas, obj, {
+      ...('tint' in changes && {
+        tint: typeof tint === 'string' ? tint : DEFAULT_ICON_STYLE.tint,
+      }),
+      ...('fixedSize' in changes && { fixedSize: fixedSize === true }),
+    });
+    // Icons scale uniformly; the serialized scale is the unzoomed base one.
+    const scale = typeof scaleX === 'number' ? scaleX : scaleY;
+    if (typeof scale === 'number') setBaseIconScale(canvas, obj, scale);
+    changes = other;
+  }
+
+  if (
+    obj.shapeType === 'label' &&
+    obj instanceof IText &&
+    typeof changes.fontSize === 'number'
+  ) {
+    // Through `editLabel`, so the base size kept by `enableScaledLabels`
+    // follows the patch.
+    const { fontSize, ...other } = changes;
+    editLabel(canvas, obj, { fontSize: fontSize as number });
+    changes = other;
+  }
+
+  const { strokeWidth, rx, ry, points, bulges, ...rest } = changes;
+  obj.set(rest);
+  if (typeof strokeWidth === 'number') setBaseStrokeWidth(obj, strokeWidth);
+  if (obj instanceof Rect && (rx !== undefined || ry !== undefined)) {
+    setBaseBorderRadius(obj, {
+      ...(typeof rx === 'number' && { rx }),
+      ...(typeof ry === 'number' && { ry }),
+    });
+  }
+  if (obj instanceof Polyline && ('bulges' in changes || 'points' in changes)) {
+    enableCurvedEdges(obj);
+    if ('bulges' in changes) {
+      obj.bulges = Array.isArray(bulges) ? [...bulges] : undefined;
+    }
+    if (Array.isArray(points)) {
+      obj.points = points.map((p: { x: number; y: number }) => ({
+        x: p.x,
+        y: p.y,
+      }));
+    }
+    // Bulges first, so that the dimensions account for the curved edges.
+    obj.setDimensions();
+  }
+
+  // Position from the target state's own origin, now that size is updated.
+  obj.setPositionByOrigin(
+    new Point(getNumber(target, 'left'), getNumber(target, 'top')),
+    (target.originX as TOriginX) ?? 'left',
+    (target.originY as TOriginY) ?? 'top',
+  );
+  obj.setCoords();
+}
+
+async function applyBackground(canvas: FabricCanvas, next: unknown) {
+  const inverted = getBackgroundInverted(canvas);
+  if (!isRecord(next)) {
+    canvas.backgroundImage = undefined;
+  } else {
+    const bg = await FabricImage.fromObject(
+      next as Parameters<typeof FabricImage.fromObject>[0],
+    );
+    const center = bg.getCenterPoint();
+    bg.set({
+      originX: 'center',
+      originY: 'center',
+      left: center.x,
+      top: center.y,
+    });
+    bg.setCoords();
+    canvas.backgroundImage = bg;
+    // Inversion is a runtime (theme) concern — keep the current state.
+    if (inverted) setBackgroundInverted(canvas, true);
+  }
+  canvas.fire('background:modified');
+}
+
+// --- Public API ---
+
+/**
+ * Compute a semantic diff between two serialized canvas documents.
+ *
+ * Objects are matched by `data.id`. Both documents are first upgraded with
+ * `migrateCanvasJSON`, so documents saved by different versions compare
+ * cleanly. For matched objects every changed top-level property is reported,
+ * grouped into {@link CanvasChangeKind}s; an object only counts as `moved`
+ * when its centre moves (resizing about the centre changes `left`/`top` but
+ * is reported as `resized` only).
+ *
+ * Inputs are not mutated.
+ */
+export function diffCanvasJSON(
+  a: CanvasJSON | object,
+  b: CanvasJSON | object,
+): CanvasDiff {
+  const from = migrateCanvasJSON(a);
+  const to = migrateCanvasJSON(b);
+  const before = indexById(from.objects);
+  const after = indexById(to.objects);
+
+  const added: CanvasObjectAddition[] = [];
+  const modified: CanvasObjectModification[] = [];
+  for (const [id, { object, index }] of after.byId) {
+    const previous = before.byId.get(id);
+    if (!previous) {
+      added.push({ id, index, object });
+      continue;
+    }
+    const modification = diffObject(id, previous.object, object);
+    if (modification) modified.push(modification);
+  }
+
+  const removed: CanvasObjectRemoval[] = [];
+  for (const [id, { object }] of before.byId) {
+    if (!after.byId.has(id)) removed.push({ id, object });
+  }
+
+  return {
+    added,
+    removed,
+    modified,
+    background: isEqual(from.backgroundImage, to.backgroundImage)
+      ? null
+      : { from: from.backgroundImage, to: to.backgroundImage },
+    scale: isEqual(from.realWorldScale, to.realWorldScale)
+      ? null
+      : { from: from.realWorldScale, to: to.realWorldScale },
+    layers: isEqual(from.layers, to.layers)
+      ? null
+      : { from: from.layers, to: to.layers },
+    unmatched: before.unmatched + after.unmatched,
+  };
+}
+
+/**
+ * Whether a diff contains no changes (unmatched objects are ignored).
+ */
+export function isCanvasDiffEmpty(diff: CanvasDiff): boolean {
+  return (
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.modified.length === 0 &&
+    diff.background === null &&
+    !diff.scale &&
+    !diff.layers
+  );
+}
+
+/**
+ * Apply a diff from {@link diffCanvasJSON} to a live canvas.
+ *
+ * Objects are located by `data.id`. Removed objects are removed, modified
+ * objects receive the changed properties (stroke widths and corner radii
+ * update the base values tracked by `enableScaledStrokes` and `loadCanvas`;
+ * icon tints, sizing modes and scales are applied as by `editIcon` and
+ * label font sizes as by `editLabel`; objects whose Fabric type changed and
+ * groups whose members changed are recreated), and added objects are created and
+ * inserted at their index in the new document. The real-world scale and
+ * layers are replaced when they changed. The usual `object:added`,
+ * `object:removed`, `object:modified`, `background:modified`,
+ * `scale:modified` and `layers:modified` events fire, so dirty tracking and
+ * history pick up the change.
+ *
+ * Objects that cannot be found are reported in `missing` rather than
+ * throwing, so a patch can be applied to a canvas that has drifted.
+ */
+export async function applyCanvasPatch(
+  canvas: FabricCanvas,
+  diff: CanvasDiff,
+  options?: ApplyCanvasPatchOptions,
+): Promise<CanvasPatchResult> {
+  const result: CanvasPatchResult = {
+    added: [],
+    removed: [],
+    modified: [],
+    missing: [],
+  };
+  const byId = findObjectsById(canvas);
+
+  for (const { id } of diff.removed) {
+    const obj = byId.get(id);
+    if (!obj) {
+      result.missing.push(id);
+      continue;
+    }
+    canvas.remove(obj);
+    byId.delete(id);
+    result.removed.push(obj);
+  }
+
+  // Objects whose Fabric type changed, and groups whose members changed,
+  // cannot be updated in place; they are recreated at their current stacking
+  // position. Icons recolour their own members (see `applyModification`).
+  const toCreate: {
+    addition: CanvasObjectAddition;
+    into: FabricObject[];
+  }[] = [];
+
+  for (const modification of diff.modified) {
+    const obj = byId.get(modification.id);
+    if (!obj) {
+      result.missing.push(modification.id);
+      continue;
+    }
+    if (
+      'type' in modification.properties ||
+      ('objects' in modification.properties &&
+        obj instanceof Group &&
+        obj.shapeType !== 'icon')
+    ) {
+      const index = canvas.getObjects().indexOf(obj);
+      canvas.remove(obj);
+      toCreate.push({
+        addition: { id: modification.id, index, object: modification.object },
+        into: result.modified,
+      });
+      continue;
+    }
+    applyModification(canvas, obj, modification);
+    canvas.fire('object:modified', { target: obj });
+    result.modified.push(obj);
+  }
+
+  for (const addition of diff.added) {
+    toCreate.push({ addition, into: result.added });
+  }
+  toCreate.sort((x, y) => x.addition.index - y.addition.index);
+
+  const created = (await util.enlivenObjects(
+    toCreate.map(({ addition }) => addition.object),
+  )) as FabricObject[];
+  created.forEach((obj, i) => {
+    const { addition, into } = toCreate[i];
+    restoreLoadedObject(obj, options?.borderRadius);
+    canvas.insertAt(Math.min(addition.index, canvas.getObjects().length), obj);
+    into.push(obj);
+  });
+
+  if (diff.background) await applyBackground(canvas, diff.background.to);
+  if (diff.scale) {
+    const scale = diff.scale.to;
+    setCanvasScale(canvas, isCanvasScale(scale) ? scale : null);
+  }
+  if (diff.layers) {
+    const layers = diff.layers.to;
+    setCanvasLayers(canvas, isCanvasLayers(layers) ? layers : []);
+  }
+
+  canvas.requestRenderAll();
+  return result;
+}
@@ -0,0 +1,234 @@
+import { Canvas as FabricCanvas } from 'fabric';
+import { serializeCanvas } from './serialization';
+import type { CanvasDiff } from './diff';
+import type { SerializedHistory } from './history';
+import type { CanvasJSON } from './types';
+
+const DATABASE_NAME = 'bwp-canvas-drafts';
+const STORE_NAME = 'drafts';
+
+/** A locally persisted copy of an unsaved canvas. */
+export interface CanvasDraft {
+  /** Caller-provided document id the draft belongs to. */
+  id: string;
+  /** The working canvas state, as produced by {@link serializeCanvas}. */
+  canvas: CanvasJSON;
+  /**
+   * Fingerprint of the data the edits started from (see
+   * {@link getCanvasFingerprint}), or `null` for a new document. Used to
+   * tell whether the saved document has changed since the draft was made.
+   */
+  baseFingerprint: string | null;
+  /** When the draft was last written (milliseconds since the epoch). */
+  savedAt: number;
+  /** Undo history at the time of saving, if `includeHistory` was set. */
+  history?: SerializedHistory;
+}
+
+export interface CanvasDraftOptions {
+  /** Document id the draft is stored under. Drafts are per id. */
+  id: string;
+  /** Also persist the undo history (requires `history` to be enabled). Default: `false`. */
+  includeHistory?: boolean;
+  /** Delay in milliseconds after the last change before writing the draft. Default: 1000. */
+  debounce?: number;
+  /**
+   * Called when reading or writing a draft fails (e.g. IndexedDB unavailable
+   * or full), or when a stored draft cannot be read as canvas data (e.g. it
+   * comes from a newer schema version); such a draft is deleted.
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * A draft found on mount that differs from the document being edited,
+ * as exposed by `useEditCanvas` (`recoverableDraft`).
+ */
+export interface CanvasDraftRecovery {
+  /** When the draft was last written (milliseconds since the epoch). */
+  savedAt: number;
+  /**
+   * Whether the document (`canvasData`) has changed since the draft was
+   * made, e.g. because it was saved from another tab. Recovering then
+   * discards those changes.
+   */
+  baseChanged: boolean;
+  /** Changes from the document to the draft (see {@link diffCanvasJSON}). */
+  diff: CanvasDiff;
+  /** Whether the draft includes undo history that will be restored. */
+  hasHistory: boolean;
+}
+
+// --- IndexedDB helpers ---
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(
+      new Error('Canvas drafts require IndexedDB, which is not available.'),
+    );
+  }
+  const request = indexedDB.open(DATABASE_NAME, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+  };
+  return promisifyRequest(request);
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const completed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    const result = await promisifyRequest(
+      run(transaction.objectStore(STORE_NAME)),
+    );
+    await completed;
+    return result;
+  } finally {
+    db.close();
+  }
+}
+
+// --- Public API ---
+
+/** Write a draft to IndexedDB, replacing any draft with the same id. */
+export async function saveCanvasDraft(draft: CanvasDraft): Promise<void> {
+  await withStore('readwrite', (store) => store.put(draft));
+}
+
+/** Read the draft stored for a document id, or `null` if there is none. */
+export async function loadCanvasDraft(id: string): Promise<CanvasDraft | null> {
+  const draft = await withStore<CanvasDraft | undefined>('readonly', (store) =>
+    store.get(id),
+  );
+  return draft ?? null;
+}
+
+/** Delete the draft stored for a document id, if any. */
+export async function deleteCanvasDraft(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+/**
+ * Return a short fingerprint of canvas data, for detecting whether a
+ * document changed. Equal data gives equal fingerprints; the reverse holds
+ * with overwhelming probability.
+ */
+export function getCanvasFingerprint(json: CanvasJSON | object): string {
+  // 32-bit FNV-1a over the JSON text.
+  const text = JSON.stringify(json);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${text.length.toString(36)}-${(hash >>> 0).toString(36)}`;
+}
+
+// --- Draft persistence ---
+// Used by useEditCanvas; not part of the public package API.
+
+export interface DraftPersister {
+  /** Write the draft after the debounce delay. No-op while paused. */
+  schedule: () => void;
+  /** Delete the stored draft and cancel any scheduled write. No-op while paused. */
+  discard: () => void;
+  /** Stop writing and deleting drafts (e.g. while a recovery offer is pending). */
+  pause: () => void;
+  /** Resume after {@link pause}. */
+  resume: () => void;
+  /** Fingerprint later drafts with the given base, e.g. after a save. */
+  setBaseFingerprint: (fingerprint: string | null) => void;
+  /** Write a scheduled draft immediately and stop. */
+  cleanup: () => void;
+}
+
+/**
+ * Create a debounced writer that persists the canvas to IndexedDB under
+ * `options.id`. Starts paused.
+ */
+export function createDraftPersister(
+  canvas: FabricCanvas,
+  options: CanvasDraftOptions & {
+    baseFingerprint: string | null;
+    getHistory?: () => SerializedHistory | undefined;
+  },
+): DraftPersister {
+  const debounceMs = options.debounce ?? 1000;
+  let baseFingerprint = options.baseFingerprint;
+  let paused = true;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const reportError = (error: unknown) => options.onError?.(error);
+
+  function clearTimer() {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  }
+
+  function write() {
+    clearTimer();
+    let draft: CanvasDraft;
+    try {
+      draft = {
+        id: options.id,
+        canvas: serializeCanvas(canvas),
+        baseFingerprint,
+        savedAt: Date.now(),
+        ...(options.includeHistory && { history: options.getHistory?.() }),
+      };
+    } catch (error) {
+      reportError(error);
+      return;
+    }
+    saveCanvasDraft(draft).catch(reportError);
+  }
+
+  return {
+    schedule() {
+      if (paused) return;
+      clearTimer();
+      timer = setTimeout(write, debounceMs);
+    },
+
+    discard() {
+      if (paused) return;
+      clearTimer();
+      deleteCanvasDraft(options.id).catch(reportError);
+    },
+
+    pause() {
+      clearTimer();
+      paused = true;
+    },
+
+    resume() {
+      paused = false;
+    },
+
+    setBaseFingerprint(fingerprint) {
+      baseFingerprint = fingerprint;
+    },
+
+    cleanup() {
+      if (timer !== null) write();
+      paused = true;
+    },
+  };
+}
@@ -0,0 +1,296 @@
+import {
+  Canvas as FabricCanvas,
+  Point,
+  util,
+  type Polygon,
+  type TMat2D,
+} from 'fabric';
+import { createPolygonFromVertices } from '../shapes/polygon';
+import type { ObjectDataType } from '../fabricAugmentation';
+import type { Point2D, ShapeStyleOptions } from '../types';
+import {
+  getDxfBounds,
+  getDxfPolylinePoints,
+  type DxfDocument,
+  type DxfEntity,
+  type DxfPolyline,
+} from './parser';
+
+const DEFAULT_MAX_SIZE = 4096;
+
+/**
+ * Options controlling how drawing coordinates map to scene coordinates.
+ */
+export interface DxfPlacementOptions {
+  /**
+   * Scene pixels per drawing unit. Default: fit the drawing into `maxSize`.
+   */
+  scale?: number;
+  /** Longest side of the placed drawing, in pixels, when `scale` is not set. Default: 4096. */
+  maxSize?: number;
+  /** Padding around the drawing, in pixels. Default: `0`. */
+  padding?: number;
+}
+
+/**
+ * Where a DXF drawing sits in the scene: the image produced by
+ * {@link rasterizeDxf} covers `(0, 0)`–`(width, height)`, which is exactly
+ * where {@link setBackgroundImage} places it.
+ */
+export interface DxfPlacement {
+  /**
+   * Drawing → scene transform (`[a, b, c, d, e, f]`, as in Fabric). Flips
+   * the y axis, since DXF y points up.
+   */
+  transform: TMat2D;
+  width: number;
+  height: number;
+}
+
+export interface RasterizeDxfOptions extends DxfPlacementOptions {
+  /** Only draw entities on these layers (case-insensitive). Default: all layers. */
+  layers?: string[];
+  /** Line colour. Default: `'#000000'`. */
+  strokeColor?: string;
+  /** Line width in pixels. Default: `1`. */
+  lineWidth?: number;
+  /** Text colour. Default: `strokeColor`. */
+  textColor?: string;
+  /** Font family for TEXT entities. Default: `'sans-serif'`. */
+  fontFamily?: string;
+  /** Draw TEXT entities. Default: `true`. */
+  includeText?: boolean;
+  /** Fill colour behind the drawing. Pass `''` for transparent. Default: `'#ffffff'`. */
+  backgroundColor?: string;
+}
+
+/** Result of {@link rasterizeDxf}. */
+export interface RasterizedDxf extends DxfPlacement {
+  /** PNG data URL, ready for `setBackgroundImage`. */
+  url: string;
+}
+
+export interface ImportDxfPolygonsOptions extends Omit<
+  ShapeStyleOptions,
+  'data'
+> {
+  /** `data.type` assigned to every created polygon. */
+  dataType: ObjectDataType;
+  /** Only import polylines on these layers (case-insensitive). Default: all layers. */
+  layers?: string[];
+  /**
+   * Drawing → scene transform. Pass the `transform` returned by
+   * {@link rasterizeDxf} so polygons line up with the background.
+   * Default: {@link getDxfPlacement} with default options.
+   */
+  transform?: TMat2D;
+  /** Generate `data.id` for each polygon. Default: `crypto.randomUUID()`. */
+  getId?: (polyline: DxfPolyline, index: number) => string;
+}
+
+// --- Helpers ---
+
+function filterByLayers(
+  entities: DxfEntity[],
+  layers: string[] | undefined,
+): DxfEntity[] {
+  if (!layers) return entities;
+  const wanted = new Set(layers.map((l) => l.toUpperCase()));
+  return entities.filter((e) => wanted.has(e.layer.toUpperCase()));
+}
+
+/** Whether a polyline encloses an area: closed flag or coincident ends. */
+function isClosedPolyline(polyline: DxfPolyline): boolean {
+  if (polyline.closed) return true;
+  const { vertices } = polyline;
+  if (vertices.length < 4) return false;
+  const first = vertices[0];
+  const last = vertices[vertices.length - 1];
+  return first.x === last.x && first.y === last.y;
+}
+
+function toScene(point: Point2D, transform: TMat2D): Point {
+  return util.transformPoint(new Point(point.x, point.y), transform);
+}
+
+function drawEntity(
+  ctx: CanvasRenderingContext2D,
+  entity: DxfEntity,
+  transform: TMat2D,
+  scale: number,
+  options: RasterizeDxfOptions | undefined,
+) {
+  switch (entity.type) {
+    case 'LINE': {
+      const start = toScene(entity.start, transform);
+      const end = toScene(entity.end, transform);
+      ctx.beginPath();
+      ctx.moveTo(start.x, start.y);
+      ctx.lineTo(end.x, end.y);
+      ctx.stroke();
+      break;
+    }
+    case 'LWPOLYLINE': {
+      const points = getDxfPolylinePoints(entity).map((p) =>
+        toScene(p, transform),
+      );
+      if (points.length < 2) break;
+      ctx.beginPath();
+      ctx.moveTo(points[0].x, points[0].y);
+      for (const p of points.slice(1)) ctx.lineTo(p.x, p.y);
+      if (entity.closed) ctx.closePath();
+      ctx.stroke();
+      break;
+    }
+    case 'CIRCLE': {
+      const center = toScene(entity.center, transform);
+      ctx.beginPath();
+      ctx.arc(center.x, center.y, entity.radius * scale, 0, Math.PI * 2);
+      ctx.stroke();
+      break;
+    }
+    case 'TEXT': {
+      if (options?.includeText === false || !entity.text) break;
+      const position = toScene(entity.position, transform);
+      ctx.save();
+      ctx.translate(position.x, position.y);
+      // DXF rotation is counterclockwise with y up; the canvas y axis points down.
+      ctx.rotate(-util.degreesToRadians(entity.rotation));
+      ctx.font = `${entity.height * scale}px ${options?.fontFamily ?? 'sans-serif'}`;
+      ctx.fillText(entity.text, 0, 0);
+      ctx.restore();
+      break;
+    }
+  }
+}
+
+// --- Public API ---
+
+/**
+ * Compute where a DXF drawing is placed in the scene.
+ *
+ * The placement is based on the bounds of *all* entities (regardless of any
+ * layer filter), so backgrounds and polygons imported from different layers
+ * of the same file line up when they share placement options.
+ */
+export function getDxfPlacement(
+  doc: DxfDocument,
+  options?: DxfPlacementOptions,
+): DxfPlacement {
+  const padding = options?.padding ?? 0;
+  const bounds = getDxfBounds(doc.entities) ?? {
+    minX: 0,
+    minY: 0,
+    maxX: 0,
+    maxY: 0,
+  };
+  const drawingWidth = bounds.maxX - bounds.minX;
+  const drawingHeight = bounds.maxY - bounds.minY;
+  const longest = Math.max(drawingWidth, drawingHeight);
+  const maxSize = options?.maxSize ?? DEFAULT_MAX_SIZE;
+  const scale =
+    options?.scale ??
+    (longest > 0 ? Math.max(maxSize - padding * 2, 1) / longest : 1);
+
+  return {
+    transform: [
+      scale,
+      0,
+      0,
+      -scale,
+      padding - bounds.minX * scale,
+      padding + bounds.maxY * scale,
+    ],
+    width: Math.max(1, Math.ceil(drawingWidth * scale + padding * 2)),
+    height: Math.max(1, Math.ceil(drawingHeight * scale + padding * 2)),
+  };
+}
+
+/**
+ * Rasterise a parsed DXF drawing (optionally restricted to some layers) into
+ * a PNG data URL for use with {@link setBackgroundImage}.
+ *
+ * Pass the URL to `setBackgroundImage` without resize options so the image
+ * keeps the returned placement; use `scale`/`maxSize` here to control the
+ * resolution instead. A data URL is used (rather than an object URL) so the
+ * background survives {@link serializeCanvas}.
+ */
+export function rasterizeDxf(
+  doc: DxfDocument,
+  options?: RasterizeDxfOptions,
+): RasterizedDxf {
+  const placement = getDxfPlacement(doc, options);
+  const scale = placement.transform[0];
+  const el = util.createCanvasElement();
+  el.width = placement.width;
+  el.height = placement.height;
+  const ctx = el.getContext('2d');
+  if (!ctx) throw new Error('Failed to create a 2D context for DXF rendering.');
+
+  const backgroundColor = options?.backgroundColor ?? '#ffffff';
+  if (backgroundColor) {
+    ctx.fillStyle = backgroundColor;
+    ctx.fillRect(0, 0, el.width, el.height);
+  }
+  const strokeColor = options?.strokeColor ?? '#000000';
+  ctx.strokeStyle = strokeColor;
+  ctx.fillStyle = options?.textColor ?? strokeColor;
+  ctx.lineWidth = options?.lineWidth ?? 1;
+  ctx.lineJoin = 'round';
+  ctx.lineCap = 'round';
+
+  for (const entity of filterByLayers(doc.entities, options?.layers)) {
+    drawEntity(ctx, entity, placement.transform, scale, options);
+  }
+
+  return { ...placement, url: el.toDataURL('image/png') };
+}
+
+/**
+ * Create canvas polygons from the closed polylines of a parsed DXF drawing,
+ * via {@link createPolygonFromVertices}.
+ *
+ * Polylines count as closed if their closed flag is set or their first and
+ * last vertices coincide. Arc segments are approximated with straight
+ * segments. Each polygon gets `data: { type: options.dataType, id }`.
+ *
+ * Returns the created polygons.
+ */
+export function importDxfPolygons(
+  canvas: FabricCanvas,
+  doc: DxfDocument,
+  options: ImportDxfPolygonsOptions,
+): Polygon[] {
+  const { dataType, layers, transform, getId, ...style } = options;
+  const toSceneTransform = transform ?? getDxfPlacement(doc).transform;
+  const polylines = filterByLayers(doc.entities, layers).filter(
+    (e): e is DxfPolyline => e.type === 'LWPOLYLINE' && isClosedPolyline(e),
+  );
+
+  const created: Polygon[] = [];
+  polylines.forEach((polyline, index) => {
+    const points = getDxfPolylinePoints({ ...polyline, closed: true });
+    // Drop the duplicated end vertex of polylines closed by coincident ends.
+    const first = points[0];
+    const last = points[points.length - 1];
+    if (points.length > 1 && first.x === last.x && first.y === last.y) {
+      points.pop();
+    }
+    if (points.length < 3) return;
+
+    created.push(
+      createPolygonFromVertices(
+        canvas,
+        points.map((p) => toScene(p, toSceneTransform)),
+        {
+          ...style,
+          data: {
+            type: dataType,
+            id: getId ? getId(polyline, index) : crypto.randomUUID(),
+          },
+        },
+      ),
+    );
+  });
+  return created;
+}
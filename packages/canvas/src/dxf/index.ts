@@ -0,0 +1,20 @@
+export { parseDxf, getDxfPolylinePoints, getDxfBounds } from './parser';
+export type {
+  DxfDocument,
+  DxfEntity,
+  DxfLine,
+  DxfPolyline,
+  DxfPolylineVertex,
+  DxfCircle,
+  DxfText,
+  DxfBounds,
+} from './parser';
+
+export { getDxfPlacement, rasterizeDxf, importDxfPolygons } from './import';
+export type {
+  DxfPlacement,
+  DxfPlacementOptions,
+  RasterizeDxfOptions,
+  RasterizedDxf,
+  ImportDxfPolygonsOptions,
+} from './import';
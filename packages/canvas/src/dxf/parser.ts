@@ -0,0 +1,350 @@
+import type { Point2D } from '../types';
+
+// --- DXF document model ---
+
+interface DxfEntityBase {
+  /** Layer name (group code 8). Defaults to `'0'`. */
+  layer: string;
+}
+
+export interface DxfLine extends DxfEntityBase {
+  type: 'LINE';
+  start: Point2D;
+  end: Point2D;
+}
+
+/** A vertex of an LWPOLYLINE. */
+export interface DxfPolylineVertex extends Point2D {
+  /**
+   * Bulge of the segment starting at this vertex: `tan(sweep / 4)`.
+   * `0` for straight segments; positive values arc counterclockwise.
+   */
+  bulge: number;
+}
+
+export interface DxfPolyline extends DxfEntityBase {
+  type: 'LWPOLYLINE';
+  vertices: DxfPolylineVertex[];
+  /** Whether the polyline is closed (flag bit 1 of group code 70). */
+  closed: boolean;
+}
+
+export interface DxfCircle extends DxfEntityBase {
+  type: 'CIRCLE';
+  center: Point2D;
+  radius: number;
+}
+
+export interface DxfText extends DxfEntityBase {
+  type: 'TEXT';
+  /** First alignment point (insertion point). */
+  position: Point2D;
+  /** Text height in drawing units. */
+  height: number;
+  /** Rotation in degrees, counterclockwise. */
+  rotation: number;
+  text: string;
+}
+
+export type DxfEntity = DxfLine | DxfPolyline | DxfCircle | DxfText;
+
+/** A parsed DXF drawing (the subset of entities supported by this package). */
+export interface DxfDocument {
+  entities: DxfEntity[];
+  /** All layer names, from the LAYER table and from the entities themselves. */
+  layers: string[];
+  /** Drawing units from the `$INSUNITS` header variable, if present. */
+  units?: number;
+}
+
+/** Axis-aligned bounds in DXF drawing coordinates (y up). */
+export interface DxfBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// --- Tokenizer ---
+
+interface GroupPair {
+  code: number;
+  value: string;
+}
+
+function readPairs(text: string): GroupPair[] {
+  const lines = text.split(/\r\n|\r|\n/);
+  const pairs: GroupPair[] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = Number.parseInt(lines[i].trim(), 10);
+    if (Number.isNaN(code)) {
+      throw new Error(
+        `Invalid DXF: expected a group code on line ${i + 1}, got "${lines[i].trim()}".`,
+      );
+    }
+    pairs.push({ code, value: lines[i + 1].trim() });
+  }
+  return pairs;
+}
+
+function toNumber(value: string): number {
+  const n = Number.parseFloat(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+/**
+ * Decode the escape sequences that commonly appear in TEXT values
+ * (`%%d`, `%%p`, `%%c`, `%%%` and `\U+XXXX`).
+ */
+function decodeText(value: string): string {
+  return value
+    .replace(/\\U\+([0-9a-fA-F]{4})/g, (_, hex: string) =>
+      String.fromCharCode(Number.parseInt(hex, 16)),
+    )
+    .replace(/%%[dD]/g, '°')
+    .replace(/%%[pP]/g, '±')
+    .replace(/%%[cC]/g, '⌀')
+    .replace(/%%%/g, '%');
+}
+
+// --- Entity parsing ---
+
+/** Parse one entity from its group pairs (excluding the leading `0` pair). */
+function parseEntity(type: string, pairs: GroupPair[]): DxfEntity | null {
+  let layer = '0';
+  const values = new Map<number, string>();
+  for (const { code, value } of pairs) {
+    if (code === 8) layer = value;
+    else if (!values.has(code)) values.set(code, value);
+  }
+  const num = (code: number) => toNumber(values.get(code) ?? '0');
+
+  switch (type) {
+    case 'LINE':
+      return {
+        type,
+        layer,
+        start: { x: num(10), y: num(20) },
+        end: { x: num(11), y: num(21) },
+      };
+    case 'CIRCLE':
+      return {
+        type,
+        layer,
+        center: { x: num(10), y: num(20) },
+        radius: num(40),
+      };
+    case 'TEXT':
+      return {
+        type,
+        layer,
+        position: { x: num(10), y: num(20) },
+        height: num(40),
+        rotation: num(50),
+        text: decodeText(values.get(1) ?? ''),
+      };
+    case 'LWPOLYLINE': {
+      // Vertices repeat codes 10/20/42, so they are read in order.
+      const vertices: DxfPolylineVertex[] = [];
+      for (const { code, value } of pairs) {
+        if (code === 10) vertices.push({ x: toNumber(value), y: 0, bulge: 0 });
+        else if (code === 20 && vertices.length > 0) {
+          vertices[vertices.length - 1].y = toNumber(value);
+        } else if (code === 42 && vertices.length > 0) {
+          vertices[vertices.length - 1].bulge = toNumber(value);
+        }
+      }
+      return {
+        type,
+        layer,
+        vertices,
+        closed: (num(70) & 1) === 1,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Split the pairs of a section into items, each starting at a `0` pair.
+ */
+function splitItems(
+  pairs: GroupPair[],
+): { type: string; pairs: GroupPair[] }[] {
+  const items: { type: string; pairs: GroupPair[] }[] = [];
+  for (const pair of pairs) {
+    if (pair.code === 0) items.push({ type: pair.value, pairs: [] });
+    else items[items.length - 1]?.pairs.push(pair);
+  }
+  return items;
+}
+
+/** Return the pairs of each named section (between `SECTION` and `ENDSEC`). */
+function readSections(pairs: GroupPair[]): Map<string, GroupPair[]> {
+  const sections = new Map<string, GroupPair[]>();
+  let i = 0;
+  while (i < pairs.length) {
+    const pair = pairs[i];
+    if (
+      pair.code === 0 &&
+      pair.value === 'SECTION' &&
+      pairs[i + 1]?.code === 2
+    ) {
+      const name = pairs[i + 1].value;
+      const start = i + 2;
+      let end = start;
+      while (
+        end < pairs.length &&
+        !(pairs[end].code === 0 && pairs[end].value === 'ENDSEC')
+      ) {
+        end++;
+      }
+      sections.set(name, pairs.slice(start, end));
+      i = end + 1;
+    } else {
+      i++;
+    }
+  }
+  return sections;
+}
+
+// --- Public API ---
+
+/**
+ * Parse an ASCII DXF file.
+ *
+ * Reads `LINE`, `LWPOLYLINE`, `CIRCLE` and `TEXT` entities from the
+ * `ENTITIES` section, layer names from the `LAYER` table, and `$INSUNITS`
+ * from the header. Other entity types (and entities inside blocks) are
+ * ignored. Coordinates are returned as-is, in drawing units with the y axis
+ * pointing up.
+ *
+ * Throws if the file is a binary DXF or is not valid DXF.
+ */
+export function parseDxf(text: string): DxfDocument {
+  if (text.startsWith('AutoCAD Binary DXF')) {
+    throw new Error('Binary DXF files are not supported. Export as ASCII DXF.');
+  }
+
+  const sections = readSections(readPairs(text));
+  const entitySection = sections.get('ENTITIES');
+  if (!entitySection) {
+    throw new Error('Invalid DXF: no ENTITIES section found.');
+  }
+
+  const entities: DxfEntity[] = [];
+  for (const item of splitItems(entitySection)) {
+    const entity = parseEntity(item.type, item.pairs);
+    if (entity) entities.push(entity);
+  }
+
+  const layers = new Set<string>();
+  for (const item of splitItems(sections.get('TABLES') ?? [])) {
+    if (item.type !== 'LAYER') continue;
+    const name = item.pairs.find((p) => p.code === 2)?.value;
+    if (name) layers.add(name);
+  }
+  for (const entity of entities) layers.add(entity.layer);
+
+  let units: number | undefined;
+  const header = sections.get('HEADER') ?? [];
+  const unitsIndex = header.findIndex(
+    (p) => p.code === 9 && p.value === '$INSUNITS',
+  );
+  if (unitsIndex !== -1 && header[unitsIndex + 1]?.code === 70) {
+    units = Number.parseInt(header[unitsIndex + 1].value, 10);
+  }
+
+  return { entities, layers: [...layers], units };
+}
+
+/**
+ * Return the points of a polyline, with bulged segments approximated by
+ * straight segments. For closed polylines the closing segment's bulge is
+ * honoured but the first point is not repeated.
+ *
+ * @param maxAngle Maximum angle (radians) covered by one segment of an arc.
+ */
+export function getDxfPolylinePoints(
+  polyline: DxfPolyline,
+  maxAngle = Math.PI / 18,
+): Point2D[] {
+  const { vertices, closed } = polyline;
+  const points: Point2D[] = [];
+  const segmentCount = closed ? vertices.length : vertices.length - 1;
+
+  for (let i = 0; i < vertices.length; i++) {
+    const from = vertices[i];
+    points.push({ x: from.x, y: from.y });
+    if (i >= segmentCount || from.bulge === 0) continue;
+
+    const to = vertices[(i + 1) % vertices.length];
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const chord = Math.hypot(dx, dy);
+    if (chord === 0) continue;
+
+    // Signed sweep and radius; the centre lies on the chord's perpendicular.
+    const sweep = 4 * Math.atan(from.bulge);
+    const radius = chord / (2 * Math.sin(sweep / 2));
+    const offset = radius * Math.cos(sweep / 2);
+    const cx = (from.x + to.x) / 2 - (dy / chord) * offset;
+    const cy = (from.y + to.y) / 2 + (dx / chord) * offset;
+    const startAngle = Math.atan2(from.y - cy, from.x - cx);
+    const steps = Math.max(1, Math.ceil(Math.abs(sweep) / maxAngle));
+    const r = Math.abs(radius);
+
+    for (let s = 1; s < steps; s++) {
+      const angle = startAngle + (sweep * s) / steps;
+      points.push({ x: cx + r * Math.cos(angle), y: cy + r * Math.sin(angle) });
+    }
+  }
+  return points;
+}
+
+/**
+ * Compute the bounds of the given entities, or `null` if there are none.
+ * Text contributes only its insertion point.
+ */
+export function getDxfBounds(entities: DxfEntity[]): DxfBounds | null {
+  const bounds: DxfBounds = {
+    minX: Infinity,
+    minY: Infinity,
+    maxX: -Infinity,
+    maxY: -Infinity,
+  };
+  const include = (x: number, y: number) => {
+    bounds.minX = Math.min(bounds.minX, x);
+    bounds.minY = Math.min(bounds.minY, y);
+    bounds.maxX = Math.max(bounds.maxX, x);
+    bounds.maxY = Math.max(bounds.maxY, y);
+  };
+
+  for (const entity of entities) {
+    switch (entity.type) {
+      case 'LINE':
+        include(entity.start.x, entity.start.y);
+        include(entity.end.x, entity.end.y);
+        break;
+      case 'LWPOLYLINE':
+        for (const p of getDxfPolylinePoints(entity)) include(p.x, p.y);
+        break;
+      case 'CIRCLE':
+        include(
+          entity.center.x - entity.radius,
+          entity.center.y - entity.radius,
+        );
+        include(
+          entity.center.x + entity.radius,
+          entity.center.y + entity.radius,
+        );
+        break;
+      case 'TEXT':
+        include(entity.position.x, entity.position.y);
+        break;
+    }
+  }
+
+  return Number.isFinite(bounds.minX) ? bounds : null;
+}
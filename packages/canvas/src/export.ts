@@ -0,0 +1,359 @@
+import {
+  Canvas as FabricCanvas,
+  FabricImage,
+  config,
+  filters,
+  util,
+  type FabricObject,
+  type TBBox,
+} from 'fabric';
+import { prepareBorderRadii, prepareStrokeWidths } from './serialization';
+import { prepareLabelFontSizes } from './shapes/label';
+import { prepareIconScales } from './shapes/icon';
+
+/**
+ * Options for {@link exportCanvasSvg}.
+ */
+export interface ExportSvgOptions {
+  /** Include the background image. Default: `true`. */
+  includeBackground?: boolean;
+  /**
+   * Export the background image inverted. Default: `false`.
+   *
+   * Inversion follows the on-screen theme (see `setBackgroundInverted`) and
+   * is stripped by default so exported plans always look like the light
+   * theme. Contrast is always kept.
+   */
+  invertBackground?: boolean;
+  /**
+   * Embed the background image as a data URL so the SVG is self-contained.
+   * Falls back to the original URL if the image cannot be read (e.g. a
+   * cross-origin image without CORS headers). Default: `true`.
+   */
+  embedImages?: boolean;
+  /** If provided, only objects for which this returns `true` are exported. */
+  filter?: (obj: FabricObject) => boolean;
+  /** Padding around the exported content, in scene units. Default: `0`. */
+  padding?: number;
+  /**
+   * Value of the `width` attribute on the root `<svg>` element, in pixels.
+   * The height follows the content's aspect ratio.
+   * Default: the content width in scene units.
+   */
+  width?: number;
+}
+
+/** A rectangle in scene coordinates. */
+export interface ExportRegion {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Options for {@link exportCanvasImage}.
+ *
+ * The exported area is `region` if given, otherwise the bounding box of
+ * `objects`, otherwise the whole plan (background and all objects).
+ */
+export interface ExportImageOptions {
+  /** Area to export, in scene coordinates. Takes precedence over `objects`. */
+  region?: ExportRegion;
+  /**
+   * Frame the export around these objects. All objects inside the area are
+   * rendered, not just these — use `filter` to restrict what is drawn.
+   */
+  objects?: FabricObject[];
+  /** Padding around `objects` or the whole plan, in scene units. Default: `0`. */
+  padding?: number;
+  /**
+   * Output pixels per scene unit. Default: `1`.
+   *
+   * When {@link enableScaledStrokes} is active, strokes are drawn at their
+   * base width in output pixels, exactly as they appear on screen.
+   */
+  scale?: number;
+  /** Include the background image. Default: `true`. */
+  includeBackground?: boolean;
+  /**
+   * Background theme to render with:
+   * - `'current'`: as currently shown on screen.
+   * - `'light'`: without inversion.
+   * - `'dark'`: inverted, unless the canvas has `lockLightMode` set.
+   *
+   * Contrast is always kept. Default: `'current'`.
+   */
+  theme?: 'current' | 'light' | 'dark';
+  /** Fill colour behind the background image. Default: transparent. */
+  backgroundColor?: string;
+  /** If provided, only objects for which this returns `true` are rendered. */
+  filter?: (obj: FabricObject) => boolean;
+}
+
+// --- Export helpers ---
+
+/** Escape a value for use inside a double-quoted XML attribute. */
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function formatNumber(value: number): number {
+  return util.toFixed(value, config.NUM_FRACTION_DIGITS);
+}
+
+/**
+ * Temporarily add or remove the Invert filter on a background image without
+ * firing `background:modified`. Returns a function that restores the
+ * original filters.
+ */
+function prepareBackgroundInversion(
+  bg: FabricImage,
+  inverted: boolean,
+): () => void {
+  const original = bg.filters ?? [];
+  const hasInvert = original.some((f) => f instanceof filters.Invert);
+  if (hasInvert === inverted) return () => {};
+  bg.filters = inverted
+    ? [...original, new filters.Invert()]
+    : original.filter((f) => !(f instanceof filters.Invert));
+  bg.applyFilters();
+  return () => {
+    bg.filters = original;
+    bg.applyFilters();
+  };
+}
+
+/**
+ * Bounding box (in scene coordinates) of the given objects, independent of
+ * the viewport. Coordinates are computed fresh rather than read from the
+ * cached `aCoords`, which may be stale while stroke widths are prepared.
+ */
+function getSceneBounds(objects: FabricObject[]): TBBox | null {
+  const points = objects.flatMap((obj) => Object.values(obj.calcACoords()));
+  if (points.length === 0) return null;
+  return util.makeBoundingBoxFromPoints(points);
+}
+
+/** Resolve {@link ExportImageOptions.theme} to an inversion state. */
+function resolveInversion(
+  canvas: FabricCanvas,
+  theme: ExportImageOptions['theme'],
+): boolean | undefined {
+  if (theme === 'light') return false;
+  if (theme === 'dark') return !canvas.lockLightMode;
+  return undefined;
+}
+
+/**
+ * Return a data URL for the (filtered) image element, or `null` if the
+ * element cannot be read back.
+ */
+function getImageDataUrl(image: FabricImage): string | null {
+  const src = image.getSrc(true);
+  if (src.startsWith('data:')) return src;
+  const element = image.getElement();
+  const { width, height } = image.getOriginalSize();
+  const el = util.createCanvasElement();
+  el.width = width;
+  el.height = height;
+  try {
+    el.getContext('2d')?.drawImage(element, 0, 0);
+    return el.toDataURL();
+  } catch {
+    // Tainted canvas — keep the original URL.
+    return null;
+  }
+}
+
+function getBackgroundSvg(bg: FabricImage, embed: boolean): string {
+  const markup = bg.toSVG();
+  if (!embed) return markup;
+  const dataUrl = getImageDataUrl(bg);
+  if (!dataUrl) return markup;
+  return markup.replace(
+    /xlink:href="[^"]*"/,
+    `xlink:href="${escapeAttribute(dataUrl)}"`,
+  );
+}
+
+/**
+ * Export markup for a single object, with `data-type` / `data-id` attributes
+ * from `obj.data` added to its outermost element.
+ */
+function getObjectSvg(obj: FabricObject): string {
+  const markup = obj.toSVG();
+  const attributes: string[] = [];
+  if (obj.data?.type) {
+    attributes.push(`data-type="${escapeAttribute(String(obj.data.type))}"`);
+  }
+  if (obj.data?.id) {
+    attributes.push(`data-id="${escapeAttribute(String(obj.data.id))}"`);
+  }
+  if (attributes.length === 0) return markup;
+  return markup.replace(/^(\s*<\w+)/, `$1 ${attributes.join(' ')}`);
+}
+
+// --- Public export API ---
+
+/**
+ * Export the background and objects as a standalone SVG document.
+ *
+ * The export is independent of the current viewport: the `viewBox` covers
+ * the background image and all exported objects in scene coordinates.
+ * Objects are written with their base stroke widths (see
+ * {@link getBaseStrokeWidth}) and original corner radii rather than the
+ * zoom-scaled values used on screen, and each object's outermost element
+ * carries `data-type` / `data-id` attributes from `obj.data`.
+ *
+ * Runtime state is mutated only for the duration of the call and restored
+ * before returning; nothing is re-rendered.
+ */
+export function exportCanvasSvg(
+  canvas: FabricCanvas,
+  options?: ExportSvgOptions,
+): string {
+  const bg =
+    options?.includeBackground !== false &&
+    canvas.backgroundImage instanceof FabricImage
+      ? canvas.backgroundImage
+      : null;
+  const objects = canvas
+    .getObjects()
+    .filter(
+      (obj) => !obj.excludeFromExport && (options?.filter?.(obj) ?? true),
+    );
+
+  const restoreStrokeWidths = prepareStrokeWidths(canvas);
+  const restoreBorderRadii = prepareBorderRadii(canvas);
+  const restoreLabelSizes = prepareLabelFontSizes(canvas);
+  const restoreIconScales = prepareIconScales(canvas);
+  const restoreInversion = bg
+    ? prepareBackgroundInversion(bg, options?.invertBackground ?? false)
+    : () => {};
+
+  try {
+    const padding = options?.padding ?? 0;
+    const bounds = getSceneBounds(bg ? [bg, ...objects] : objects) ?? {
+      left: 0,
+      top: 0,
+      width: canvas.width,
+      height: canvas.height,
+    };
+    const x = formatNumber(bounds.left - padding);
+    const y = formatNumber(bounds.top - padding);
+    const viewWidth = formatNumber(bounds.width + padding * 2);
+    const viewHeight = formatNumber(bounds.height + padding * 2);
+    const width = formatNumber(options?.width ?? viewWidth);
+    const height = formatNumber(
+      viewWidth > 0 ? (width * viewHeight) / viewWidth : viewHeight,
+    );
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8" standalone="no" ?>\n',
+      '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" version="1.1" ',
+      `width="${width}" height="${height}" viewBox="${x} ${y} ${viewWidth} ${viewHeight}" xml:space="preserve">\n`,
+      '<defs>\n',
+      canvas.createSVGFontFacesMarkup(),
+      '</defs>\n',
+      bg ? getBackgroundSvg(bg, options?.embedImages !== false) : '',
+      ...objects.map(getObjectSvg),
+      '</svg>',
+    ].join('');
+  } finally {
+    restoreStrokeWidths();
+    restoreBorderRadii();
+    restoreLabelSizes();
+    restoreIconScales();
+    restoreInversion();
+  }
+}
+
+/**
+ * Render a region of the scene to a PNG blob at a chosen pixel density.
+ *
+ * Rendering is independent of the current viewport: the scene is drawn with
+ * an identity transform scaled by `scale`, so the output is the same
+ * whatever the user's zoom or pan. The on-screen viewport is restored before
+ * this function returns; a re-render is requested so zoom-dependent state
+ * (scaled strokes, overlays) is recomputed for the visible canvas.
+ *
+ * Throws if the area to export is empty, and rejects if the browser fails
+ * to encode the image.
+ */
+export async function exportCanvasImage(
+  canvas: FabricCanvas,
+  options?: ExportImageOptions,
+): Promise<Blob> {
+  const scale = options?.scale ?? 1;
+  const padding = options?.padding ?? 0;
+  const includeBackground = options?.includeBackground !== false;
+  const bg =
+    canvas.backgroundImage instanceof FabricImage
+      ? canvas.backgroundImage
+      : null;
+  const isExported = (obj: FabricObject) =>
+    !obj.excludeFromExport && (options?.filter?.(obj) ?? true);
+
+  let region = options?.region;
+  if (!region) {
+    const framed = options?.objects ?? [
+      ...(includeBackground && bg ? [bg] : []),
+      ...canvas.getObjects().filter(isExported),
+    ];
+    const bounds = getSceneBounds(framed);
+    if (bounds) {
+      region = {
+        left: bounds.left - padding,
+        top: bounds.top - padding,
+        width: bounds.width + padding * 2,
+        height: bounds.height + padding * 2,
+      };
+    }
+  }
+  if (!region || region.width <= 0 || region.height <= 0) {
+    throw new Error('Nothing to export: the export region is empty.');
+  }
+
+  const inverted = resolveInversion(canvas, options?.theme);
+  const restoreInversion =
+    bg && includeBackground && inverted !== undefined
+      ? prepareBackgroundInversion(bg, inverted)
+      : () => {};
+  const savedVpt = canvas.viewportTransform;
+  const savedBackgroundImage = canvas.backgroundImage;
+  const savedBackgroundColor = canvas.backgroundColor;
+
+  let pending: Promise<Blob | null>;
+  try {
+    canvas.viewportTransform = [1, 0, 0, 1, 0, 0];
+    if (!includeBackground) canvas.backgroundImage = undefined;
+    canvas.backgroundColor = options?.backgroundColor ?? '';
+    // toBlob renders synchronously and only encodes asynchronously, so the
+    // runtime state can be restored before awaiting.
+    pending = canvas.toBlob({
+      format: 'png',
+      multiplier: scale,
+      left: region.left,
+      top: region.top,
+      width: region.width,
+      height: region.height,
+      filter: (obj) => isExported(obj as FabricObject),
+    });
+  } finally {
+    canvas.viewportTransform = savedVpt;
+    canvas.backgroundImage = savedBackgroundImage;
+    canvas.backgroundColor = savedBackgroundColor;
+    canvas.calcViewportBoundaries();
+    restoreInversion();
+    canvas.requestRenderAll();
+  }
+
+  const blob = await pending;
+  if (!blob) throw new Error('Failed to encode the canvas as PNG.');
+  return blob;
+}
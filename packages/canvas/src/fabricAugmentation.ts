@@ -1,27 +1,55 @@
 import 'fabric';
+import type { CanvasLayer } from './layers';
+import type { CanvasScale } from './scale';
 
-export type ShapeType = 'circle';
+export type ShapeType =
+  | 'circle'
+  | 'line'
+  | 'polyline'
+  | 'label'
+  | 'icon'
+  | 'group';
+
+/** All valid `data.type` values, for runtime checks. */
+export const OBJECT_DATA_TYPES = [
+  'PLACE',
+  'DEVICE',
+  'DESK',
+  'PARKING_SPACE',
+  'FACILITY',
+] as const;
 
 /** Valid `data.type` values for canvas objects. */
-export type ObjectDataType =
-  | 'PLACE'
-  | 'DEVICE'
-  | 'DESK'
-  | 'PARKING_SPACE'
-  | 'FACILITY';
+export type ObjectDataType = (typeof OBJECT_DATA_TYPES)[number];
 
 declare module 'fabric' {
   interface FabricObject {
     shapeType?: ShapeType;
+    /** Scene-space stroke thickness of lines and polylines (see `createPolyline`). */
+    thickness?: number;
+    /** Icon color: a theme palette key or CSS color (see `createIcon`). */
+    tint?: string;
+    /** Whether an icon keeps its on-screen size at any zoom level (see `createIcon`). */
+    fixedSize?: boolean;
+    /** Per-edge arc bulges of polygons, lines and polylines (see `createPolygon`). */
+    bulges?: number[];
     data?: {
       type: ObjectDataType;
       id: string;
+      /** `data.id` of the object this one belongs to (see `setParentObject`). */
+      parentId?: string;
+      /** `id` of the layer this object is on, overriding its type's layer (see `setObjectLayer`). */
+      layerId?: string;
     };
   }
   interface Canvas {
     lockLightMode?: boolean;
+    realWorldScale?: CanvasScale;
+    layers?: CanvasLayer[];
   }
   interface CanvasEvents {
     'background:modified': object;
+    'scale:modified': object;
+    'layers:modified': object;
   }
 }
@@ -0,0 +1,41 @@
+import { Canvas as FabricCanvas } from 'fabric';
+
+// Focus handling shared by the keymap and the clipboard; not part of the
+// public package API.
+
+/** Whether an event comes from a text input or editable element. */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  );
+}
+
+/**
+ * Make the canvas wrapper focusable (unless it already is) and focus it on
+ * pointer down, so key and clipboard events reach it. Returns a function
+ * that undoes both.
+ */
+export function makeCanvasFocusable(canvas: FabricCanvas): () => void {
+  const wrapper = canvas.wrapperEl;
+  let madeFocusable = false;
+  const focusWrapper = () => wrapper.focus({ preventScroll: true });
+
+  if (!wrapper.hasAttribute('tabindex')) {
+    wrapper.tabIndex = 0;
+    wrapper.style.outline = 'none';
+    madeFocusable = true;
+  }
+  canvas.on('mouse:down', focusWrapper);
+
+  return () => {
+    canvas.off('mouse:down', focusWrapper);
+    if (madeFocusable) {
+      wrapper.removeAttribute('tabindex');
+      wrapper.style.outline = '';
+    }
+  };
+}
@@ -0,0 +1,298 @@
+import {
+  Canvas as FabricCanvas,
+  Point,
+  Polygon,
+  Rect,
+  util,
+  type FabricObject,
+  type TMat2D,
+} from 'fabric';
+import { createCircleAtPoint } from './shapes/circle';
+import { createPolygonFromVertices } from './shapes/polygon';
+import { getPolygonOutline } from './shapes/curves';
+import { getStrokeFreeCoords } from './alignment/objectAlignmentUtils';
+import { forEachNestedObject } from './groups';
+import type { Point2D, ShapeStyleOptions } from './types';
+
+// --- GeoJSON types (the subset produced and consumed by this module) ---
+
+/** A GeoJSON position: `[x, y]` in building coordinates. */
+export type GeoJSONPosition = [number, number];
+
+export interface GeoJSONPolygon {
+  type: 'Polygon';
+  /** Linear rings; the first is the exterior, any others are holes. */
+  coordinates: GeoJSONPosition[][];
+}
+
+export interface GeoJSONPoint {
+  type: 'Point';
+  coordinates: GeoJSONPosition;
+}
+
+export interface GeoJSONFeature {
+  type: 'Feature';
+  id?: string | number;
+  /** Other geometry types may appear in imported data; they are skipped. */
+  geometry: GeoJSONPolygon | GeoJSONPoint | { type: string } | null;
+  properties: Record<string, unknown> | null;
+}
+
+export interface GeoJSONFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJSONFeature[];
+}
+
+/**
+ * Affine transform from scene coordinates to building coordinates, as a
+ * Fabric-style matrix `[a, b, c, d, e, f]`:
+ *
+ * ```
+ * x' = a * x + c * y + e
+ * y' = b * x + d * y + f
+ * ```
+ *
+ * Import applies the inverse.
+ */
+export type GeoJSONTransform = TMat2D;
+
+export interface GeoJSONExportOptions {
+  /** Scene → building transform. Default: identity. */
+  transform?: GeoJSONTransform;
+  /** If provided, only objects for which this returns `true` are exported. */
+  filter?: (obj: FabricObject) => boolean;
+}
+
+export interface GeoJSONImportOptions {
+  /** Scene → building transform the data was exported with. Default: identity. */
+  transform?: GeoJSONTransform;
+  /** Style applied to created polygons. */
+  polygonStyle?: Omit<ShapeStyleOptions, 'data'>;
+  /** Style applied to created circles. */
+  circleStyle?: Omit<ShapeStyleOptions, 'data'>;
+  /**
+   * Map a feature's properties to the created object's `data`.
+   * Default: all properties except `radius`, or no data if there are none.
+   */
+  getData?: (feature: GeoJSONFeature) => ShapeStyleOptions['data'];
+  /** Called for each feature that cannot be converted (unsupported or invalid geometry). */
+  onSkipped?: (feature: GeoJSONFeature, index: number) => void;
+}
+
+const IDENTITY: GeoJSONTransform = [1, 0, 0, 1, 0, 0];
+
+/** Property holding a circle's radius (in building units) on Point features. */
+const RADIUS_PROPERTY = 'radius';
+
+// --- Geometry helpers ---
+
+function toPosition(point: Point2D, transform: GeoJSONTransform) {
+  const p = util.transformPoint(new Point(point.x, point.y), transform);
+  return [p.x, p.y] as GeoJSONPosition;
+}
+
+/** Uniform scale factor of an affine transform (for converting lengths). */
+function getLengthScale(transform: GeoJSONTransform): number {
+  const [a, b, c, d] = transform;
+  return Math.sqrt(Math.abs(a * d - b * c));
+}
+
+/** Twice the signed area of a ring; positive when counterclockwise (y up). */
+function getSignedArea(ring: GeoJSONPosition[]): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const [x1, y1] = ring[i];
+    const [x2, y2] = ring[(i + 1) % ring.length];
+    sum += x1 * y2 - x2 * y1;
+  }
+  return sum;
+}
+
+/**
+ * Build a closed, counterclockwise exterior ring as required by RFC 7946.
+ */
+function toExteriorRing(
+  points: Point2D[],
+  transform: GeoJSONTransform,
+): GeoJSONPosition[] {
+  const ring = points.map((p) => toPosition(p, transform));
+  if (getSignedArea(ring) < 0) ring.reverse();
+  ring.push([...ring[0]]);
+  return ring;
+}
+
+function getFeatureProperties(obj: FabricObject): Record<string, unknown> {
+  return obj.data ? { ...(obj.data as Record<string, unknown>) } : {};
+}
+
+function objectToFeature(
+  obj: FabricObject,
+  transform: GeoJSONTransform,
+): GeoJSONFeature | null {
+  const properties = getFeatureProperties(obj);
+  const id = obj.data?.id;
+
+  if (obj.shapeType === 'circle') {
+    // Scene scale, which includes that of an enclosing group.
+    const { scaleX } = util.qrDecompose(obj.calcTransformMatrix());
+    const radius = (obj.width * scaleX) / 2;
+    return {
+      type: 'Feature',
+      ...(id !== undefined && { id }),
+      geometry: {
+        type: 'Point',
+        coordinates: toPosition(obj.getCenterPoint(), transform),
+      },
+      properties: {
+        ...properties,
+        [RADIUS_PROPERTY]: radius * getLengthScale(transform),
+      },
+    };
+  }
+
+  let points: Point2D[];
+  if (obj instanceof Polygon) {
+    points = getPolygonOutline(obj);
+  } else if (obj instanceof Rect) {
+    points = getStrokeFreeCoords(obj);
+  } else {
+    return null;
+  }
+  if (points.length < 3) return null;
+
+  return {
+    type: 'Feature',
+    ...(id !== undefined && { id }),
+    geometry: {
+      type: 'Polygon',
+      coordinates: [toExteriorRing(points, transform)],
+    },
+    properties,
+  };
+}
+
+function isPosition(value: unknown): value is GeoJSONPosition {
+  return (
+    Array.isArray(value) &&
+    value.length >= 2 &&
+    Number.isFinite(value[0]) &&
+    Number.isFinite(value[1])
+  );
+}
+
+function defaultGetData(
+  feature: GeoJSONFeature,
+): ShapeStyleOptions['data'] | undefined {
+  const { [RADIUS_PROPERTY]: _radius, ...rest } = feature.properties ?? {};
+  if (Object.keys(rest).length === 0) return undefined;
+  return rest as ShapeStyleOptions['data'];
+}
+
+// --- Public API ---
+
+/**
+ * Convert the canvas objects to a GeoJSON FeatureCollection.
+ *
+ * - Polygons and rectangles become `Polygon` features (a single closed,
+ *   counterclockwise exterior ring; rectangles use their stroke-free corners).
+ * - Circles become `Point` features at their centre with a `radius`
+ *   property in building units.
+ * - `obj.data` is copied into the feature's `properties`, and `data.id`
+ *   becomes the feature `id`.
+ * - Members of groups (see `groupObjects`) are exported like top-level
+ *   objects, at their place in the scene; `options.filter` sees them too.
+ *
+ * Other object types are skipped. Coordinates are mapped from scene space to
+ * building space with `options.transform`.
+ */
+export function exportGeoJSON(
+  canvas: FabricCanvas,
+  options?: GeoJSONExportOptions,
+): GeoJSONFeatureCollection {
+  const transform = options?.transform ?? IDENTITY;
+  const features: GeoJSONFeature[] = [];
+  forEachNestedObject(canvas.getObjects(), (obj) => {
+    if (obj.excludeFromExport) return;
+    if (options?.filter && !options.filter(obj)) return;
+    const feature = objectToFeature(obj, transform);
+    if (feature) features.push(feature);
+  });
+  return { type: 'FeatureCollection', features };
+}
+
+/**
+ * Create canvas objects from a GeoJSON FeatureCollection and add them to the
+ * canvas. The inverse of {@link exportGeoJSON}:
+ *
+ * - `Polygon` features become polygons from their exterior ring (holes are
+ *   ignored).
+ * - `Point` features with a positive `radius` property become circles.
+ * - Feature `properties` become the object's `data` (see `options.getData`).
+ *
+ * Other geometry types are skipped and reported via `options.onSkipped`.
+ * Returns the created objects in feature order.
+ */
+export function importGeoJSON(
+  canvas: FabricCanvas,
+  collection: GeoJSONFeatureCollection,
+  options?: GeoJSONImportOptions,
+): FabricObject[] {
+  const inverse = util.invertTransform(options?.transform ?? IDENTITY);
+  const lengthScale = getLengthScale(inverse);
+  const getData = options?.getData ?? defaultGetData;
+  const toScene = ([x, y]: GeoJSONPosition): Point2D =>
+    util.transformPoint(new Point(x, y), inverse);
+
+  const created: FabricObject[] = [];
+  collection.features.forEach((feature, index) => {
+    const geometry = feature.geometry;
+    const data = getData(feature);
+
+    if (geometry?.type === 'Polygon') {
+      const ring = (geometry as GeoJSONPolygon).coordinates?.[0];
+      if (Array.isArray(ring) && ring.every(isPosition)) {
+        const positions = [...ring];
+        const [first] = positions;
+        const last = positions[positions.length - 1];
+        if (
+          positions.length > 1 &&
+          first[0] === last[0] &&
+          first[1] === last[1]
+        ) {
+          positions.pop();
+        }
+        if (positions.length >= 3) {
+          created.push(
+            createPolygonFromVertices(canvas, positions.map(toScene), {
+              ...options?.polygonStyle,
+              ...(data && { data }),
+            }),
+          );
+          return;
+        }
+      }
+    } else if (geometry?.type === 'Point') {
+      const position = (geometry as GeoJSONPoint).coordinates;
+      const radius = feature.properties?.[RADIUS_PROPERTY];
+      if (
+        isPosition(position) &&
+        typeof radius === 'number' &&
+        Number.isFinite(radius) &&
+        radius > 0
+      ) {
+        created.push(
+          createCircleAtPoint(canvas, toScene(position), {
+            ...options?.circleStyle,
+            size: radius * 2 * lengthScale,
+            ...(data && { data }),
+          }),
+        );
+        return;
+      }
+    }
+
+    options?.onSkipped?.(feature, index);
+  });
+
+  return created;
+}
@@ -0,0 +1,755 @@
+import { Canvas as FabricCanvas, FabricObject, Polygon } from 'fabric';
+import type { Point2D, ShapeStyleOptions } from './types';
+import { getShapeOutline, isPointInOutline } from './scale';
+import { getBaseStrokeWidth } from './serialization';
+import { buildPolygonFromVertices } from './shapes/polygon';
+
+/** The operations performed by the functions in this module. */
+export type PolygonOperation = 'union' | 'subtract' | 'intersect' | 'split';
+
+/** Passed to {@link PolygonOperationOptions.mergeData} with each result. */
+export interface PolygonOperationContext {
+  operation: PolygonOperation;
+  /** Position of this result among the operation's results. */
+  index: number;
+  /** Number of results the operation produced. */
+  count: number;
+}
+
+export interface PolygonOperationOptions {
+  /**
+   * Style of the resulting polygons. Default: the fill, stroke and stroke
+   * width of the first source object.
+   */
+  style?: Omit<ShapeStyleOptions, 'data'>;
+  /**
+   * Decide the `data` of each resulting polygon from the objects it was made
+   * from: the merged objects for a union, every operand for an intersection,
+   * and the cut or split object for a subtraction or split.
+   *
+   * Default: each result keeps a copy of its first source's `data`; results
+   * that would repeat an id already given to another result get a new id
+   * from `crypto.randomUUID()`.
+   */
+  mergeData?: (
+    sources: FabricObject[],
+    context: PolygonOperationContext,
+  ) => FabricObject['data'];
+  /**
+   * Leave the source objects on the canvas. Default: `false` — the sources
+   * (the cut or split object for a subtraction or split, all operands
+   * otherwise) are replaced by the results.
+   */
+  keepSources?: boolean;
+}
+
+type Ring = Point2D[];
+
+/** A directed edge between two vertices of a {@link VertexPool}. */
+interface Edge {
+  from: number;
+  to: number;
+}
+
+/** An input edge, with the parameters (0–1) at which it is to be split. */
+interface Segment {
+  a: Point2D;
+  b: Point2D;
+  splits: number[];
+}
+
+/** Tolerance relative to the size of the shapes. */
+const RELATIVE_TOLERANCE = 1e-7;
+
+// --- Ring helpers ---
+
+function getSignedArea(ring: Ring): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const p = ring[i];
+    const q = ring[(i + 1) % ring.length];
+    sum += p.x * q.y - q.x * p.y;
+  }
+  return sum / 2;
+}
+
+/** Even-odd point-in-region test over all rings of a region. */
+function isInsideRings(point: Point2D, rings: Ring[]): boolean {
+  return rings.reduce(
+    (inside, ring) => inside !== isPointInOutline(point, ring),
+    false,
+  );
+}
+
+function getDistanceToSegment(p: Point2D, a: Point2D, b: Point2D): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t =
+    lengthSq === 0
+      ? 0
+      : Math.max(
+          0,
+          Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq),
+        );
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+function isInsideOrOnRing(point: Point2D, ring: Ring, tolerance: number) {
+  return (
+    isInsideRings(point, [ring]) ||
+    ring.some(
+      (a, i) =>
+        getDistanceToSegment(point, a, ring[(i + 1) % ring.length]) <=
+        tolerance,
+    )
+  );
+}
+
+/** Remove vertices that lie on the straight line between their neighbours. */
+function simplifyRing(ring: Ring, tolerance: number): Ring {
+  const result = [...ring];
+  for (let i = 0; i < result.length && result.length > 2; ) {
+    const prev = result[(i - 1 + result.length) % result.length];
+    const p = result[i];
+    const next = result[(i + 1) % result.length];
+    const onLine = getDistanceToSegment(p, prev, next) <= tolerance;
+    const passesThrough =
+      (p.x - prev.x) * (next.x - p.x) + (p.y - prev.y) * (next.y - p.y) >= 0;
+    if (onLine && passesThrough) {
+      result.splice(i, 1);
+      i = Math.max(0, i - 1);
+    } else {
+      i++;
+    }
+  }
+  return result;
+}
+
+/** Scale-aware tolerance for merging points and ignoring slivers. */
+function getTolerance(rings: Ring[]): number {
+  const points = rings.flat();
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const extent = Math.max(
+    Math.max(...xs) - Math.min(...xs),
+    Math.max(...ys) - Math.min(...ys),
+    1,
+  );
+  return extent * RELATIVE_TOLERANCE;
+}
+
+// --- Edge splitting ---
+
+/**
+ * Merges points closer than the tolerance, so that the same crossing
+ * computed from either of its edges gets the same vertex.
+ */
+class VertexPool {
+  readonly points: Point2D[] = [];
+  private readonly cells = new Map<string, number[]>();
+  private readonly tolerance: number;
+
+  constructor(tolerance: number) {
+    this.tolerance = tolerance;
+  }
+
+  add(point: Point2D): number {
+    const cx = Math.floor(point.x / this.tolerance);
+    const cy = Math.floor(point.y / this.tolerance);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (const id of this.cells.get(`${cx + dx},${cy + dy}`) ?? []) {
+          const existing = this.points[id];
+          if (
+            Math.hypot(existing.x - point.x, existing.y - point.y) <=
+            this.tolerance
+          ) {
+            return id;
+          }
+        }
+      }
+    }
+    const id = this.points.length;
+    this.points.push({ x: point.x, y: point.y });
+    const key = `${cx},${cy}`;
+    const cell = this.cells.get(key);
+    if (cell) cell.push(id);
+    else this.cells.set(key, [id]);
+    return id;
+  }
+}
+
+function toSegments(rings: Ring[], closed = true): Segment[] {
+  return rings.flatMap((ring) =>
+    ring
+      .slice(0, closed ? ring.length : ring.length - 1)
+      .map((a, i) => ({ a, b: ring[(i + 1) % ring.length], splits: [] })),
+  );
+}
+
+/**
+ * The parameter along `segment` of `point` if it lies on the segment's
+ * interior (within the tolerance), or `null`.
+ */
+function getSplitParameter(
+  point: Point2D,
+  segment: Segment,
+  tolerance: number,
+): number | null {
+  const { a, b } = segment;
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return null;
+  const t = ((point.x - a.x) * dx + (point.y - a.y) * dy) / (length * length);
+  if (t * length <= tolerance || (1 - t) * length <= tolerance) return null;
+  const distance = Math.abs((point.x - a.x) * dy - (point.y - a.y) * dx);
+  return distance / length <= tolerance ? t : null;
+}
+
+/** Record where `s` and `o` cross, touch or overlap, on both segments. */
+function addCrossing(s: Segment, o: Segment, tolerance: number): void {
+  for (const point of [o.a, o.b]) {
+    const t = getSplitParameter(point, s, tolerance);
+    if (t !== null) s.splits.push(t);
+  }
+  for (const point of [s.a, s.b]) {
+    const u = getSplitParameter(point, o, tolerance);
+    if (u !== null) o.splits.push(u);
+  }
+
+  const rx = s.b.x - s.a.x;
+  const ry = s.b.y - s.a.y;
+  const qx = o.b.x - o.a.x;
+  const qy = o.b.y - o.a.y;
+  const denominator = rx * qy - ry * qx;
+  if (denominator === 0) return;
+  const px = o.a.x - s.a.x;
+  const py = o.a.y - s.a.y;
+  const t = (px * qy - py * qx) / denominator;
+  const u = (px * ry - py * rx) / denominator;
+  const sLength = Math.hypot(rx, ry);
+  const oLength = Math.hypot(qx, qy);
+  if (
+    t * sLength > tolerance &&
+    (1 - t) * sLength > tolerance &&
+    u * oLength > tolerance &&
+    (1 - u) * oLength > tolerance
+  ) {
+    s.splits.push(t);
+    o.splits.push(u);
+  }
+}
+
+function splitAtCrossings(
+  first: Segment[],
+  second: Segment[],
+  tolerance: number,
+): void {
+  for (const s of first) {
+    for (const o of second) {
+      if (
+        Math.max(o.a.x, o.b.x) < Math.min(s.a.x, s.b.x) - tolerance ||
+        Math.min(o.a.x, o.b.x) > Math.max(s.a.x, s.b.x) + tolerance ||
+        Math.max(o.a.y, o.b.y) < Math.min(s.a.y, s.b.y) - tolerance ||
+        Math.min(o.a.y, o.b.y) > Math.max(s.a.y, s.b.y) + tolerance
+      ) {
+        continue;
+      }
+      addCrossing(s, o, tolerance);
+    }
+  }
+}
+
+/** Split segments at their recorded parameters into pooled edges. */
+function toEdges(segments: Segment[], pool: VertexPool): Edge[] {
+  const edges: Edge[] = [];
+  for (const { a, b, splits } of segments) {
+    const ids = [0, ...splits.sort((x, y) => x - y), 1].map((t) =>
+      pool.add({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t }),
+    );
+    for (let i = 0; i < ids.length - 1; i++) {
+      if (ids[i] !== ids[i + 1]) edges.push({ from: ids[i], to: ids[i + 1] });
+    }
+  }
+  return edges;
+}
+
+const edgeKey = (from: number, to: number) => `${from}>${to}`;
+
+/**
+ * Drop pairs of opposite edges within one region — the cuts that join holes
+ * to the outline of polygons made by earlier operations.
+ */
+function removeCuts(edges: Edge[]): Edge[] {
+  const keys = new Set(edges.map((e) => edgeKey(e.from, e.to)));
+  return edges.filter((e) => !keys.has(edgeKey(e.to, e.from)));
+}
+
+function getEdgeMidpoint(edge: Edge, points: Point2D[]): Point2D {
+  const a = points[edge.from];
+  const b = points[edge.to];
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+// --- Ring tracing ---
+
+/**
+ * Of the unused edges leaving the end of `edge`, the one turning furthest
+ * towards the inside (left, for positive rings). Never turns straight back.
+ */
+function getNextEdge(
+  edge: Edge,
+  candidates: Edge[],
+  used: Set<Edge>,
+  points: Point2D[],
+): Edge | undefined {
+  const from = points[edge.from];
+  const at = points[edge.to];
+  const inX = at.x - from.x;
+  const inY = at.y - from.y;
+  let best: Edge | undefined;
+  let bestAngle = -Infinity;
+  for (const candidate of candidates) {
+    if (used.has(candidate) || candidate.to === edge.from) continue;
+    const to = points[candidate.to];
+    const outX = to.x - at.x;
+    const outY = to.y - at.y;
+    const angle = Math.atan2(inX * outY - inY * outX, inX * outX + inY * outY);
+    if (angle > bestAngle) {
+      best = candidate;
+      bestAngle = angle;
+    }
+  }
+  return best;
+}
+
+/** Join directed edges into closed rings. */
+function traceRings(
+  edges: Edge[],
+  points: Point2D[],
+  tolerance: number,
+): Ring[] {
+  const outgoing = new Map<number, Edge[]>();
+  for (const edge of edges) {
+    const list = outgoing.get(edge.from);
+    if (list) list.push(edge);
+    else outgoing.set(edge.from, [edge]);
+  }
+
+  const used = new Set<Edge>();
+  const rings: Ring[] = [];
+  for (const start of edges) {
+    if (used.has(start)) continue;
+    used.add(start);
+    const ids = [start.from];
+    let edge: Edge | undefined = start;
+    while (edge && edge.to !== start.from) {
+      ids.push(edge.to);
+      edge = getNextEdge(edge, outgoing.get(edge.to) ?? [], used, points);
+      if (edge) used.add(edge);
+    }
+    // An unclosed chain can only come from rounding; drop it.
+    if (!edge) continue;
+
+    const ring = simplifyRing(
+      ids.map((id) => points[id]),
+      tolerance,
+    );
+    if (ring.length >= 3 && Math.abs(getSignedArea(ring)) > tolerance) {
+      rings.push(ring);
+    }
+  }
+  return rings;
+}
+
+// --- Operations on regions ---
+// A region is a list of rings with the inside on the left of every edge:
+// outlines have a positive signed area, holes a negative one.
+
+function overlay(
+  subject: Ring[],
+  clip: Ring[],
+  operation: Exclude<PolygonOperation, 'split'>,
+  tolerance: number,
+): Ring[] {
+  const subjectSegments = toSegments(subject);
+  const clipSegments = toSegments(clip);
+  splitAtCrossings(subjectSegments, clipSegments, tolerance);
+
+  const pool = new VertexPool(tolerance);
+  const subjectEdges = removeCuts(toEdges(subjectSegments, pool));
+  const clipEdges = removeCuts(toEdges(clipSegments, pool));
+  const subjectKeys = new Set(subjectEdges.map((e) => edgeKey(e.from, e.to)));
+  const clipKeys = new Set(clipEdges.map((e) => edgeKey(e.from, e.to)));
+
+  const selected: Edge[] = [];
+  for (const edge of subjectEdges) {
+    // Edges shared by both regions: kept once, if the insides agree.
+    if (clipKeys.has(edgeKey(edge.from, edge.to))) {
+      if (operation !== 'subtract') selected.push(edge);
+    } else if (clipKeys.has(edgeKey(edge.to, edge.from))) {
+      if (operation === 'subtract') selected.push(edge);
+    } else {
+      const inside = isInsideRings(getEdgeMidpoint(edge, pool.points), clip);
+      if (inside === (operation === 'intersect')) selected.push(edge);
+    }
+  }
+  for (const edge of clipEdges) {
+    if (
+      subjectKeys.has(edgeKey(edge.from, edge.to)) ||
+      subjectKeys.has(edgeKey(edge.to, edge.from))
+    ) {
+      continue;
+    }
+    const inside = isInsideRings(getEdgeMidpoint(edge, pool.points), subject);
+    if (operation === 'union' && !inside) selected.push(edge);
+    if (operation === 'intersect' && inside) selected.push(edge);
+    if (operation === 'subtract' && inside) {
+      selected.push({ from: edge.to, to: edge.from });
+    }
+  }
+
+  return traceRings(selected, pool.points, tolerance);
+}
+
+/**
+ * Cut a region into pieces along an open line. Returns the pieces' outlines
+ * and any holes not touched by the line.
+ */
+function splitRegion(rings: Ring[], line: Point2D[], tolerance: number) {
+  const ringSegments = toSegments(rings);
+  const lineSegments = toSegments([line], false);
+  splitAtCrossings(ringSegments, lineSegments, tolerance);
+
+  const pool = new VertexPool(tolerance);
+  const boundary = removeCuts(toEdges(ringSegments, pool));
+  const boundaryKeys = new Set(
+    boundary.flatMap((e) => [edgeKey(e.from, e.to), edgeKey(e.to, e.from)]),
+  );
+
+  // Parts of the line inside the region, without repeats.
+  const cutKeys = new Set<string>();
+  let cuts = toEdges(lineSegments, pool).filter((edge) => {
+    const key = edgeKey(
+      Math.min(edge.from, edge.to),
+      Math.max(edge.from, edge.to),
+    );
+    if (boundaryKeys.has(key) || cutKeys.has(key)) return false;
+    cutKeys.add(key);
+    return isInsideRings(getEdgeMidpoint(edge, pool.points), rings);
+  });
+
+  // Drop line ends that stop inside the region without reaching an edge.
+  for (;;) {
+    const degree = new Map<number, number>();
+    for (const { from, to } of [...boundary, ...cuts]) {
+      degree.set(from, (degree.get(from) ?? 0) + 1);
+      degree.set(to, (degree.get(to) ?? 0) + 1);
+    }
+    const kept = cuts.filter(
+      (e) => degree.get(e.from)! > 1 && degree.get(e.to)! > 1,
+    );
+    if (kept.length === cuts.length) break;
+    cuts = kept;
+  }
+
+  const edges = [
+    ...boundary,
+    ...cuts.flatMap((e) => [e, { from: e.to, to: e.from }]),
+  ];
+  return traceRings(edges, pool.points, tolerance);
+}
+
+// --- Holes ---
+
+function crossesRings(p: Point2D, q: Point2D, rings: Ring[]): boolean {
+  const side = (a: Point2D, b: Point2D, c: Point2D) =>
+    Math.sign((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x));
+  const same = (a: Point2D, b: Point2D) => a.x === b.x && a.y === b.y;
+  return rings.some((ring) =>
+    ring.some((a, i) => {
+      const b = ring[(i + 1) % ring.length];
+      if (same(a, p) || same(a, q) || same(b, p) || same(b, q)) return false;
+      return (
+        side(a, b, p) * side(a, b, q) < 0 && side(p, q, a) * side(p, q, b) < 0
+      );
+    }),
+  );
+}
+
+/**
+ * Join a hole to the ring around it with a zero-width cut, along the
+ * shortest line between their vertices that stays inside the region.
+ */
+function joinHole(ring: Ring, hole: Ring, otherHoles: Ring[]): Ring {
+  const obstacles = [ring, hole, ...otherHoles];
+  let best: { i: number; j: number; length: number } | null = null;
+  let nearest: { i: number; j: number; length: number } | null = null;
+  for (let j = 0; j < hole.length; j++) {
+    for (let i = 0; i < ring.length; i++) {
+      const length = Math.hypot(ring[i].x - hole[j].x, ring[i].y - hole[j].y);
+      if (!nearest || length < nearest.length) nearest = { i, j, length };
+      if (best && length >= best.length) continue;
+      const mid = {
+        x: (ring[i].x + hole[j].x) / 2,
+        y: (ring[i].y + hole[j].y) / 2,
+      };
+      if (
+        !isInsideRings(mid, obstacles) ||
+        crossesRings(ring[i], hole[j], obstacles)
+      ) {
+        continue;
+      }
+      best = { i, j, length };
+    }
+  }
+  const { i, j } = best ?? nearest!;
+  return [
+    ...ring.slice(0, i + 1),
+    ...hole.slice(j),
+    ...hole.slice(0, j + 1),
+    ...ring.slice(i),
+  ];
+}
+
+/**
+ * Turn a region into single rings that Fabric polygons can draw: each
+ * outline with the holes inside it joined on by zero-width cuts.
+ */
+function toPolygonRings(rings: Ring[]): Ring[] {
+  const outlines = rings
+    .filter((ring) => getSignedArea(ring) > 0)
+    .map((ring) => ({ ring, area: getSignedArea(ring), holes: [] as Ring[] }));
+  for (const hole of rings.filter((ring) => getSignedArea(ring) < 0)) {
+    const sample = {
+      x: (hole[0].x + hole[1].x) / 2,
+      y: (hole[0].y + hole[1].y) / 2,
+    };
+    const container = outlines
+      .filter((outline) => isInsideRings(sample, [outline.ring]))
+      .sort((a, b) => a.area - b.area)[0];
+    container?.holes.push(hole);
+  }
+  return outlines.map(({ ring, holes }) =>
+    holes.reduce(
+      (joined, hole, k) => joinHole(joined, hole, holes.slice(k + 1)),
+      ring,
+    ),
+  );
+}
+
+// --- Canvas operations ---
+
+/** An object's outline as a positive ring. Throws for unsupported objects. */
+function getOutlineRing(obj: FabricObject): Ring {
+  const outline = getShapeOutline(obj);
+  if (!outline || outline.length < 3) {
+    throw new Error(
+      'Polygon operations only support polygons, rectangles and circles.',
+    );
+  }
+  return getSignedArea(outline) < 0 ? [...outline].reverse() : outline;
+}
+
+function getSourceStyle(obj: FabricObject): Omit<ShapeStyleOptions, 'data'> {
+  return {
+    ...(typeof obj.fill === 'string' && { fill: obj.fill }),
+    ...(typeof obj.stroke === 'string' && { stroke: obj.stroke }),
+    strokeWidth: getBaseStrokeWidth(obj),
+  };
+}
+
+/**
+ * Add a polygon for each outline of `region` in place of `replaced`.
+ * Leaves the canvas unchanged and returns `[]` if the region is empty.
+ */
+function replaceWithRegion(
+  canvas: FabricCanvas,
+  operation: PolygonOperation,
+  region: Ring[],
+  replaced: FabricObject[],
+  getSources: (ring: Ring) => FabricObject[],
+  options?: PolygonOperationOptions,
+): Polygon[] {
+  const rings = toPolygonRings(region);
+  if (rings.length === 0) return [];
+
+  const primary = replaced[0];
+  const style = options?.style ?? getSourceStyle(primary);
+  const usedIds = new Set<string>();
+  const results = rings.map((ring, index) => {
+    const sources = getSources(ring);
+    let data: FabricObject['data'];
+    if (options?.mergeData) {
+      data = options.mergeData(sources, {
+        operation,
+        index,
+        count: rings.length,
+      });
+    } else if (sources[0]?.data) {
+      data = structuredClone(sources[0].data);
+      if (usedIds.has(data.id)) data.id = crypto.randomUUID();
+      usedIds.add(data.id);
+    }
+    return buildPolygonFromVertices(ring, {
+      ...style,
+      ...(data && { data }),
+    });
+  });
+
+  // Insert the results where the first source was, so history records the
+  // index they end up at.
+  const removed = options?.keepSources ? [] : replaced;
+  const objects = canvas.getObjects();
+  const position = objects.indexOf(primary) + 1;
+  const below = objects
+    .slice(0, position)
+    .filter((obj) => !removed.includes(obj)).length;
+  if (canvas.getActiveObjects().some((obj) => removed.includes(obj))) {
+    canvas.discardActiveObject();
+  }
+  canvas.remove(...removed);
+  canvas.insertAt(below, ...results);
+  canvas.requestRenderAll();
+  return results;
+}
+
+/**
+ * Merge polygons, rectangles and circles into one polygon per connected
+ * area, e.g. two neighbouring rooms into one. Edges shared by neighbours
+ * disappear. The results replace the merged objects.
+ *
+ * Curved edges and circles are approximated by straight segments, and a
+ * hole in the result is joined to the outline by a zero-width cut. Throws
+ * if fewer than two objects are given or any is not a polygon, rectangle
+ * or circle.
+ *
+ * Returns the new polygons.
+ */
+export function unionPolygons(
+  canvas: FabricCanvas,
+  objects: FabricObject[],
+  options?: PolygonOperationOptions,
+): Polygon[] {
+  if (objects.length < 2) {
+    throw new Error('A union needs at least two objects.');
+  }
+  const outlines = objects.map(getOutlineRing);
+  const tolerance = getTolerance(outlines);
+  const region = outlines
+    .slice(1)
+    .reduce<
+      Ring[]
+    >((rings, outline) => overlay(rings, [outline], 'union', tolerance), [outlines[0]]);
+
+  return replaceWithRegion(
+    canvas,
+    'union',
+    region,
+    objects,
+    (ring) => {
+      const sources = objects.filter((_, i) =>
+        outlines[i].every((p) => isInsideOrOnRing(p, ring, tolerance * 10)),
+      );
+      return sources.length > 0 ? sources : objects;
+    },
+    options,
+  );
+}
+
+/**
+ * Cut the area of `cutters` out of `subject`, e.g. a building core out of a
+ * floor. The results replace `subject`; the cutters are left unchanged. A
+ * cutter entirely inside the subject leaves a hole, joined to the outline
+ * by a zero-width cut.
+ *
+ * Returns the new polygons, or `[]` — leaving the canvas unchanged — if
+ * nothing of the subject remains. Throws if any object is not a polygon,
+ * rectangle or circle.
+ */
+export function subtractPolygons(
+  canvas: FabricCanvas,
+  subject: FabricObject,
+  cutters: FabricObject[],
+  options?: PolygonOperationOptions,
+): Polygon[] {
+  const outline = getOutlineRing(subject);
+  const cutterOutlines = cutters.map(getOutlineRing);
+  const tolerance = getTolerance([outline, ...cutterOutlines]);
+  const region = cutterOutlines.reduce<Ring[]>(
+    (rings, cutter) => overlay(rings, [cutter], 'subtract', tolerance),
+    [outline],
+  );
+  return replaceWithRegion(
+    canvas,
+    'subtract',
+    region,
+    [subject],
+    () => [subject],
+    options,
+  );
+}
+
+/**
+ * Replace objects with the area they all cover. Returns the new polygons,
+ * or `[]` — leaving the canvas unchanged — if the objects don't overlap.
+ * Throws if fewer than two objects are given or any is not a polygon,
+ * rectangle or circle.
+ */
+export function intersectPolygons(
+  canvas: FabricCanvas,
+  objects: FabricObject[],
+  options?: PolygonOperationOptions,
+): Polygon[] {
+  if (objects.length < 2) {
+    throw new Error('An intersection needs at least two objects.');
+  }
+  const outlines = objects.map(getOutlineRing);
+  const tolerance = getTolerance(outlines);
+  const region = outlines
+    .slice(1)
+    .reduce<
+      Ring[]
+    >((rings, outline) => overlay(rings, [outline], 'intersect', tolerance), [outlines[0]]);
+  return replaceWithRegion(
+    canvas,
+    'intersect',
+    region,
+    objects,
+    () => objects,
+    options,
+  );
+}
+
+/**
+ * Split a polygon, rectangle or circle along a line (scene-space points,
+ * e.g. the points of a line drawn with `enableDrawPolyline`). The line must
+ * cross the shape from edge to edge; parts of it that end inside the shape
+ * are ignored. The pieces replace the object.
+ *
+ * Returns the pieces, or `[]` — leaving the canvas unchanged — if the line
+ * doesn't divide the shape. Throws if the object is not a polygon,
+ * rectangle or circle.
+ */
+export function splitPolygon(
+  canvas: FabricCanvas,
+  object: FabricObject,
+  line: Point2D[],
+  options?: PolygonOperationOptions,
+): Polygon[] {
+  const outline = getOutlineRing(object);
+  if (line.length < 2) return [];
+  const tolerance = getTolerance([outline, line]);
+  const region = splitRegion([outline], line, tolerance);
+  if (region.filter((ring) => getSignedArea(ring) > 0).length < 2) return [];
+  return replaceWithRegion(
+    canvas,
+    'split',
+    region,
+    [object],
+    () => [object],
+    options,
+  );
+}
@@ -0,0 +1,190 @@
+import { Canvas as FabricCanvas, Point } from 'fabric';
+import {
+  DEFAULT_GRID_SPACING,
+  DEFAULT_GRID_SUBDIVISIONS,
+  MIN_GRID_SCREEN_SPACING,
+} from './constants';
+import { DEFAULT_GRID_STYLE } from './styles';
+import type { Point2D } from './types';
+
+/** A square snapping grid in scene units. */
+export interface SnapGrid {
+  /** Distance between major grid lines. */
+  spacing: number;
+  /** Number of cells each major cell is divided into. The snap step is `spacing / subdivisions`. */
+  subdivisions: number;
+}
+
+export interface GridOptions {
+  /** Distance between major grid lines, in scene units. Default: 50. */
+  spacing?: number;
+  /** Number of minor cells per major cell. Pass `1` for no minor lines. Default: 5. */
+  subdivisions?: number;
+  /** Major line color. Default: `DEFAULT_GRID_STYLE.color`. */
+  color?: string;
+  /** Minor line color. Default: `DEFAULT_GRID_STYLE.minorColor`. */
+  minorColor?: string;
+  /** Line width in screen pixels, independent of zoom. Default: 1. */
+  width?: number;
+  /** Draw the grid. Pass `false` to snap to an invisible grid. Default: `true`. */
+  visible?: boolean;
+  /**
+   * Make the grid a snap source for cursor snapping, object alignment and
+   * keyboard nudging. Points snap to the nearest minor grid intersection.
+   * Default: `true`.
+   */
+  snap?: boolean;
+}
+
+// --- Canvas-level snap grid ---
+// Read by cursor snapping, object alignment and keyboard nudging; not part of
+// the public package API.
+
+const canvasSnapGridState = new WeakMap<FabricCanvas, SnapGrid>();
+
+/** Set or clear the canvas-level snap grid. */
+export function setCanvasSnapGrid(
+  canvas: FabricCanvas,
+  grid: SnapGrid | null,
+): void {
+  if (grid) canvasSnapGridState.set(canvas, grid);
+  else canvasSnapGridState.delete(canvas);
+}
+
+/** Return the canvas-level snap grid, or `null` if grid snapping is off. */
+export function getCanvasSnapGrid(canvas: FabricCanvas): SnapGrid | null {
+  return canvasSnapGridState.get(canvas) ?? null;
+}
+
+// --- Rendering ---
+
+/**
+ * Draw one family of grid lines across the visible area. Lines are drawn in
+ * screen space so their width does not change with zoom.
+ */
+function drawGridLines(
+  canvas: FabricCanvas,
+  ctx: CanvasRenderingContext2D,
+  step: number,
+  skip: (index: number) => boolean,
+): void {
+  const vpt = canvas.viewportTransform;
+  const zoom = vpt[0];
+  const width = canvas.width;
+  const height = canvas.height;
+
+  ctx.beginPath();
+  const firstX = Math.ceil(-vpt[4] / zoom / step);
+  const lastX = Math.floor((width - vpt[4]) / zoom / step);
+  for (let i = firstX; i <= lastX; i++) {
+    if (skip(i)) continue;
+    const x = Math.round(i * step * zoom + vpt[4]) + 0.5;
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, height);
+  }
+  const firstY = Math.ceil(-vpt[5] / zoom / step);
+  const lastY = Math.floor((height - vpt[5]) / zoom / step);
+  for (let i = firstY; i <= lastY; i++) {
+    if (skip(i)) continue;
+    const y = Math.round(i * step * zoom + vpt[5]) + 0.5;
+    ctx.moveTo(0, y);
+    ctx.lineTo(width, y);
+  }
+  ctx.stroke();
+}
+
+// --- Public API ---
+
+/**
+ * Return the grid intersection nearest to `point`, on the minor grid
+ * (`spacing / subdivisions`).
+ */
+export function snapPointToGrid(point: Point2D, grid: SnapGrid): Point {
+  const step = grid.spacing / grid.subdivisions;
+  return new Point(
+    Math.round(point.x / step) * step,
+    Math.round(point.y / step) * step,
+  );
+}
+
+/**
+ * Show a grid on the canvas, above the background image and below the
+ * objects. Line width is constant on screen at any zoom; minor lines are
+ * hidden when zoomed out too far for them to be useful, and major lines are
+ * thinned out the same way.
+ *
+ * Unless `options.snap` is `false`, the grid also becomes a snap source for
+ * cursor snapping (and so `enableDragToCreate`, `enableDrawToCreate` and
+ * `enableVertexEdit`), object alignment and keyboard nudging.
+ *
+ * Returns a cleanup function that removes the grid.
+ */
+export function enableGrid(
+  canvas: FabricCanvas,
+  options?: GridOptions,
+): () => void {
+  const spacing = options?.spacing ?? DEFAULT_GRID_SPACING;
+  const subdivisions = Math.max(
+    1,
+    Math.round(options?.subdivisions ?? DEFAULT_GRID_SUBDIVISIONS),
+  );
+  if (!(spacing > 0)) {
+    throw new Error(`Grid spacing must be a positive number, got ${spacing}.`);
+  }
+  const color = options?.color ?? DEFAULT_GRID_STYLE.color;
+  const minorColor = options?.minorColor ?? DEFAULT_GRID_STYLE.minorColor;
+  const lineWidth = options?.width ?? DEFAULT_GRID_STYLE.width;
+
+  function drawGrid(ctx: CanvasRenderingContext2D) {
+    const zoom = canvas.getZoom();
+    const minor = spacing / subdivisions;
+    ctx.save();
+    ctx.lineWidth = lineWidth;
+
+    if (subdivisions > 1 && minor * zoom >= MIN_GRID_SCREEN_SPACING) {
+      ctx.strokeStyle = minorColor;
+      drawGridLines(canvas, ctx, minor, (i) => i % subdivisions === 0);
+    }
+
+    // When zoomed far out, draw every 2nd, 4th, … major line instead.
+    const majorScreen = spacing * zoom;
+    const every =
+      majorScreen >= MIN_GRID_SCREEN_SPACING
+        ? 1
+        : 2 ** Math.ceil(Math.log2(MIN_GRID_SCREEN_SPACING / majorScreen));
+    ctx.strokeStyle = color;
+    drawGridLines(canvas, ctx, spacing * every, () => false);
+
+    ctx.restore();
+  }
+
+  // Fabric has no event between drawing the background and the objects, so
+  // the grid is drawn by wrapping the canvas's background rendering.
+  const hadOwnRenderBackground = Object.prototype.hasOwnProperty.call(
+    canvas,
+    '_renderBackground',
+  );
+  const originalRenderBackground = canvas._renderBackground;
+  if (options?.visible !== false) {
+    canvas._renderBackground = function (ctx: CanvasRenderingContext2D) {
+      originalRenderBackground.call(this, ctx);
+      // Only on screen — not in exports, which render to their own context.
+      if (ctx === canvas.getContext()) drawGrid(ctx);
+    };
+  }
+
+  if (options?.snap !== false) {
+    setCanvasSnapGrid(canvas, { spacing, subdivisions });
+  }
+  canvas.requestRenderAll();
+
+  return () => {
+    if (hadOwnRenderBackground) {
+      canvas._renderBackground = originalRenderBackground;
+    } else {
+      delete (canvas as Partial<FabricCanvas>)._renderBackground;
+    }
+    setCanvasSnapGrid(canvas, null);
+    canvas.requestRenderAll();
+  };
+}
@@ -0,0 +1,130 @@
+import {
+  ActiveSelection,
+  Canvas as FabricCanvas,
+  FabricObject,
+  Group,
+} from 'fabric';
+import { DEFAULT_CONTROL_STYLE } from './styles';
+
+/** Options for {@link groupObjects}. */
+export interface GroupObjectsOptions {
+  /** Optional metadata to attach to the group. */
+  data?: FabricObject['data'];
+  /** Select the new group. Default: `true`. */
+  select?: boolean;
+}
+
+/** Options for {@link ungroupObjects}. */
+export interface UngroupObjectsOptions {
+  /** Select the released objects. Default: `true`. */
+  select?: boolean;
+}
+
+/**
+ * Whether an object is a group created by {@link groupObjects}, as opposed
+ * to an icon (also a Fabric `Group`) or the active selection.
+ */
+export function isObjectGroup(obj: FabricObject | undefined): obj is Group {
+  return obj instanceof Group && obj.shapeType === 'group';
+}
+
+/**
+ * Call `callback` for each object and, recursively, for the objects inside
+ * groups created by {@link groupObjects}. Groups are visited before their
+ * children. Not part of the public package API.
+ */
+export function forEachNestedObject(
+  objects: FabricObject[],
+  callback: (obj: FabricObject) => void,
+): void {
+  for (const obj of objects) {
+    callback(obj);
+    if (isObjectGroup(obj)) forEachNestedObject(obj.getObjects(), callback);
+  }
+}
+
+function selectObjects(canvas: FabricCanvas, objects: FabricObject[]) {
+  canvas.discardActiveObject();
+  canvas.setActiveObject(
+    objects.length === 1
+      ? objects[0]
+      : new ActiveSelection(objects, { canvas }),
+  );
+}
+
+/**
+ * Combine objects (default: the active selection) into a group that moves,
+ * rotates and scales as one object. The group takes the stacking position
+ * of its topmost member, and members keep their order inside it.
+ *
+ * Groups are saved by `serializeCanvas` with their members and restored by
+ * `loadCanvas`. Returns the group, or `null` if fewer than two of `objects`
+ * are on the canvas.
+ */
+export function groupObjects(
+  canvas: FabricCanvas,
+  objects: FabricObject[] = canvas.getActiveObjects(),
+  options?: GroupObjectsOptions,
+): Group | null {
+  const onCanvas = canvas.getObjects();
+  const members = onCanvas.filter((obj) => objects.includes(obj));
+  if (members.length < 2) return null;
+
+  const index = onCanvas.indexOf(members[members.length - 1]);
+  // Members of the active selection are positioned relative to it; leave
+  // it first so they return to scene coordinates.
+  if (canvas.getActiveObjects().some((obj) => members.includes(obj))) {
+    canvas.discardActiveObject();
+  }
+  canvas.remove(...members);
+
+  const group = new Group(members, {
+    ...DEFAULT_CONTROL_STYLE,
+    originX: 'center',
+    originY: 'center',
+  });
+  group.shapeType = 'group';
+  if (options?.data) group.data = options.data;
+  canvas.insertAt(index - (members.length - 1), group);
+
+  if (options?.select !== false) selectObjects(canvas, [group]);
+  canvas.requestRenderAll();
+  return group;
+}
+
+/**
+ * Dissolve groups created by {@link groupObjects} (default: those in the
+ * active selection), putting their members back on the canvas at the
+ * group's stacking position with the group's transform applied. Other
+ * objects are ignored.
+ *
+ * Returns the released objects.
+ */
+export function ungroupObjects(
+  canvas: FabricCanvas,
+  objects: FabricObject[] = canvas.getActiveObjects(),
+  options?: UngroupObjectsOptions,
+): FabricObject[] {
+  const groups = canvas
+    .getObjects()
+    .filter((obj) => objects.includes(obj) && isObjectGroup(obj)) as Group[];
+  if (groups.length === 0) return [];
+
+  if (canvas.getActiveObjects().some((obj) => groups.includes(obj as Group))) {
+    canvas.discardActiveObject();
+  }
+
+  const released: FabricObject[] = [];
+  for (const group of groups) {
+    const index = canvas.getObjects().indexOf(group);
+    canvas.remove(group);
+    const members = group.removeAll();
+    canvas.insertAt(index, ...members);
+    for (const member of members) member.setCoords();
+    released.push(...members);
+  }
+
+  if (options?.select !== false) selectObjects(canvas, released);
+  canvas.requestRenderAll();
+  return released;
+}
@@ -0,0 +1,53 @@
+import { Canvas as FabricCanvas, Point } from 'fabric';
+import type { Point2D } from './types';
+
+/** A persistent guide line, e.g. dragged out of `CanvasRulers`. */
+export interface CanvasGuide {
+  /** `'vertical'` guides are lines at x = `position`, `'horizontal'` guides at y = `position`. */
+  orientation: 'vertical' | 'horizontal';
+  /** Position in scene units. */
+  position: number;
+}
+
+// --- Canvas-level guides ---
+
+const canvasGuidesState = new WeakMap<FabricCanvas, CanvasGuide[]>();
+
+/**
+ * Set the canvas's guides. Guides are snap targets for cursor snapping (and
+ * so the interaction modes) and object alignment, alongside the objects and
+ * the grid. `CanvasRulers` calls this for the guides dragged out of its
+ * rulers; pass an empty array to remove them.
+ */
+export function setCanvasGuides(
+  canvas: FabricCanvas,
+  guides: CanvasGuide[],
+): void {
+  if (guides.length > 0) canvasGuidesState.set(canvas, [...guides]);
+  else canvasGuidesState.delete(canvas);
+}
+
+/** Return the canvas's guides (empty if there are none). */
+export function getCanvasGuides(canvas: FabricCanvas): CanvasGuide[] {
+  return canvasGuidesState.get(canvas) ?? [];
+}
+
+/**
+ * Snap targets for moving `at` along one axis onto the guides: for `'x'`, a
+ * point on each vertical guide level with `at`; for `'y'`, a point on each
+ * horizontal guide in line with `at`. Only meaningful for that axis.
+ */
+export function getGuideSnapPoints(
+  guides: CanvasGuide[],
+  axis: 'x' | 'y',
+  at: Point2D,
+): Point[] {
+  const orientation = axis === 'x' ? 'vertical' : 'horizontal';
+  return guides
+    .filter((guide) => guide.orientation === orientation)
+    .map((guide) =>
+      axis === 'x'
+        ? new Point(guide.position, at.y)
+        : new Point(at.x, guide.position),
+    );
+}
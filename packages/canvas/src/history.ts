@@ -1,12 +1,55 @@
-import { Canvas as FabricCanvas } from 'fabric';
-import { serializeCanvas, loadCanvas } from './serialization';
-import type { CanvasJSON } from './types';
+import {
+  ActiveSelection,
+  Canvas as FabricCanvas,
+  FabricImage,
+  Group,
+  IText,
+  Point,
+  Polygon,
+  Polyline,
+  Rect,
+  util,
+  type FabricObject,
+} from 'fabric';
+import {
+  getBackgroundContrast,
+  getBackgroundInverted,
+  setBackgroundContrast,
+  setBackgroundInverted,
+} from './background';
+import {
+  getBaseBorderRadius,
+  getBaseStrokeWidth,
+  restoreLoadedObject,
+  setBaseBorderRadius,
+  setBaseStrokeWidth,
+} from './serialization';
+import { forEachNestedObject, isObjectGroup } from './groups';
 
 export interface HistoryOptions {
-  /** Maximum number of snapshots to keep. Oldest are dropped when exceeded. Default: 50. */
+  /** Maximum number of undo steps to keep. Oldest are dropped when exceeded. Default: 50. */
   maxSize?: number;
-  /** Debounce delay in milliseconds before capturing a snapshot after a change. Default: 300. */
+  /** Debounce delay in milliseconds before grouping pending changes into an undo step. Default: 300. */
   debounce?: number;
+  /**
+   * Additional Fabric object properties to track, on top of geometry,
+   * `fill`, `stroke`, `strokeWidth`, `opacity`, `visible`, `data`,
+   * `shapeType`, `thickness` and label text.
+   */
+  properties?: string[];
+  /** Called whenever the entry list or the current position changes. */
+  onChange?: () => void;
+}
+
+/** A single undo step, as listed by {@link HistoryTracker.getEntries}. */
+export interface HistoryEntry {
+  /**
+   * Human-readable description, e.g. `"Move 3 desks"`. Taken from
+   * {@link HistoryTracker.beginTransaction}, or generated from the changes.
+   */
+  label: string;
+  /** When the entry was recorded (milliseconds since the epoch). */
+  timestamp: number;
 }
 
 export interface HistoryTracker {
@@ -18,20 +61,373 @@ export interface HistoryTracker {
   canUndo: () => boolean;
   /** Whether a redo operation is available. */
   canRedo: () => boolean;
-  /** Manually push the current canvas state as a snapshot. */
+  /**
+   * Start a transaction: every change until the matching {@link commit} is
+   * recorded as a single undo step with the given label. Transactions may be
+   * nested; only the outermost one creates an entry (and its label wins).
+   * Pending changes recorded before the call become their own step.
+   */
+  beginTransaction: (label?: string) => void;
+  /**
+   * Close the transaction opened by {@link beginTransaction}. Does nothing
+   * if the transaction recorded no changes. Throws if no transaction is open.
+   */
+  commit: () => void;
+  /** Whether a transaction is currently open. */
+  isInTransaction: () => boolean;
+  /** All entries, oldest first, including those that can be redone. */
+  getEntries: () => HistoryEntry[];
+  /**
+   * Index of the entry the canvas currently reflects, or `-1` if every entry
+   * has been undone (or there are none).
+   */
+  getIndex: () => number;
+  /**
+   * Undo or redo as many steps as needed so the canvas reflects the entry
+   * at `index` (`-1` for the state before the first entry).
+   */
+  jumpTo: (index: number) => Promise<void>;
+  /**
+   * Serialize the entries for persistence (e.g. in a draft), referencing
+   * objects by `data.id`. Entries involving objects without an id (such as
+   * groups made without `data`, or groups with members lacking one), or
+   * replacing the background image, cannot be serialized; they and every
+   * entry beyond them (as seen from the current position) are left out.
+   */
+  serialize: () => SerializedHistory;
+  /**
+   * Replace the history with previously serialized entries. The canvas must
+   * be in the state it was in when {@link serialize} was called. Objects are
+   * resolved by `data.id`, including members of groups; removed objects are
+   * recreated from the stored data. Throws if an object cannot be resolved.
+   */
+  restore: (
+    history: SerializedHistory,
+    options?: RestoreHistoryOptions,
+  ) => Promise<void>;
+  /**
+   * Record any pending or untracked changes (e.g. properties set without
+   * firing `object:modified`) as an undo step right away.
+   */
   pushSnapshot: () => void;
+  /**
+   * Clear history and treat the current canvas state as the baseline,
+   * e.g. after loading a document.
+   */
+  clear: () => void;
   /** Remove all event listeners and clear history. */
   cleanup: () => void;
 }
 
+/** Serialized form of a history operation; objects are referenced by `data.id`. */
+export type SerializedHistoryOperation =
+  | {
+      type: 'add' | 'remove';
+      id: string;
+      index: number;
+      /** `data.id`s of a group's members at the time. */
+      members?: string[];
+    }
+  | {
+      type: 'modify';
+      id: string;
+      before: Record<string, unknown>;
+      after: Record<string, unknown>;
+    }
+  | {
+      type: 'background';
+      before: { contrast: number };
+      after: { contrast: number };
+    };
+
+/** Output of {@link HistoryTracker.serialize}. Plain JSON. */
+export interface SerializedHistory {
+  entries: (HistoryEntry & { operations: SerializedHistoryOperation[] })[];
+  /** Index of the current entry, as returned by `getIndex()`. */
+  index: number;
+  /**
+   * Objects that are referenced by the entries but not on the canvas
+   * (i.e. removed), keyed by `data.id`.
+   */
+  objects: Record<
+    string,
+    { object: Record<string, unknown>; state: Record<string, unknown> }
+  >;
+}
+
+export interface RestoreHistoryOptions {
+  /** Visual border radius for recreated Rects, as in `loadCanvas`. Default: 4. */
+  borderRadius?: number | false;
+}
+
+/** Tracked state of a canvas object. Positions are absolute centre points. */
+type ObjectState = Record<string, unknown> & {
+  left: number;
+  top: number;
+  strokeWidth: number;
+};
+
+type HistoryRecord = HistoryEntry & { operations: HistoryOperation[] };
+
+type BackgroundState = {
+  image: FabricImage | undefined;
+  contrast: number;
+};
+
+type HistoryOperation =
+  | {
+      type: 'add';
+      object: FabricObject;
+      index: number;
+      /** A group's members (see `groupObjects`) at the time. */
+      members?: FabricObject[];
+    }
+  | {
+      type: 'remove';
+      object: FabricObject;
+      index: number;
+      /** A group's members (see `groupObjects`) at the time. */
+      members?: FabricObject[];
+    }
+  | {
+      type: 'modify';
+      object: FabricObject;
+      before: ObjectState;
+      after: ObjectState;
+    }
+  | { type: 'background'; before: BackgroundState; after: BackgroundState };
+
+const TRACKED_PROPERTIES = [
+  'width',
+  'height',
+  'fill',
+  'stroke',
+  'opacity',
+  'visible',
+  'shapeType',
+  'thickness',
+  'bulges',
+];
+
+// --- State capture ---
+
+function captureObjectState(
+  obj: FabricObject,
+  extraProperties: string[],
+): ObjectState {
+  const state: Record<string, unknown> = {};
+  for (const key of [...TRACKED_PROPERTIES, ...extraProperties]) {
+    state[key] = (obj as unknown as Record<string, unknown>)[key];
+  }
+
+  if (obj.group) {
+    // Children of an ActiveSelection are positioned relative to it; record
+    // their absolute transform instead.
+    const t = util.qrDecompose(obj.calcTransformMatrix());
+    Object.assign(state, {
+      left: t.translateX,
+      top: t.translateY,
+      angle: t.angle,
+      scaleX: t.scaleX,
+      scaleY: t.scaleY,
+      skewX: t.skewX,
+      skewY: t.skewY,
+      flipX: false,
+      flipY: false,
+    });
+  } else {
+    const center = obj.getCenterPoint();
+    Object.assign(state, {
+      left: center.x,
+      top: center.y,
+      angle: obj.angle,
+      scaleX: obj.scaleX,
+      scaleY: obj.scaleY,
+      skewX: obj.skewX,
+      skewY: obj.skewY,
+      flipX: obj.flipX,
+      flipY: obj.flipY,
+    });
+  }
+
+  state.strokeWidth = getBaseStrokeWidth(obj);
+  state.data = obj.data ? structuredClone(obj.data) : undefined;
+  if (obj instanceof Rect) Object.assign(state, getBaseBorderRadius(obj));
+  if (obj instanceof Polyline) {
+    state.points = obj.points.map((p) => ({ x: p.x, y: p.y }));
+  }
+  if (obj instanceof IText) state.text = obj.text;
+  return state as ObjectState;
+}
+
+function isSameState(a: ObjectState, b: ObjectState): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function applyObjectState(obj: FabricObject, state: ObjectState) {
+  const { left, top, strokeWidth, rx, ry, points, data, ...rest } = state;
+
+  obj.set({
+    ...rest,
+    data: data === undefined ? undefined : structuredClone(data),
+  });
+  // After `set`, so that the dimensions account for the restored bulges.
+  if (obj instanceof Polyline && Array.isArray(points)) {
+    obj.points = (points as { x: number; y: number }[]).map(
+      (p) => new Point(p.x, p.y),
+    );
+    obj.setDimensions();
+  }
+  setBaseStrokeWidth(obj, strokeWidth);
+  if (obj instanceof Rect) {
+    setBaseBorderRadius(obj, { rx: rx as number, ry: ry as number });
+  }
+  obj.setPositionByOrigin(new Point(left, top), 'center', 'center');
+  obj.setCoords();
+}
+
+/** A group's members, recorded so that grouping can be undone and redone. */
+function getMembers(obj: FabricObject): FabricObject[] | undefined {
+  return isObjectGroup(obj) ? obj.getObjects() : undefined;
+}
+
+/** Put a group's recorded members back into it, in their original order. */
+function restoreMembers(group: Group, members: FabricObject[]) {
+  members.forEach((member, index) => {
+    if (member.group === group) return;
+    if (member.canvas) member.canvas.remove(member);
+    group.insertAt(index, member);
+  });
+}
+
+function serializeOperation(
+  op: HistoryOperation,
+): SerializedHistoryOperation | null {
+  switch (op.type) {
+    case 'add':
+    case 'remove':
+    case 'modify': {
+      const id = op.object.data?.id;
+      if (!id) return null;
+      if (op.type === 'modify') {
+        return { type: op.type, id, before: op.before, after: op.after };
+      }
+      if (!op.members) return { type: op.type, id, index: op.index };
+      const members = op.members.map((member) => member.data?.id);
+      if (members.some((memberId) => !memberId)) return null;
+      return {
+        type: op.type,
+        id,
+        index: op.index,
+        members: members as string[],
+      };
+    }
+    case 'background':
+      if (op.before.image !== op.after.image) return null;
+      return {
+        type: 'background',
+        before: { contrast: op.before.contrast },
+        after: { contrast: op.after.contrast },
+      };
+  }
+}
+
+function captureBackgroundState(canvas: FabricCanvas): BackgroundState {
+  const image =
+    canvas.backgroundImage instanceof FabricImage
+      ? canvas.backgroundImage
+      : undefined;
+  return { image, contrast: image ? getBackgroundContrast(canvas) : 1 };
+}
+
+function applyBackgroundState(canvas: FabricCanvas, state: BackgroundState) {
+  // Inversion follows the current theme rather than the recorded state.
+  const inverted = getBackgroundInverted(canvas);
+  canvas.backgroundImage = state.image;
+  if (state.image) {
+    setBackgroundContrast(canvas, state.contrast);
+    setBackgroundInverted(canvas, inverted);
+  }
+  canvas.fire('background:modified');
+}
+
+// --- Labels ---
+
+function describeObject(obj: FabricObject): string {
+  if (obj.data?.type) return obj.data.type.toLowerCase().replace(/_/g, ' ');
+  if (obj.shapeType) return obj.shapeType;
+  if (obj instanceof Polygon) return 'polygon';
+  if (obj instanceof Rect) return 'rectangle';
+  return 'object';
+}
+
+function describeObjects(objects: FabricObject[]): string {
+  const names = new Set(objects.map(describeObject));
+  const name = names.size === 1 ? [...names][0] : 'object';
+  return objects.length === 1 ? name : `${objects.length} ${name}s`;
+}
+
+function describeModification(before: ObjectState, after: ObjectState) {
+  const changed = (keys: string[]) =>
+    keys.some(
+      (key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]),
+    );
+  if (changed(['text'])) return 'Edit';
+  if (changed(['points', 'bulges'])) return 'Reshape';
+  if (changed(['width', 'height', 'scaleX', 'scaleY', 'skewX', 'skewY'])) {
+    return 'Resize';
+  }
+  if (changed(['angle', 'flipX', 'flipY'])) return 'Rotate';
+  if (changed(['left', 'top'])) return 'Move';
+  return 'Edit';
+}
+
+/** Generate a label such as `"Move 3 desks"` for a list of operations. */
+function describeOperations(operations: HistoryOperation[]): string {
+  const added = operations.filter((op) => op.type === 'add');
+  const removed = operations.filter((op) => op.type === 'remove');
+  const modified = operations.filter((op) => op.type === 'modify');
+  const objectsOf = (ops: { object: FabricObject }[]) =>
+    describeObjects(ops.map((op) => op.object));
+
+  if (added.length > 0 && removed.length === 0) {
+    return `Add ${objectsOf(added)}`;
+  }
+  if (removed.length > 0 && added.length === 0) {
+    return `Delete ${objectsOf(removed)}`;
+  }
+  if (added.length > 0) return 'Edit objects';
+  if (modified.length > 0) {
+    const verbs = new Set(
+      modified.map((op) => describeModification(op.before, op.after)),
+    );
+    const verb = verbs.size === 1 ? [...verbs][0] : 'Edit';
+    return `${verb} ${objectsOf(modified)}`;
+  }
+  return 'Change background';
+}
+
+// --- Tracker ---
+
 /**
- * Create a snapshot-based undo/redo tracker for a canvas.
+ * Create a delta-based undo/redo tracker for a canvas.
+ *
+ * Listens to `object:added`, `object:removed`, `object:modified` and
+ * `background:modified` and records what changed: additions and removals
+ * (with their stacking index), the before/after state of modified objects,
+ * and background image/contrast changes. Changes that happen within the
+ * debounce window are grouped into a single undo step.
  *
- * Listens to `object:added`, `object:modified`, and `object:removed` events
- * and captures a serialized snapshot of the canvas state (debounced).
+ * `undo()` and `redo()` apply the recorded operations in place, so object
+ * identity is preserved and the current selection is restored afterwards.
+ * The regular canvas events fire while applying (so dirty tracking and
+ * overlays stay in sync), but are not recorded as new changes.
  *
- * `undo()` and `redo()` load adjacent snapshots via `loadCanvas`.
- * During undo/redo operations, event-triggered captures are suppressed.
+ * Each entry carries a label: the one passed to `beginTransaction()`, or
+ * one generated from the changes (e.g. `"Move 3 desks"`, `"Delete place"`).
+ *
+ * Objects with `excludeFromExport` (interaction previews, guides) are not
+ * tracked.
  */
 export function createHistoryTracker(
   canvas: FabricCanvas,
@@ -39,100 +435,440 @@ export function createHistoryTracker(
 ): HistoryTracker {
   const maxSize = options?.maxSize ?? 50;
   const debounceMs = options?.debounce ?? 300;
+  const extraProperties = options?.properties ?? [];
 
-  const snapshots: CanvasJSON[] = [];
-  let currentIndex = -1;
-  let isUndoRedo = false;
+  const entries: HistoryRecord[] = [];
+  /** Number of entries currently applied (entries after it can be redone). */
+  let position = 0;
+  let pending: HistoryOperation[] = [];
+  let isApplying = false;
   let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  let transactionDepth = 0;
+  let transactionLabel: string | undefined;
 
-  function captureSnapshot() {
-    if (isUndoRedo) return;
+  const knownStates = new WeakMap<FabricObject, ObjectState>();
+  let knownOrder: FabricObject[] = [];
+  let knownBackground = captureBackgroundState(canvas);
 
-    const snapshot = serializeCanvas(canvas);
+  const isTracked = (obj: FabricObject | undefined): obj is FabricObject =>
+    !!obj && !obj.excludeFromExport;
 
-    // Drop any redo history beyond current position
-    if (currentIndex < snapshots.length - 1) {
-      snapshots.length = currentIndex + 1;
+  function baseline() {
+    knownOrder = canvas.getObjects().filter((obj) => isTracked(obj));
+    for (const obj of knownOrder) {
+      knownStates.set(obj, captureObjectState(obj, extraProperties));
     }
+    knownBackground = captureBackgroundState(canvas);
+  }
 
-    snapshots.push(snapshot);
-
-    // Enforce max size
-    if (snapshots.length > maxSize) {
-      snapshots.shift();
+  function clearTimer() {
+    if (debounceTimer !== null) {
+      clearTimeout(debounceTimer);
+      debounceTimer = null;
     }
+  }
 
-    currentIndex = snapshots.length - 1;
+  function flush(label?: string) {
+    clearTimer();
+    if (pending.length === 0) return;
+    entries.length = position;
+    entries.push({
+      label: label ?? describeOperations(pending),
+      timestamp: Date.now(),
+      operations: pending,
+    });
+    if (entries.length > maxSize) entries.shift();
+    position = entries.length;
+    pending = [];
+    options?.onChange?.();
   }
 
-  function debouncedCapture() {
-    if (debounceTimer !== null) {
-      clearTimeout(debounceTimer);
+  function assertNoTransaction() {
+    if (transactionDepth > 0) {
+      throw new Error(
+        'Cannot undo or redo while a history transaction is open. Call commit() first.',
+      );
     }
-    debounceTimer = setTimeout(() => {
-      debounceTimer = null;
-      captureSnapshot();
-    }, debounceMs);
   }
 
-  const onChange = () => {
-    if (!isUndoRedo) debouncedCapture();
+  function record(op: HistoryOperation) {
+    if (op.type === 'modify') {
+      // Merge repeated modifications of the same object within one step.
+      const existing = pending.find(
+        (p) => p.type === 'modify' && p.object === op.object,
+      );
+      if (existing && existing.type === 'modify') {
+        existing.after = op.after;
+      } else {
+        pending.push(op);
+      }
+    } else if (op.type === 'background') {
+      const existing = pending.find((p) => p.type === 'background');
+      if (existing && existing.type === 'background') {
+        existing.after = op.after;
+      } else {
+        pending.push(op);
+      }
+    } else {
+      pending.push(op);
+    }
+    if (transactionDepth > 0) return;
+    clearTimer();
+    debounceTimer = setTimeout(flush, debounceMs);
+  }
+
+  function trackModified(obj: FabricObject) {
+    const before = knownStates.get(obj);
+    const after = captureObjectState(obj, extraProperties);
+    knownStates.set(obj, after);
+    if (isApplying || !before || isSameState(before, after)) return;
+    record({ type: 'modify', object: obj, before, after });
+  }
+
+  function reconcile() {
+    for (const obj of knownOrder) trackModified(obj);
+    onBackgroundModified();
+  }
+
+  // --- Event listeners ---
+
+  const onAdded = ({ target }: { target: FabricObject }) => {
+    if (!isTracked(target)) return;
+    const index = canvas
+      .getObjects()
+      .filter((obj) => isTracked(obj))
+      .indexOf(target);
+    knownOrder.splice(index, 0, target);
+    knownStates.set(target, captureObjectState(target, extraProperties));
+    if (!isApplying) {
+      record({
+        type: 'add',
+        object: target,
+        index,
+        members: getMembers(target),
+      });
+    }
+  };
+
+  const onRemoved = ({ target }: { target: FabricObject }) => {
+    if (!isTracked(target)) return;
+    const trackedIndex = knownOrder.indexOf(target);
+    if (trackedIndex !== -1) knownOrder.splice(trackedIndex, 1);
+    if (!isApplying) {
+      record({
+        type: 'remove',
+        object: target,
+        index: Math.max(trackedIndex, 0),
+        members: getMembers(target),
+      });
+    }
+  };
+
+  const onModified = ({ target }: { target?: FabricObject }) => {
+    if (!isTracked(target)) return;
+    if (target instanceof ActiveSelection) {
+      target.getObjects().forEach(trackModified);
+    } else {
+      trackModified(target);
+    }
   };
 
-  canvas.on('object:added', onChange);
-  canvas.on('object:modified', onChange);
-  canvas.on('object:removed', onChange);
+  function onBackgroundModified() {
+    const before = knownBackground;
+    const after = captureBackgroundState(canvas);
+    knownBackground = after;
+    if (isApplying) return;
+    // Inversion alone follows the theme and is not an undoable change.
+    if (before.image === after.image && before.contrast === after.contrast) {
+      return;
+    }
+    record({ type: 'background', before, after });
+  }
+
+  canvas.on('object:added', onAdded);
+  canvas.on('object:removed', onRemoved);
+  canvas.on('object:modified', onModified);
+  canvas.on('background:modified', onBackgroundModified);
 
-  async function loadSnapshot(index: number) {
-    if (index < 0 || index >= snapshots.length) return;
+  baseline();
+
+  // --- Applying entries ---
+
+  function applyOperation(op: HistoryOperation, direction: 'undo' | 'redo') {
+    const forward = direction === 'redo';
+    switch (op.type) {
+      case 'add':
+      case 'remove':
+        // Indices count tracked objects only; previews are usually on top.
+        if ((op.type === 'add') === forward) {
+          // Undoing a grouping puts members back: take them out of the group.
+          if (isObjectGroup(op.object.group)) {
+            op.object.group.remove(op.object);
+          }
+          canvas.insertAt(op.index, op.object);
+          // Redoing it (or undoing an ungrouping) refills the group.
+          if (op.members && isObjectGroup(op.object)) {
+            restoreMembers(op.object, op.members);
+          }
+        } else {
+          canvas.remove(op.object);
+        }
+        break;
+      case 'modify':
+        applyObjectState(op.object, forward ? op.after : op.before);
+        canvas.fire('object:modified', { target: op.object });
+        break;
+      case 'background':
+        applyBackgroundState(canvas, forward ? op.after : op.before);
+        break;
+    }
+  }
 
-    isUndoRedo = true;
-    currentIndex = index;
+  function applyEntry(entry: HistoryRecord, direction: 'undo' | 'redo') {
+    const selected = canvas.getActiveObjects();
+    canvas.discardActiveObject();
 
+    isApplying = true;
     try {
-      await loadCanvas(canvas, snapshots[index]);
+      const ops =
+        direction === 'undo'
+          ? [...entry.operations].reverse()
+          : entry.operations;
+      for (const op of ops) applyOperation(op, direction);
     } finally {
-      isUndoRedo = false;
+      isApplying = false;
     }
+
+    const onCanvas = new Set(canvas.getObjects());
+    const reselect = selected.filter((obj) => onCanvas.has(obj));
+    if (reselect.length === 1) {
+      canvas.setActiveObject(reselect[0]);
+    } else if (reselect.length > 1) {
+      canvas.setActiveObject(new ActiveSelection(reselect, { canvas }));
+    }
+    canvas.requestRenderAll();
   }
 
   return {
     async undo() {
-      if (currentIndex <= 0) return;
-      await loadSnapshot(currentIndex - 1);
+      assertNoTransaction();
+      flush();
+      if (position === 0) return;
+      position--;
+      applyEntry(entries[position], 'undo');
+      options?.onChange?.();
     },
 
     async redo() {
-      if (currentIndex >= snapshots.length - 1) return;
-      await loadSnapshot(currentIndex + 1);
+      assertNoTransaction();
+      flush();
+      if (position >= entries.length) return;
+      applyEntry(entries[position], 'redo');
+      position++;
+      options?.onChange?.();
+    },
+
+    async jumpTo(index) {
+      assertNoTransaction();
+      flush();
+      const target = Math.min(Math.max(index, -1), entries.length - 1) + 1;
+      if (target === position) return;
+      while (position > target) {
+        position--;
+        applyEntry(entries[position], 'undo');
+      }
+      while (position < target) {
+        applyEntry(entries[position], 'redo');
+        position++;
+      }
+      options?.onChange?.();
     },
 
     canUndo() {
-      return currentIndex > 0;
+      return position > 0 || pending.length > 0;
     },
 
     canRedo() {
-      return currentIndex < snapshots.length - 1;
+      return pending.length === 0 && position < entries.length;
     },
 
-    pushSnapshot() {
-      if (debounceTimer !== null) {
-        clearTimeout(debounceTimer);
-        debounceTimer = null;
+    beginTransaction(label) {
+      if (transactionDepth === 0) {
+        flush();
+        transactionLabel = label;
       }
-      captureSnapshot();
+      transactionDepth++;
     },
 
-    cleanup() {
-      if (debounceTimer !== null) {
-        clearTimeout(debounceTimer);
-        debounceTimer = null;
+    commit() {
+      if (transactionDepth === 0) {
+        throw new Error('No history transaction is open.');
+      }
+      transactionDepth--;
+      if (transactionDepth > 0) return;
+      flush(transactionLabel);
+      transactionLabel = undefined;
+    },
+
+    isInTransaction() {
+      return transactionDepth > 0;
+    },
+
+    getEntries() {
+      return entries.map(({ label, timestamp }) => ({ label, timestamp }));
+    },
+
+    getIndex() {
+      return position - 1;
+    },
+
+    serialize() {
+      const serialized = entries.map(({ label, timestamp, operations }) => {
+        const ops = operations.map(serializeOperation);
+        if (ops.some((op) => op === null)) return null;
+        return {
+          label,
+          timestamp,
+          operations: ops as SerializedHistoryOperation[],
+        };
+      });
+      // Keep the contiguous serializable range around the current position.
+      let start = position;
+      while (start > 0 && serialized[start - 1]) start--;
+      let end = position;
+      while (end < serialized.length && serialized[end]) end++;
+
+      const onCanvas = new Set<FabricObject>();
+      forEachNestedObject(canvas.getObjects(), (obj) => onCanvas.add(obj));
+      const objects: SerializedHistory['objects'] = {};
+      for (const entry of entries.slice(start, end)) {
+        for (const op of entry.operations) {
+          if (op.type !== 'add' && op.type !== 'remove') continue;
+          // Members of a removed group are stored with the group.
+          let object = op.object;
+          while (isObjectGroup(object.group) && object.group.data?.id) {
+            object = object.group;
+          }
+          if (onCanvas.has(object)) continue;
+          objects[object.data!.id] = {
+            object: object.toObject([
+              'data',
+              'shapeType',
+              'thickness',
+              'tint',
+              'fixedSize',
+              'bulges',
+            ]),
+            state: captureObjectState(object, extraProperties),
+          };
+        }
       }
-      canvas.off('object:added', onChange);
-      canvas.off('object:modified', onChange);
-      canvas.off('object:removed', onChange);
-      snapshots.length = 0;
-      currentIndex = -1;
+
+      return {
+        entries: serialized.slice(start, end) as SerializedHistory['entries'],
+        index: position - start - 1,
+        objects,
+      };
+    },
+
+    async restore(history, restoreOptions) {
+      assertNoTransaction();
+      const byId = new Map<string, FabricObject>();
+      forEachNestedObject(canvas.getObjects(), (obj) => {
+        if (obj.data?.id && !byId.has(obj.data.id)) byId.set(obj.data.id, obj);
+      });
+
+      const missing = Object.entries(history.objects).filter(
+        ([id]) => !byId.has(id),
+      );
+      const recreated = await util.enlivenObjects<FabricObject>(
+        missing.map(([, { object }]) => object),
+      );
+      recreated.forEach((obj, i) => {
+        restoreLoadedObject(obj, restoreOptions?.borderRadius);
+        applyObjectState(obj, missing[i][1].state as ObjectState);
+        byId.set(missing[i][0], obj);
+        forEachNestedObject([obj], (member) => {
+          const id = member.data?.id;
+          if (id && !byId.has(id)) byId.set(id, member);
+        });
+      });
+
+      const resolve = (id: string) => {
+        const obj = byId.get(id);
+        if (!obj) {
+          throw new Error(
+            `Cannot restore history: object "${id}" is neither on the canvas nor in the serialized history.`,
+          );
+        }
+        return obj;
+      };
+      const background = captureBackgroundState(canvas);
+      const restored: HistoryRecord[] = history.entries.map((entry) => ({
+        label: entry.label,
+        timestamp: entry.timestamp,
+        operations: entry.operations.map((op): HistoryOperation => {
+          switch (op.type) {
+            case 'add':
+            case 'remove':
+              return {
+                type: op.type,
+                object: resolve(op.id),
+                index: op.index,
+                members: op.members?.map(resolve),
+              };
+            case 'modify':
+              return {
+                type: op.type,
+                object: resolve(op.id),
+                before: op.before as ObjectState,
+                after: op.after as ObjectState,
+              };
+            case 'background':
+              return {
+                type: op.type,
+                before: { ...background, contrast: op.before.contrast },
+                after: { ...background, contrast: op.after.contrast },
+              };
+          }
+        }),
+      }));
+
+      clearTimer();
+      pending = [];
+      entries.splice(0, entries.length, ...restored);
+      position = Math.min(Math.max(history.index, -1), entries.length - 1) + 1;
+      baseline();
+      options?.onChange?.();
+    },
+
+    pushSnapshot() {
+      reconcile();
+      if (transactionDepth === 0) flush();
+    },
+
+    clear() {
+      clearTimer();
+      pending = [];
+      entries.length = 0;
+      position = 0;
+      transactionDepth = 0;
+      transactionLabel = undefined;
+      baseline();
+      options?.onChange?.();
+    },
+
+    cleanup() {
+      clearTimer();
+      canvas.off('object:added', onAdded);
+      canvas.off('object:removed', onRemoved);
+      canvas.off('object:modified', onModified);
+      canvas.off('background:modified', onBackgroundModified);
+      pending = [];
+      entries.length = 0;
+      position = 0;
+      transactionDepth = 0;
+      knownOrder = [];
     },
   };
 }
@@ -13,5 +13,8 @@ export type {
   CanvasTooltipState,
 } from './useCanvasTooltip';
 
+export { useCanvasLayers } from './useCanvasLayers';
+export type { CanvasLayersState } from './useCanvasLayers';
+
 export { useCanvasClick } from './useCanvasClick';
 export type { UseCanvasClickOptions } from './useCanvasClick';
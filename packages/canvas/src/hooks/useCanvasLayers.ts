@@ -0,0 +1,123 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+  type RefObject,
+} from 'react';
+import type { Canvas as FabricCanvas, FabricObject } from 'fabric';
+import { useCanvasRef } from '../context/useCanvasRef';
+import {
+  getCanvasLayers,
+  getLayerObjects,
+  moveCanvasLayer,
+  setCanvasLayers,
+  updateCanvasLayer,
+  type CanvasLayer,
+} from '../layers';
+
+export interface CanvasLayersState {
+  /** The canvas's layers, bottom to top (reactive). */
+  layers: CanvasLayer[];
+  /** Replace all layers, e.g. to set up a new document. */
+  setLayers: (layers: CanvasLayer[]) => void;
+  /** Change a layer's name, types, visibility or lock. */
+  updateLayer: (id: string, changes: Partial<Omit<CanvasLayer, 'id'>>) => void;
+  /** Move a layer to `index` in the stacking order (0 is the bottom). */
+  moveLayer: (id: string, index: number) => void;
+  /** The objects on a layer, in stacking order. */
+  getObjects: (id: string) => FabricObject[];
+}
+
+/**
+ * Read and change the canvas's layers for a layers panel, using the
+ * `canvasRef` from the nearest {@link ViewCanvasProvider} or
+ * {@link EditCanvasProvider}.
+ *
+ * @example
+ * ```tsx
+ * const { layers, updateLayer } = useCanvasLayers();
+ *
+ * return layers.map((layer) => (
+ *   <Switch
+ *     key={layer.id}
+ *     checked={layer.visible}
+ *     onChange={(_, visible) => updateLayer(layer.id, { visible })}
+ *   />
+ * ));
+ * ```
+ */
+export function useCanvasLayers(): CanvasLayersState;
+/**
+ * Read and change the canvas's layers for a layers panel.
+ *
+ * `layers` follows every change made through the layer functions
+ * (`setCanvasLayers`, `updateCanvasLayer`, ...), including loading a new
+ * document. The callbacks do nothing until the canvas is ready.
+ *
+ * @example
+ * ```tsx
+ * const { layers, moveLayer } = useCanvasLayers(editor.canvasRef);
+ * ```
+ */
+export function useCanvasLayers(
+  canvasRef: RefObject<FabricCanvas | null>,
+): CanvasLayersState;
+export function useCanvasLayers(
+  canvasRef?: RefObject<FabricCanvas | null>,
+): CanvasLayersState {
+  // Always called unconditionally (Rules of Hooks compliant)
+  const contextCanvasRef = useCanvasRef();
+  const resolvedCanvasRef = canvasRef ?? contextCanvasRef;
+
+  const [layers, setLayersState] = useState<CanvasLayer[]>([]);
+
+  useEffect(() => {
+    const canvas = resolvedCanvasRef?.current;
+    if (!canvas) return;
+
+    const sync = () => setLayersState(getCanvasLayers(canvas));
+    sync();
+    canvas.on('layers:modified', sync);
+    return () => {
+      canvas.off('layers:modified', sync);
+    };
+  }, [resolvedCanvasRef]);
+
+  const setLayers = useCallback(
+    (value: CanvasLayer[]) => {
+      const canvas = resolvedCanvasRef?.current;
+      if (canvas) setCanvasLayers(canvas, value);
+    },
+    [resolvedCanvasRef],
+  );
+
+  const updateLayer = useCallback(
+    (id: string, changes: Partial<Omit<CanvasLayer, 'id'>>) => {
+      const canvas = resolvedCanvasRef?.current;
+      if (canvas) updateCanvasLayer(canvas, id, changes);
+    },
+    [resolvedCanvasRef],
+  );
+
+  const moveLayer = useCallback(
+    (id: string, index: number) => {
+      const canvas = resolvedCanvasRef?.current;
+      if (canvas) moveCanvasLayer(canvas, id, index);
+    },
+    [resolvedCanvasRef],
+  );
+
+  const getObjects = useCallback(
+    (id: string) => {
+      const canvas = resolvedCanvasRef?.current;
+      return canvas ? getLayerObjects(canvas, id) : [];
+    },
+    [resolvedCanvasRef],
+  );
+
+  return useMemo(
+    () => ({ layers, setLayers, updateLayer, moveLayer, getObjects }),
+    [layers, setLayers, updateLayer, moveLayer, getObjects],
+  );
+}
@@ -1,7 +1,14 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { Canvas as FabricCanvas, type FabricObject, Polygon } from 'fabric';
+import {
+  Canvas as FabricCanvas,
+  type FabricObject,
+  type Group,
+  IText,
+  Polyline,
+} from 'fabric';
 import {
   enablePanAndZoom,
+  resetViewport as resetViewportFn,
   type PanAndZoomOptions,
   type ViewportController,
   type ViewportMode,
@@ -26,9 +33,29 @@ import {
   enableScaledStrokes,
   enableScaledBorderRadius,
   loadCanvas,
+  serializeCanvas,
   type ScaledBorderRadiusOptions,
 } from '../serialization';
-import { enableKeyboardShortcuts } from '../keyboard';
+import {
+  createKeymap,
+  type KeyBindingInfo,
+  type Keymap,
+  type KeymapOptions,
+} from '../keyboard';
+import { enableGrid, type GridOptions } from '../grid';
+import { getCanvasScale, setCanvasScale, type CanvasScale } from '../scale';
+import {
+  enableFixedSizeIcons,
+  enableScaledLabels,
+  startLabelEditing,
+} from '../shapes';
+import {
+  createCanvasClipboard,
+  type CanvasClipboard,
+  type CanvasClipboardData,
+  type CanvasClipboardOptions,
+  type PasteOptions,
+} from '../clipboard';
 import {
   fitViewportToBackground,
   setBackgroundImage as setBackgroundImageFn,
@@ -38,9 +65,24 @@ import {
 } from '../background';
 import {
   createHistoryTracker,
+  type HistoryEntry,
   type HistoryOptions,
   type HistoryTracker,
 } from '../history';
+import {
+  createDraftPersister,
+  deleteCanvasDraft,
+  getCanvasFingerprint,
+  loadCanvasDraft,
+  type CanvasDraft,
+  type CanvasDraftOptions,
+  type CanvasDraftRecovery,
+  type DraftPersister,
+} from '../drafts';
+import { diffCanvasJSON, isCanvasDiffEmpty, type CanvasDiff } from '../diff';
+import { groupObjects, ungroupObjects } from '../groups';
+import { enableContainment, type ContainmentOptions } from '../containment';
+import { applyCanvasLayers, enableLayers } from '../layers';
 import type { ModeSetup, CanvasJSON } from '../types';
 
 export interface UseEditCanvasOptions {
@@ -61,7 +103,14 @@ export interface UseEditCanvasOptions {
    */
   enableAlignment?: boolean;
   /**
-   * Enable double-click-to-vertex-edit on polygons.
+   * Show a grid and snap to it (see `enableGrid`). Pass `true` for defaults
+   * or options to set spacing, subdivisions, colors, or `snap: false` /
+   * `visible: false`. Reactive — changes are applied without remounting.
+   * Default: disabled.
+   */
+  grid?: boolean | GridOptions;
+  /**
+   * Enable double-click-to-vertex-edit on polygons, lines and polylines.
    * Pass `false` to disable, or a `VertexEditOptions` object to customize handle appearance.
    * Default: enabled.
    */
@@ -72,10 +121,46 @@ export interface UseEditCanvasOptions {
    */
   scaledStrokes?: boolean;
   /**
-   * Enable keyboard shortcuts (Delete/Backspace to delete selected objects).
-   * Pass `false` to disable. Default: enabled.
+   * Keep label font sizes visually constant as the user zooms in/out (see
+   * `enableScaledLabels`). Default: disabled.
+   */
+  scaledLabels?: boolean;
+  /**
+   * Keep icons created with `fixedSize: true` the same size on screen as the
+   * user zooms in/out (see `enableFixedSizeIcons`). Pass `false` to disable.
+   * Default: enabled.
+   */
+  fixedSizeIcons?: boolean;
+  /**
+   * Enable keyboard shortcuts while the canvas has focus (delete, select
+   * all, undo/redo, duplicate, group/ungroup, nudge, zoom — see
+   * `createKeymap`). Pass options to override or extend commands and
+   * bindings, or `false` to disable. Undo/redo and zoom are wired to the
+   * hook automatically.
+   * Default: enabled.
+   */
+  keyboardShortcuts?: boolean | KeymapOptions;
+  /**
+   * Enable copy, cut and paste (Ctrl/Cmd+C, X, V) while the canvas has
+   * focus, via the system clipboard so copies can be pasted into other tabs
+   * (see `createCanvasClipboard`). Pass options to set `generateId` for
+   * pasted objects or paste at the cursor, or `false` to disable. The
+   * `duplicate` shortcut uses the same options. Default: enabled.
+   */
+  clipboard?: boolean | CanvasClipboardOptions;
+  /**
+   * Move children along with their parent, e.g. desks with the zone they
+   * stand in (see `enableContainment`). Pass `true` to find children
+   * geometrically, or options to use `data.parentId` links or restrict
+   * which shapes can be parents. Default: disabled.
    */
-  keyboardShortcuts?: boolean;
+  containment?: boolean | ContainmentOptions;
+  /**
+   * Keep objects added or changed later shown, locked and stacked according
+   * to the canvas layers (see `enableLayers`). Pass `false` to disable.
+   * Default: enabled.
+   */
+  layers?: boolean;
   /** Called after the canvas is initialized and viewport is set up. */
   onReady?: (canvas: FabricCanvas) => void | Promise<void>;
   /**
@@ -106,11 +191,24 @@ export interface UseEditCanvasOptions {
    */
   borderRadius?: number | false;
   /**
-   * Enable snapshot-based undo/redo. Pass `true` for defaults, or an options
-   * object to customize `maxSize` (default: 50) and `debounce` (default: 300ms).
+   * Enable undo/redo. Pass `true` for defaults, or an options object to
+   * customize `maxSize` (default: 50) and `debounce` (default: 300ms).
    * Default: disabled.
    */
   history?: boolean | HistoryOptions;
+  /**
+   * Persist unsaved work to IndexedDB so it survives tab crashes and
+   * navigation. While `isDirty` is true, the canvas (and optionally the undo
+   * history) is written under `drafts.id` shortly after each change; the
+   * draft is deleted when `resetDirty()` is called, and later drafts start
+   * from the canvas as it was saved then.
+   *
+   * On mount, a draft stored under the same id that differs from
+   * `canvasData` is offered via `recoverableDraft`; call `recoverDraft()`
+   * or `discardDraft()`. Nothing is written until one of them is called.
+   * Default: disabled.
+   */
+  drafts?: CanvasDraftOptions;
   /**
    * Canvas data to load automatically after initialisation.
    * When provided, `loadCanvas` is called internally before the user's
@@ -157,10 +255,16 @@ export function useEditCanvas(options?: UseEditCanvasOptions) {
   const viewportRef = useRef<ViewportController | null>(null);
   const alignmentCleanupRef = useRef<(() => void) | null>(null);
   const rotationSnapCleanupRef = useRef<(() => void) | null>(null);
+  const gridCleanupRef = useRef<(() => void) | null>(null);
+  /** The `grid` option currently applied, serialized for change detection. */
+  const appliedGridRef = useRef<string | null>(null);
   const modeCleanupRef = useRef<(() => void) | null>(null);
   const vertexEditCleanupRef = useRef<(() => void) | null>(null);
-  const keyboardCleanupRef = useRef<(() => void) | null>(null);
+  const keymapRef = useRef<Keymap | null>(null);
+  const clipboardRef = useRef<CanvasClipboard | null>(null);
   const historyRef = useRef<HistoryTracker | null>(null);
+  const draftPersisterRef = useRef<DraftPersister | null>(null);
+  const pendingDraftRef = useRef<CanvasDraft | null>(null);
   const isInitialLoadRef = useRef(false);
   const optionsRef = useRef(options);
   optionsRef.current = options;
@@ -175,13 +279,20 @@ export function useEditCanvas(options?: UseEditCanvasOptions) {
   const [viewportMode, setViewportModeState] = useState<ViewportMode>('select');
   const [isEditingVertices, setIsEditingVertices] = useState(false);
   const [isDirty, setIsDirty] = useState(false);
+  const isDirtyRef = useRef(false);
+  isDirtyRef.current = isDirty;
   const [canUndo, setCanUndo] = useState(false);
   const [canRedo, setCanRedo] = useState(false);
+  const [historyEntries, setHistoryEntries] = useState<HistoryEntry[]>([]);
+  const [historyIndex, setHistoryIndex] = useState(-1);
+  const [recoverableDraft, setRecoverableDraft] =
+    useState<CanvasDraftRecovery | null>(null);
   const [objects, setObjects] = useState<FabricObject[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [lockLightMode, setLockLightModeState] = useState<boolean | undefined>(
     undefined,
   );
+  const [scale, setScaleState] = useState<CanvasScale | null>(null);
 
   /**
    * Activate an interaction mode, or pass `null` to return to select mode.
@@ -213,6 +324,8 @@ export function useEditCanvas(options?: UseEditCanvasOptions) {
         obj.selectable = saved?.selectable ?? true;
         obj.evented = saved?.evented ?? true;
       });
+      // Objects added during the mode may belong to locked or hidden layers.
+      applyCanvasLayers(canvas);
     } else {
       // Save current selectability before disabling
       canvas.forEachObject((obj) => {
@@ -233,6 +346,20 @@ export function useEditCanvas(options?: UseEditCanvasOptions) {
     }
   }, []);
 
+  /** Set up the grid for the `grid` option, replacing any previous one. */
+  function applyGrid(
+    canvas: FabricCanvas,
+    grid: boolean | GridOptions | undefined,
+  ) {
+    const key = JSON.stringify(grid ?? false);
+    if (key === appliedGridRef.current) return;
+    appliedGridRef.current = key;
+    gridCleanupRef.current?.();
+    gridCleanupRef.current = grid
+      ? enableGrid(canvas, typeof grid === 'object' ? grid : undefined)
+      : null;
+  }
+
   const onReady = useCallback(
     (canvas: FabricCanvas) => {
       canvasRef.current = canvas;
@@ -249,6 +376,14 @@ export function useEditCanvas(options?: UseEditCanvasOptions) {
           enableScaledStrokes(canvas);
         }
 
+        if (opts?.scaledLabels) {
+          enableScaledLabels(canvas);
+        }
+
+        if (opts?.fixedSizeIcons !== false) {
+          enableFixedSizeIcons(canvas);
+        }
+
         if (opts?.borderRadius !== false) {
           const borderRadiusOpts: ScaledBorderRadiusOptions | undefined =
             typeof opts?.borderRadius === 'number'
@@ -257,11 +392,52 @@ export function useEditCanvas(options?: UseEditCanvasOptions) {
           enableScaledBorderRadius(canvas, borderRadiusOpts);
         }
 
+        if (opts?.clipboard !== false) {
+          clipboardRef.current = createCanvasClipboard(canvas, {
+            borderRadius: opts?.borderRadius,
+            ...(typeof opts?.clipboard === 'object' && opts.clipboard),
+          });
+        }
+
         if (opts?.keyboardShortcuts !== false) {
-          keyboardCleanupRef.current = enableKeyboardShortcuts(canvas);
+          const keymapOpts =
+            typeof opts?.keyboardShortcuts === 'object'
+              ? opts.keyboardShortcuts
+              : undefined;
+          keymapRef.current = createKeymap(canvas, {
+            ...(clipboardRef.current && { clipboard: clipboardRef.current }),
+            ...(opts?.history && {
+              history: {
+                undo: async () => historyRef.current?.undo(),
+                redo: async () => historyRef.current?.redo(),
+              },
+            }),
+            ...(opts?.panAndZoom !== false && {
+              zoom: {
+                zoomIn: () => {
+                  viewportRef.current?.zoomIn();
+                  syncZoom(canvasRef, setZoom);
+                },
+                zoomOut: () => {
+                  viewportRef.current?.zoomOut();
+                  syncZoom(canvasRef, setZoom);
+                },
+                reset: () => {
+                  if (canvas.backgroundImage) {
+                    fitViewportToBackground(canvas);
+                  } else {
+                    resetViewportFn(canvas);
+                  }
+                  syncZoom(canvasRef, setZoom);
+                },
+              },
+            }),
+            ...keymapOpts,
+          });
         }
 
         setCanvasAlignmentEnabled(canvas, opts?.enableAlignment);
+        applyGrid(canvas, opts?.grid);
 
         if (opts?.panAndZoom !== false) {
           viewportRef.current = enablePanAndZoom(
@@ -290,10 +466,45 @@ export function useEditCanvas(options?: UseEditCanvasOptions) {
           );
         }
 
+        if (opts?.containment) {
+          enableContainment(
+            canvas,
+            typeof opts.containment === 'object' ? opts.containment : undefined,
+          );
+        }
+
+        if (opts?.layers !== false) {
+          enableLayers(canvas);
+        }
+
         if (opts?.history) {
           const historyOpts =
             typeof opts.history === 'object' ? opts.history : undefined;
-          historyRef.current = createHistoryTracker(canvas, historyOpts);
+          const syncHistoryState = () => {
+            const h = historyRef.current;
+            if (!h) return;
+            setCanUndo(h.canUndo());
+            setCanRedo(h.canRedo());
+            setHistoryEntries(h.getEntries());
+            setHistoryIndex(h.getIndex());
+          };
+          historyRef.current = createHistoryTracker(canvas, {
+            ...historyOpts,
+            onChange: () => {
+              syncHistoryState();
+              historyOpts?.onChange?.();
+            },
+          });
+        }
+
+        if (opts?.drafts) {
+          draftPersisterRef.current = createDraftPersister(canvas, {
+            ...opts.drafts,
+            baseFingerprint: opts.canvasData
+              ? getCanvasFingerprint(opts.canvasData)
+              : null,
+            getHistory: () => historyRef.current?.serialize(),
+          });
         }
       }
 
@@ -314,8 +525,30 @@ export function useEditCanvas(options?: UseEditCanvasOptions) {
           canvas.on('object:removed', markDirtyIfNotLoading);
           canvas.on('object:modified', markDirtyIfNotLoading);
           canvas.on('background:modified', markDirtyIfNotLoading);
+          canvas.on('scale:modified', markDirtyIfNotLoading);
+          canvas.on('layers:modified', markDirtyIfNotLoading);
+        }
+
+        if (opts?.drafts) {
+          // The first change is picked up by the isDirty effect below; later
+          // ones reschedule the write here.
+          const scheduleDraft = () => {
+            if (!isInitialLoadRef.current && isDirtyRef.current) {
+              draftPersisterRef.current?.schedule();
+            }
+          };
+          canvas.on('object:added', scheduleDraft);
+          canvas.on('object:removed', scheduleDraft);
+          canvas.on('object:modified', scheduleDraft);
+          canvas.on('background:modified', scheduleDraft);
+          canvas.on('scale:modified', scheduleDraft);
+          canvas.on('layers:modified', scheduleDraft);
         }
 
+        canvas.on('scale:modified', () =>
+          setScaleState(getCanvasScale(canvas)),
+        );
+
         // Keep `objects` state in sync when objects are added/removed after
         // the initial load so that consumers (e.g. overlay rendering) see
         // newly created or deleted objects immediately.
@@ -330,42 +563,28 @@ export function useEditCanvas(options?: UseEditCanvasOptions) {
           }
         });
 
-        if (opts?.history) {
-          const syncHistoryState = () => {
-            const h = historyRef.current;
-            if (!h) return;
-            setTimeout(() => {
-              setCanUndo(h.canUndo());
-              setCanRedo(h.canRedo());
-            }, 350);
-          };
-          canvas.on('object:added', syncHistoryState);
-          canvas.on('object:removed', syncHistoryState);
-          canvas.on('object:modified', syncHistoryState);
-          canvas.on('background:modified', syncHistoryState);
-        }
-
-        if (opts?.vertexEdit !== false) {
-          const vertexOpts =
-            typeof opts?.vertexEdit === 'object' ? opts.vertexEdit : undefined;
-          canvas.on('mouse:dblclick', (e) => {
-            if (e.target && e.target instanceof Polygon) {
-              vertexEditCleanupRef.current?.();
-              vertexEditCleanupRef.current = enableVertexEdit(
-                canvas,
-                e.target,
-                {
-                  ...vertexOpts,
-                  onExit: () => {
-                    vertexEditCleanupRef.current = null;
-                    setIsEditingVertices(false);
-                  },
-                },
-              );
-              setIsEditingVertices(true);
-            }
-          });
-        }
+        const vertexOpts =
+          typeof opts?.vertexEdit === 'object' ? opts.vertexEdit : undefined;
+        canvas.on('mouse:dblclick', (e) => {
+          // Interaction modes use double-click themselves (e.g. to finish
+          // a polyline), so only start editing outside them.
+          if (modeCleanupRef.current) return;
+          if (e.target instanceof IText && e.target.shapeType === 'label') {
+            startLabelEditing(e.target);
+            return;
+          }
+          if (opts?.vertexEdit !== false && e.target instanceof Polyline) {
+            vertexEditCleanupRef.current?.();
+            vertexEditCleanupRef.current = enableVertexEdit(canvas, e.target, {
+              ...vertexOpts,
+              onExit: () => {
+                vertexEditCleanupRef.current = null;
+                setIsEditingVertices(false);
+              },
+            });
+            setIsEditingVertices(true);
+          }
+        });
       }
 
       // --- Load canvasData, invoke consumer onReady, then finalise ---
@@ -404,7 +623,51 @@ export function useEditCanvas(options?: UseEditCanvasOptions) {
             fitViewportToBackground(canvas);
             syncZoom(canvasRef, setZoom);
           }
-          historyRef.current?.pushSnapshot();
+          historyRef.current?.clear();
+
+          if (opts?.drafts) await checkForDraft(opts.drafts);
+        });
+      }
+
+      // --- Look for a recoverable draft from a previous session ---
+
+      async function checkForDraft(draftOpts: CanvasDraftOptions) {
+        const persister = draftPersisterRef.current;
+        let draft: CanvasDraft | null = null;
+        try {
+          draft = await loadCanvasDraft(draftOpts.id);
+        } catch (error) {
+          draftOpts.onError?.(error);
+        }
+
+        let diff: CanvasDiff | null = null;
+        if (draft) {
+          try {
+            const base = opts?.canvasData ?? serializeCanvas(canvas);
+            diff = diffCanvasJSON(base, draft.canvas);
+          } catch (error) {
+            // E.g. a draft from a newer schema version: it can't be offered.
+            draftOpts.onError?.(error);
+          }
+        }
+        if (!draft || !diff || isCanvasDiffEmpty(diff)) {
+          if (draft) {
+            deleteCanvasDraft(draftOpts.id).catch((error) =>
+              draftOpts.onError?.(error),
+            );
+          }
+          persister?.resume();
+          return;
+        }
+
+        pendingDraftRef.current = draft;
+        setRecoverableDraft({
+          savedAt: draft.savedAt,
+          baseChanged:
+            draft.baseFingerprint !==
+            (opts?.canvasData ? getCanvasFingerprint(opts.canvasData) : null),
+          diff,
+          hasHistory: !!draft.history && !!historyRef.current,
         });
       }
     },
@@ -439,6 +702,14 @@ export function useEditCanvas(options?: UseEditCanvasOptions) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [options?.enableAlignment]);
 
+  // React to grid option changes
+  const gridKey = JSON.stringify(options?.grid ?? false);
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    applyGrid(canvas, optionsRef.current?.grid);
+  }, [gridKey]);
+
   // React to invertBackground changes after initial load
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -454,6 +725,11 @@ export function useEditCanvas(options?: UseEditCanvasOptions) {
     setLockLightModeState(value);
   }, []);
 
+  const setScale = useCallback((value: CanvasScale | null) => {
+    const canvas = canvasRef.current;
+    if (canvas) setCanvasScale(canvas, value);
+  }, []);
+
   const setViewportMode = useCallback((mode: ViewportMode) => {
     viewportRef.current?.setMode(mode);
     setViewportModeState(mode);
@@ -491,23 +767,137 @@ export function useEditCanvas(options?: UseEditCanvasOptions) {
     ],
   );
 
-  const resetDirty = useCallback(() => setIsDirty(false), []);
+  const getKeyBindings = useCallback(
+    (): KeyBindingInfo[] => keymapRef.current?.getBindings() ?? [],
+    [],
+  );
+
+  const copy = useCallback(() => clipboardRef.current?.copy() ?? false, []);
+
+  const cut = useCallback(() => clipboardRef.current?.cut() ?? false, []);
+
+  const paste = useCallback(
+    async (
+      data?: CanvasClipboardData,
+      pasteOpts?: Pick<PasteOptions, 'position'>,
+    ): Promise<FabricObject[]> =>
+      (await clipboardRef.current?.paste(data, pasteOpts)) ?? [],
+    [],
+  );
+
+  const duplicate = useCallback(
+    async (): Promise<FabricObject[]> =>
+      (await clipboardRef.current?.duplicate()) ?? [],
+    [],
+  );
+
+  const group = useCallback((): Group | null => {
+    const canvas = canvasRef.current;
+    return canvas ? groupObjects(canvas) : null;
+  }, []);
+
+  const ungroup = useCallback((): FabricObject[] => {
+    const canvas = canvasRef.current;
+    return canvas ? ungroupObjects(canvas) : [];
+  }, []);
+
+  const resetDirty = useCallback(() => {
+    // The saved canvas is what later drafts start from.
+    const canvas = canvasRef.current;
+    const persister = draftPersisterRef.current;
+    if (canvas && persister) {
+      persister.setBaseFingerprint(
+        getCanvasFingerprint(serializeCanvas(canvas)),
+      );
+    }
+    setIsDirty(false);
+  }, []);
   const markDirty = useCallback(() => setIsDirty(true), []);
 
+  // Write the draft while there are unsaved changes; delete it once saved.
+  useEffect(() => {
+    const persister = draftPersisterRef.current;
+    if (!persister) return;
+    if (isDirty) persister.schedule();
+    else persister.discard();
+  }, [isDirty]);
+
+  // Write any scheduled draft on unmount so the last changes are not lost.
+  useEffect(() => () => draftPersisterRef.current?.cleanup(), []);
+
+  const recoverDraft = useCallback(async () => {
+    const canvas = canvasRef.current;
+    const draft = pendingDraftRef.current;
+    if (!canvas || !draft) return;
+
+    const opts = optionsRef.current;
+    isInitialLoadRef.current = true;
+    try {
+      const loaded = await loadCanvas(canvas, draft.canvas, {
+        filter: opts?.filter,
+        borderRadius: opts?.borderRadius,
+      });
+      setObjects(loaded);
+    } finally {
+      isInitialLoadRef.current = false;
+    }
+    if (opts?.invertBackground !== undefined) {
+      setBackgroundInverted(canvas, opts.invertBackground);
+    }
+
+    const history = historyRef.current;
+    history?.clear();
+    if (history && draft.history) {
+      try {
+        await history.restore(draft.history, {
+          borderRadius: opts?.borderRadius,
+        });
+      } catch (error) {
+        // The canvas is recovered either way; only the undo steps are lost.
+        history.clear();
+        opts?.drafts?.onError?.(error);
+      }
+    }
+
+    pendingDraftRef.current = null;
+    setRecoverableDraft(null);
+    draftPersisterRef.current?.resume();
+    setIsDirty(true);
+  }, []);
+
+  const discardDraft = useCallback(async () => {
+    const draft = pendingDraftRef.current;
+    if (!draft) return;
+    pendingDraftRef.current = null;
+    setRecoverableDraft(null);
+    try {
+      await deleteCanvasDraft(draft.id);
+    } catch (error) {
+      optionsRef.current?.drafts?.onError?.(error);
+    } finally {
+      draftPersisterRef.current?.resume();
+      if (isDirtyRef.current) draftPersisterRef.current?.schedule();
+    }
+  }, []);
+
   const undo = useCallback(async () => {
-    const h = historyRef.current;
-    if (!h) return;
-    await h.undo();
-    setCanUndo(h.canUndo());
-    setCanRedo(h.canRedo());
+    await historyRef.current?.undo();
   }, []);
 
   const redo = useCallback(async () => {
-    const h = historyRef.current;
-    if (!h) return;
-    await h.redo();
-    setCanUndo(h.canUndo());
-    setCanRedo(h.canRedo());
+    await historyRef.current?.redo();
+  }, []);
+
+  const jumpTo = useCallback(async (index: number) => {
+    await historyRef.current?.jumpTo(index);
+  }, []);
+
+  const beginTransaction = useCallback((label?: string) => {
+    historyRef.current?.beginTransaction(label);
+  }, []);
+
+  const commit = useCallback(() => {
+    historyRef.current?.commit();
   }, []);
 
   const setBackground = useCallback(
@@ -594,10 +984,57 @@ export function useEditCanvas(options?: UseEditCanvasOptions) {
       canUndo,
       /** Whether a redo operation is available (reactive). Requires `history: true`. */
       canRedo,
+      /** Undo steps, oldest first, including those that can be redone (reactive). Requires `history: true`. */
+      historyEntries,
+      /** Index in `historyEntries` of the step the canvas currently reflects, or `-1` before the first (reactive). Requires `history: true`. */
+      historyIndex,
+      /** Undo or redo to the step at `index` in `historyEntries` (`-1` for the initial state). Requires `history: true`. */
+      jumpTo,
+      /**
+       * Group all changes until `commit()` into one undo step with the given
+       * label (e.g. drawing a polygon, then assigning its data). Requires `history: true`.
+       */
+      beginTransaction,
+      /** Close the transaction opened by `beginTransaction()`. Requires `history: true`. */
+      commit,
+      /**
+       * A draft from a previous session that differs from `canvasData`, or
+       * `null` (reactive). Requires `drafts`. Draft writing is paused until
+       * `recoverDraft()` or `discardDraft()` is called.
+       */
+      recoverableDraft,
+      /** Load the recoverable draft (and its undo history, if stored) and mark the canvas dirty. */
+      recoverDraft,
+      /** Delete the recoverable draft and keep the loaded `canvasData`. */
+      discardDraft,
+      /** Current keyboard shortcut bindings with their labels, e.g. for a help dialog. Empty when `keyboardShortcuts` is disabled. */
+      getKeyBindings,
+      /** Copy the selected objects. Returns `false` if nothing is selected or `clipboard` is disabled. */
+      copy,
+      /** Copy and delete the selected objects. Returns `false` if nothing is selected or `clipboard` is disabled. */
+      cut,
+      /**
+       * Paste the last objects copied in this page (or `data`), with new ids.
+       * Pass `{ position: { x, y } }` to centre them on a scene point.
+       */
+      paste,
+      /** Duplicate the selection with new ids, offset from the originals. */
+      duplicate,
+      /** Group the selected objects (see `groupObjects`). Returns the group, or `null` if fewer than two objects are selected. */
+      group,
+      /** Dissolve the selected groups (see `ungroupObjects`). Returns the released objects. */
+      ungroup,
       /** Whether the canvas is locked to light mode. Read from loaded canvas data. */
       lockLightMode,
       /** Update lockLightMode on both the canvas instance and React state. */
       setLockLightMode,
+      /**
+       * Real-world scale of the canvas, or `null` if it is not calibrated
+       * (reactive). Read from loaded canvas data and saved with it.
+       */
+      scale,
+      /** Set or clear the real-world scale, e.g. from a settings form. See also `enableCalibration`. */
+      setScale,
     }),
     // Only reactive state in deps — refs and stable callbacks are omitted
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -611,7 +1048,11 @@ export function useEditCanvas(options?: UseEditCanvasOptions) {
       isDirty,
       canUndo,
       canRedo,
+      historyEntries,
+      historyIndex,
+      recoverableDraft,
       lockLightMode,
+      scale,
     ],
   );
 }
@@ -12,6 +12,8 @@ import {
   type ScaledBorderRadiusOptions,
 } from '../serialization';
 import { fitViewportToBackground, setBackgroundInverted } from '../background';
+import { getCanvasScale, type CanvasScale } from '../scale';
+import { enableFixedSizeIcons, enableScaledLabels } from '../shapes';
 import { useViewportActions, syncZoom } from './shared';
 import type { CanvasJSON } from '../types';
 
@@ -32,6 +34,17 @@ export interface UseViewCanvasOptions {
    * Pass `false` to disable. Default: enabled.
    */
   scaledStrokes?: boolean;
+  /**
+   * Keep label font sizes visually constant as the user zooms in/out (see
+   * `enableScaledLabels`). Default: disabled.
+   */
+  scaledLabels?: boolean;
+  /**
+   * Keep icons created with `fixedSize: true` the same size on screen as the
+   * user zooms in/out (see `enableFixedSizeIcons`). Pass `false` to disable.
+   * Default: enabled.
+   */
+  fixedSizeIcons?: boolean;
   /** Called after the canvas is initialized and viewport is set up. */
   onReady?: (canvas: FabricCanvas) => void | Promise<void>;
   /**
@@ -100,6 +113,7 @@ export function useViewCanvas(options?: UseViewCanvasOptions) {
   const [lockLightMode, setLockLightMode] = useState<boolean | undefined>(
     undefined,
   );
+  const [scale, setScale] = useState<CanvasScale | null>(null);
 
   const onReady = useCallback(
     (canvas: FabricCanvas) => {
@@ -110,6 +124,14 @@ export function useViewCanvas(options?: UseViewCanvasOptions) {
         enableScaledStrokes(canvas);
       }
 
+      if (opts?.scaledLabels) {
+        enableScaledLabels(canvas);
+      }
+
+      if (opts?.fixedSizeIcons !== false) {
+        enableFixedSizeIcons(canvas);
+      }
+
       if (opts?.borderRadius !== false) {
         const borderRadiusOpts: ScaledBorderRadiusOptions | undefined =
           typeof opts?.borderRadius === 'number'
@@ -166,6 +188,7 @@ export function useViewCanvas(options?: UseViewCanvasOptions) {
         if (canvas.lockLightMode !== undefined) {
           setLockLightMode(canvas.lockLightMode);
         }
+        setScale(getCanvasScale(canvas));
 
         if (opts?.invertBackground !== undefined) {
           setBackgroundInverted(
@@ -288,9 +311,11 @@ export function useViewCanvas(options?: UseViewCanvasOptions) {
       setObjectStyleByType,
       /** Whether the canvas is locked to light mode. Read from loaded canvas data. */
       lockLightMode,
+      /** Real-world scale of the canvas, or `null` if it is not calibrated. Read from loaded canvas data. */
+      scale,
     }),
     // Only reactive state in deps — refs and stable callbacks are omitted
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    [zoom, objects, isLoading, viewport, lockLightMode],
+    [zoom, objects, isLoading, viewport, lockLightMode, scale],
   );
 }
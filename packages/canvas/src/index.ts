@@ -1,6 +1,8 @@
-// Fabric.js module augmentation — adds `shapeType`, `data`, and `lockLightMode`
-// to FabricObject/Canvas. Importing here ensures the augmentation is emitted in
-// the dist and automatically applied for consumers of the package.
+// Fabric.js module augmentation — adds `shapeType`, `thickness`, `tint`,
+// `fixedSize`, `bulges`, `data`, `lockLightMode` and `realWorldScale` to
+// FabricObject/Canvas. Importing here
+// ensures the augmentation is emitted in the dist and automatically applied
+// for consumers of the package.
 import './fabricAugmentation';
 
 // --- Component ---
@@ -18,6 +20,8 @@ export { useCanvasTooltip } from './hooks';
 export type { UseCanvasTooltipOptions, CanvasTooltipState } from './hooks';
 export { useCanvasClick } from './hooks';
 export type { UseCanvasClickOptions } from './hooks';
+export { useCanvasLayers } from './hooks';
+export type { CanvasLayersState } from './hooks';
 // --- Context ---
 export { EditCanvasProvider, useEditCanvasContext } from './context';
 export { useEditCanvasViewport, useEditCanvasState } from './context';
@@ -61,6 +65,7 @@ export type {
   CanvasJSON,
 } from './types';
 export type { ObjectDataType } from './fabricAugmentation';
+export { OBJECT_DATA_TYPES } from './fabricAugmentation';
 
 // --- Shapes ---
 export {
@@ -79,8 +84,40 @@ export {
   createPolygonFromDrag,
   createPolygonFromVertices,
   editPolygon,
+  getPolygonOutline,
+  getBulgeThroughPoint,
+} from './shapes';
+export type { PolygonOptions, PolygonOutlineOptions } from './shapes';
+
+export { createLine, createPolyline, editPolyline } from './shapes';
+export type { LineStyleOptions, PolylineOptions } from './shapes';
+
+export {
+  createLabel,
+  createLabelAtPoint,
+  editLabel,
+  startLabelEditing,
+  enableScaledLabels,
+} from './shapes';
+export type {
+  LabelOptions,
+  LabelAtPointOptions,
+  LabelStyleOptions,
+} from './shapes';
+
+export {
+  createIcon,
+  createIconAtPoint,
+  editIcon,
+  enableFixedSizeIcons,
+} from './shapes';
+export type {
+  IconOptions,
+  IconAtPointOptions,
+  IconStyleOptions,
+  IconSource,
+  IconPaletteColor,
 } from './shapes';
-export type { PolygonOptions } from './shapes';
 
 // --- Interactions ---
 export { enableClickToCreate } from './interactions';
@@ -88,8 +125,14 @@ export { enableDragToCreate } from './interactions';
 export type { DragToCreateOptions } from './interactions';
 export { enableDrawToCreate } from './interactions';
 export type { DrawToCreateOptions } from './interactions';
+export { enableDrawPolyline } from './interactions';
+export type { DrawPolylineOptions } from './interactions';
 export { enableVertexEdit } from './interactions';
 export type { VertexEditOptions } from './interactions';
+export { enableCalibration } from './interactions';
+export type { CalibrationOptions, CalibrationLine } from './interactions';
+export { enableMeasure } from './interactions';
+export type { MeasureOptions, MeasureStyle, Measurement } from './interactions';
 
 // --- Viewport ---
 export { enablePanAndZoom, resetViewport } from './viewport';
@@ -115,18 +158,142 @@ export type {
   GuidelineStyle,
 } from './alignment';
 
+// --- Grid ---
+export { enableGrid, snapPointToGrid } from './grid';
+export type { GridOptions, SnapGrid } from './grid';
+
+// --- Scale ---
+export {
+  getCanvasScale,
+  setCanvasScale,
+  createScaleFromLength,
+  parseLength,
+  convertLength,
+  isCanvasScale,
+  isRealLength,
+  toRealLength,
+  toSceneLength,
+  toRealArea,
+  formatLength,
+  formatArea,
+  measureShape,
+} from './scale';
+export type {
+  CanvasScale,
+  LengthUnit,
+  RealLength,
+  FormatMeasureOptions,
+} from './scale';
+
+// --- Geometry ---
+export {
+  unionPolygons,
+  subtractPolygons,
+  intersectPolygons,
+  splitPolygon,
+} from './geometry';
+export type {
+  PolygonOperation,
+  PolygonOperationContext,
+  PolygonOperationOptions,
+} from './geometry';
+
+// --- Groups ---
+export { groupObjects, ungroupObjects, isObjectGroup } from './groups';
+export type { GroupObjectsOptions, UngroupObjectsOptions } from './groups';
+export {
+  enableContainment,
+  getParentObject,
+  getChildObjects,
+  getDescendantObjects,
+  setParentObject,
+} from './containment';
+export type { ContainmentMode, ContainmentOptions } from './containment';
+
+// --- Layers ---
+export {
+  setCanvasLayers,
+  getCanvasLayers,
+  updateCanvasLayer,
+  moveCanvasLayer,
+  isCanvasLayers,
+  getObjectLayer,
+  getLayerObjects,
+  setObjectLayer,
+  applyCanvasLayers,
+  enableLayers,
+} from './layers';
+export type { CanvasLayer } from './layers';
+
+// --- Rulers ---
+export { CanvasRulers } from './rulers';
+export type { CanvasRulersProps, RulerStyle } from './rulers';
+export { setCanvasGuides, getCanvasGuides } from './guides';
+export type { CanvasGuide } from './guides';
+
 // --- Keyboard ---
-export { deleteObjects, enableKeyboardShortcuts } from './keyboard';
+export {
+  deleteObjects,
+  enableKeyboardShortcuts,
+  createKeymap,
+  formatChord,
+  DEFAULT_KEY_BINDINGS,
+} from './keyboard';
+export type {
+  KeyboardCommand,
+  KeyBindingInfo,
+  Keymap,
+  KeymapOptions,
+  NudgeOptions,
+} from './keyboard';
+
+// --- Clipboard ---
+export {
+  createCanvasClipboard,
+  copyObjects,
+  pasteObjects,
+  duplicateObjects,
+  isCanvasClipboardData,
+  CANVAS_CLIPBOARD_MIME_TYPE,
+} from './clipboard';
+export type {
+  CanvasClipboard,
+  CanvasClipboardData,
+  CanvasClipboardOptions,
+  ObjectData,
+  PasteOptions,
+} from './clipboard';
 
 // --- History ---
 export { createHistoryTracker } from './history';
-export type { HistoryOptions, HistoryTracker } from './history';
+export type {
+  HistoryEntry,
+  HistoryOptions,
+  HistoryTracker,
+  RestoreHistoryOptions,
+  SerializedHistory,
+  SerializedHistoryOperation,
+} from './history';
+
+// --- Drafts ---
+export {
+  saveCanvasDraft,
+  loadCanvasDraft,
+  deleteCanvasDraft,
+  getCanvasFingerprint,
+} from './drafts';
+export type {
+  CanvasDraft,
+  CanvasDraftOptions,
+  CanvasDraftRecovery,
+} from './drafts';
 
 // --- Serialization ---
 export {
   enableScaledStrokes,
   enableScaledBorderRadius,
   serializeCanvas,
+  serializeObjects,
   loadCanvas,
   getBaseStrokeWidth,
 } from './serialization';
@@ -135,6 +302,77 @@ export type {
   LoadCanvasOptions,
   ScaledBorderRadiusOptions,
 } from './serialization';
+export {
+  CANVAS_SCHEMA_VERSION,
+  migrateCanvasJSON,
+  getCanvasSchemaVersion,
+  getCanvasMigrations,
+  registerCanvasMigration,
+} from './migrations';
+export type { CanvasMigration } from './migrations';
+export { validateCanvasJSON, repairCanvasJSON } from './validation';
+export { diffCanvasJSON, isCanvasDiffEmpty, applyCanvasPatch } from './diff';
+export type {
+  CanvasDiff,
+  CanvasChangeKind,
+  CanvasPropertyChange,
+  CanvasObjectAddition,
+  CanvasObjectRemoval,
+  CanvasObjectModification,
+  ApplyCanvasPatchOptions,
+  CanvasPatchResult,
+} from './diff';
+export type {
+  CanvasValidationIssue,
+  CanvasValidationResult,
+  CanvasValidationSeverity,
+  CanvasRepairResult,
+  ValidateCanvasOptions,
+} from './validation';
+
+// --- Export ---
+export { exportCanvasSvg, exportCanvasImage } from './export';
+export type {
+  ExportSvgOptions,
+  ExportImageOptions,
+  ExportRegion,
+} from './export';
+export { exportGeoJSON, importGeoJSON } from './geojson';
+export type {
+  GeoJSONFeatureCollection,
+  GeoJSONFeature,
+  GeoJSONPolygon,
+  GeoJSONPoint,
+  GeoJSONPosition,
+  GeoJSONTransform,
+  GeoJSONExportOptions,
+  GeoJSONImportOptions,
+} from './geojson';
+
+// --- DXF ---
+export {
+  parseDxf,
+  getDxfPolylinePoints,
+  getDxfBounds,
+  getDxfPlacement,
+  rasterizeDxf,
+  importDxfPolygons,
+} from './dxf';
+export type {
+  DxfDocument,
+  DxfEntity,
+  DxfLine,
+  DxfPolyline,
+  DxfPolylineVertex,
+  DxfCircle,
+  DxfText,
+  DxfBounds,
+  DxfPlacement,
+  DxfPlacementOptions,
+  RasterizeDxfOptions,
+  RasterizedDxf,
+  ImportDxfPolygonsOptions,
+} from './dxf';
 
 // --- Background ---
 export {
@@ -159,9 +397,15 @@ export {
   DEFAULT_CONTROL_STYLE,
   DEFAULT_SHAPE_STYLE,
   DEFAULT_CIRCLE_STYLE,
+  DEFAULT_LINE_STYLE,
+  DEFAULT_LABEL_STYLE,
+  DEFAULT_ICON_STYLE,
   DEFAULT_DRAG_SHAPE_STYLE,
   DEFAULT_GUIDELINE_SHAPE_STYLE,
   DEFAULT_ALIGNMENT_STYLE,
+  DEFAULT_GRID_STYLE,
+  DEFAULT_MEASURE_STYLE,
+  DEFAULT_RULER_STYLE,
 } from './styles';
 
 // --- Fabric re-exports ---
@@ -171,8 +415,11 @@ export {
   Canvas as FabricCanvas,
   FabricObject,
   FabricImage,
+  Group,
   Rect,
   Polygon,
+  Polyline,
+  IText,
   Point,
   util,
 } from 'fabric';
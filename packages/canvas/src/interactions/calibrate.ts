@@ -0,0 +1,229 @@
+import { Canvas as FabricCanvas, Line } from 'fabric';
+import type {
+  Point2D,
+  ShapeStyleOptions,
+  SnappableInteractionOptions,
+} from '../types';
+import { DEFAULT_GUIDELINE_SHAPE_STYLE } from '../styles';
+import { MIN_DRAG_SIZE } from '../constants';
+import {
+  createScaleFromLength,
+  isRealLength,
+  parseLength,
+  setCanvasScale,
+  type CanvasScale,
+  type RealLength,
+} from '../scale';
+import { restoreViewport } from './shared';
+import { createInteractionSnapping } from './interactionSnapping';
+
+/** The reference line drawn in calibration mode, in scene coordinates. */
+export interface CalibrationLine {
+  start: Point2D;
+  end: Point2D;
+  /** Length of the line in scene units. */
+  sceneLength: number;
+}
+
+export interface CalibrationOptions extends Omit<
+  SnappableInteractionOptions,
+  'onCreated'
+> {
+  /**
+   * Called when the reference line is drawn. Return its real length — a
+   * string such as `"5.2 m"` (see `parseLength`) or a `RealLength` — or a
+   * promise of one, e.g. from a dialog. Return `null` to discard the line.
+   * Strings that cannot be read and lengths that are not positive are
+   * discarded as well.
+   */
+  getLength: (
+    line: CalibrationLine,
+  ) =>
+    | string
+    | RealLength
+    | null
+    | Promise<string | RealLength | null | undefined>;
+  /** Called after the canvas scale has been set from a line. */
+  onCalibrated?: (scale: CanvasScale) => void;
+  /**
+   * Called when the user cancels via Escape, or when the promise from
+   * `getLength` rejects (e.g. the dialog was dismissed).
+   */
+  onCancel?: () => void;
+  /**
+   * Called when a length cannot be applied, e.g. an error thrown while
+   * setting the scale. Without it such errors are ignored.
+   */
+  onError?: (error: unknown) => void;
+  /** Style applied to the reference line. */
+  lineStyle?: ShapeStyleOptions;
+}
+
+/**
+ * Enable calibration mode.
+ * The user draws a reference line over a known distance on the background —
+ * by dragging, or by clicking its two ends — and `getLength` supplies its
+ * real length. The canvas scale is then set with `setCanvasScale`, so it is
+ * saved by `serializeCanvas`.
+ *
+ * The mode stays active after a calibration so the line can be redrawn; call
+ * the returned cleanup function (or `setMode(null)`) to leave it.
+ */
+export function enableCalibration(
+  canvas: FabricCanvas,
+  options: CalibrationOptions,
+): () => void {
+  let start: Point2D | null = null;
+  let end: Point2D | null = null;
+  let pending = false;
+  let line: Line | null = null;
+  let previousSelection = canvas.selection;
+
+  const snapping = createInteractionSnapping(canvas, options);
+
+  options.viewport?.setEnabled(false);
+
+  const lineStyle = {
+    stroke: options.lineStyle?.stroke ?? DEFAULT_GUIDELINE_SHAPE_STYLE.stroke,
+    strokeWidth:
+      options.lineStyle?.strokeWidth ??
+      DEFAULT_GUIDELINE_SHAPE_STYLE.strokeWidth,
+    strokeDashArray: DEFAULT_GUIDELINE_SHAPE_STYLE.strokeDashArray,
+    strokeUniform: true,
+    selectable: false,
+    evented: false,
+    excludeFromExport: true,
+  };
+
+  const removeLine = () => {
+    if (!line) return;
+    snapping.excludeSet.delete(line);
+    canvas.remove(line);
+    line = null;
+  };
+
+  const updateLine = (point: Point2D) => {
+    if (!start) return;
+    end = point;
+    removeLine();
+    line = new Line([start.x, start.y, point.x, point.y], lineStyle);
+    snapping.excludeSet.add(line);
+    canvas.add(line);
+    canvas.requestRenderAll();
+  };
+
+  const reset = () => {
+    removeLine();
+    start = null;
+    end = null;
+    snapping.clearSnapResult();
+    canvas.selection = previousSelection;
+    canvas.requestRenderAll();
+  };
+
+  const finish = async () => {
+    if (!start || !end) return;
+    const sceneLength = Math.hypot(end.x - start.x, end.y - start.y);
+    pending = true;
+    snapping.clearSnapResult();
+    canvas.requestRenderAll();
+
+    let length: string | RealLength | null | undefined;
+    let cancelled = false;
+    try {
+      length = await options.getLength({
+        start: { ...start },
+        end: { ...end },
+        sceneLength,
+      });
+    } catch {
+      // A rejected prompt (e.g. a dismissed dialog) cancels the line.
+      cancelled = true;
+    } finally {
+      pending = false;
+      if (!exited) reset();
+    }
+    if (exited) return;
+    if (cancelled) {
+      options.onCancel?.();
+      return;
+    }
+    if (!length || sceneLength <= 0) return;
+
+    const real = typeof length === 'string' ? parseLength(length) : length;
+    if (!isRealLength(real)) return;
+    try {
+      const scale = createScaleFromLength(sceneLength, real);
+      setCanvasScale(canvas, scale);
+      options.onCalibrated?.(scale);
+    } catch (error) {
+      options.onError?.(error);
+    }
+  };
+
+  const handleMouseDown = (event: { scenePoint: Point2D }) => {
+    if (pending) return;
+    const snapped = snapping.snap(event.scenePoint.x, event.scenePoint.y);
+
+    // Second click of a click-click line
+    if (start) {
+      updateLine(snapped);
+      void finish();
+      return;
+    }
+
+    previousSelection = canvas.selection;
+    canvas.selection = false;
+    start = snapped;
+    end = snapped;
+  };
+
+  const handleMouseMove = (event: { scenePoint: Point2D }) => {
+    if (pending || !start) return;
+    const point = snapping.snapWithGuidelines(
+      event.scenePoint.x,
+      event.scenePoint.y,
+    );
+    updateLine(point);
+  };
+
+  const handleMouseUp = () => {
+    if (pending || !start || !end) return;
+    const zoom = canvas.getZoom();
+    const dx = Math.abs(end.x - start.x) * zoom;
+    const dy = Math.abs(end.y - start.y) * zoom;
+    if (dx >= MIN_DRAG_SIZE || dy >= MIN_DRAG_SIZE) void finish();
+    // Otherwise it was a click: wait for the second click.
+  };
+
+  // Cancel on Escape (capture phase to prevent other handlers)
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape' && start && !pending) {
+      e.stopImmediatePropagation();
+      e.preventDefault();
+      reset();
+      options.onCancel?.();
+    }
+  };
+
+  canvas.on('mouse:down', handleMouseDown);
+  canvas.on('mouse:move', handleMouseMove);
+  canvas.on('mouse:up', handleMouseUp);
+  document.addEventListener('keydown', handleKeyDown, true);
+
+  let exited = false;
+
+  return () => {
+    if (exited) return;
+    exited = true;
+
+    canvas.off('mouse:down', handleMouseDown);
+    canvas.off('mouse:move', handleMouseMove);
+    canvas.off('mouse:up', handleMouseUp);
+    document.removeEventListener('keydown', handleKeyDown, true);
+
+    if (start) reset();
+    snapping.cleanup();
+    restoreViewport(options.viewport);
+  };
+}
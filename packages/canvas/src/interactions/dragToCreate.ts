@@ -105,6 +105,7 @@ export function enableDragToCreate(
       ...options?.previewStyle,
       selectable: false,
       evented: false,
+      excludeFromExport: true,
     });
     snapping.excludeSet.add(previewRect);
     canvas.add(previewRect);
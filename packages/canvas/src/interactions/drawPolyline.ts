@@ -0,0 +1,293 @@
+import {
+  Canvas as FabricCanvas,
+  Circle,
+  FabricObject,
+  Point,
+  Polyline,
+} from 'fabric';
+import type { Point2D, SnappableInteractionOptions } from '../types';
+import { createLine, createPolyline, type LineStyleOptions } from '../shapes';
+import { DEFAULT_LINE_STYLE, DEFAULT_SHAPE_STYLE } from '../styles';
+import { DEFAULT_ANGLE_SNAP_INTERVAL, MIN_DRAG_SIZE } from '../constants';
+import { isEditableTarget } from '../focus';
+import {
+  restoreViewport,
+  createShiftKeyTracker,
+  snapAngleToInterval,
+  snapAlongRay,
+} from './shared';
+import { createInteractionSnapping } from './interactionSnapping';
+
+export interface DrawPolylineOptions extends SnappableInteractionOptions {
+  /** Style applied to the line being drawn, including its `thickness`. */
+  style?: LineStyleOptions;
+  /**
+   * Metadata to attach to the created line. Takes precedence over
+   * `style.data` if both are specified.
+   */
+  data?: FabricObject['data'];
+  /**
+   * Finish automatically once this many points have been placed, e.g. `2`
+   * for a straight-line tool. Default: no limit.
+   */
+  maxPoints?: number;
+  /**
+   * Factory function to create the final object from placed points.
+   * Default: `createLine` for two points, `createPolyline` otherwise.
+   */
+  factory?: (canvas: FabricCanvas, points: Point2D[]) => FabricObject;
+  /**
+   * Snap points to multiples of `interval` degrees from the previous point
+   * when Shift is held. Pass `false` to disable. Default: enabled at 15°
+   * intervals.
+   */
+  angleSnap?: boolean | { interval?: number };
+  /** Called when the user cancels drawing via Escape. */
+  onCancel?: () => void;
+}
+
+/**
+ * Enable draw mode for open lines and polylines, e.g. walls and partitions.
+ * Click to place points; a preview in the final style (including its
+ * thickness) follows the cursor. Double-click or press Enter to finish once
+ * at least 2 points have been placed. Backspace removes the last point and
+ * Escape cancels.
+ *
+ * Two points create a line (`createLine`), more a polyline
+ * (`createPolyline`). Points snap like the other interaction modes, with the
+ * placed points as extra snap targets.
+ *
+ * Returns a cleanup function that disables the mode.
+ */
+export function enableDrawPolyline(
+  canvas: FabricCanvas,
+  options?: DrawPolylineOptions,
+): () => void {
+  let exited = false;
+
+  const angleSnapEnabled = options?.angleSnap !== false;
+  const angleInterval =
+    typeof options?.angleSnap === 'object'
+      ? (options.angleSnap.interval ?? DEFAULT_ANGLE_SNAP_INTERVAL)
+      : DEFAULT_ANGLE_SNAP_INTERVAL;
+
+  const points: Point2D[] = [];
+  const markers: Circle[] = [];
+  let preview: Polyline | null = null;
+  let cursor: Point2D | null = null;
+  let previousSelection: boolean;
+
+  const shiftTracker = createShiftKeyTracker(() => {
+    if (cursor) updatePreview(cursor);
+  });
+
+  // Placed points are additional snap targets.
+  const snapping = createInteractionSnapping(canvas, options, () =>
+    points.map((p) => new Point(p.x, p.y)),
+  );
+
+  options?.viewport?.setEnabled(false);
+
+  const { thickness, ...style } = options?.style ?? {};
+  const previewStyle = {
+    ...DEFAULT_LINE_STYLE,
+    ...style,
+    ...(thickness !== undefined && { strokeWidth: thickness }),
+    fill: '',
+    opacity: 0.6,
+    selectable: false,
+    evented: false,
+    excludeFromExport: true,
+  };
+
+  /** Snap a cursor position, constrained to the angle grid while Shift is held. */
+  const snapPoint = (point: Point2D, withGuidelines: boolean): Point2D => {
+    const doSnap = (x: number, y: number) =>
+      withGuidelines ? snapping.snapWithGuidelines(x, y) : snapping.snap(x, y);
+    if (angleSnapEnabled && shiftTracker.held && points.length > 0) {
+      const ref = points[points.length - 1];
+      const angleSnapped = snapAngleToInterval(point, ref, angleInterval);
+      return snapAlongRay(angleSnapped, ref, doSnap);
+    }
+    return doSnap(point.x, point.y);
+  };
+
+  const removePreview = () => {
+    if (!preview) return;
+    canvas.remove(preview);
+    snapping.excludeSet.delete(preview);
+    preview = null;
+  };
+
+  const removePreviewElements = () => {
+    removePreview();
+    for (const marker of markers) {
+      canvas.remove(marker);
+      snapping.excludeSet.delete(marker);
+    }
+    markers.length = 0;
+  };
+
+  /** Redraw the preview through the placed points and the cursor. */
+  const updatePreview = (at: Point2D | null) => {
+    removePreview();
+    const previewPoints = at ? [...points, snapPoint(at, true)] : points;
+    if (previewPoints.length >= 2) {
+      preview = new Polyline(
+        previewPoints.map((p) => ({ x: p.x, y: p.y })),
+        previewStyle,
+      );
+      snapping.excludeSet.add(preview);
+      canvas.add(preview);
+    }
+    canvas.requestRenderAll();
+  };
+
+  const finalize = () => {
+    if (points.length < 2) return false;
+    removePreviewElements();
+    snapping.clearSnapResult();
+
+    const styleWithData = {
+      ...options?.style,
+      ...(options?.data != null && { data: options.data }),
+    };
+    const placed = [...points];
+    points.length = 0;
+    const obj = options?.factory
+      ? options.factory(canvas, placed)
+      : placed.length === 2
+        ? createLine(canvas, placed[0], placed[1], styleWithData)
+        : createPolyline(canvas, { ...styleWithData, points: placed });
+    canvas.selection = previousSelection;
+    canvas.requestRenderAll();
+
+    restoreViewport(options?.viewport);
+    options?.onCreated?.(obj);
+    return true;
+  };
+
+  const placePoint = (point: Point2D) => {
+    if (points.length === 0) {
+      previousSelection = canvas.selection;
+      canvas.selection = false;
+    }
+    points.push(point);
+
+    const marker = new Circle({
+      left: point.x,
+      top: point.y,
+      radius: 4,
+      fill: DEFAULT_SHAPE_STYLE.stroke,
+      stroke: DEFAULT_SHAPE_STYLE.stroke,
+      strokeWidth: 1,
+      strokeUniform: true,
+      selectable: false,
+      evented: false,
+      excludeFromExport: true,
+    });
+    markers.push(marker);
+    snapping.excludeSet.add(marker);
+    canvas.add(marker);
+
+    if (
+      options?.maxPoints !== undefined &&
+      points.length >= options.maxPoints
+    ) {
+      finalize();
+      return;
+    }
+    updatePreview(null);
+  };
+
+  const removeLastPoint = () => {
+    points.pop();
+    const marker = markers.pop();
+    if (marker) {
+      canvas.remove(marker);
+      snapping.excludeSet.delete(marker);
+    }
+    if (points.length === 0) canvas.selection = previousSelection;
+    updatePreview(cursor);
+  };
+
+  const handleMouseDown = (event: { scenePoint: Point2D }) => {
+    const point = snapPoint(event.scenePoint, false);
+    snapping.clearSnapResult();
+
+    // Ignore the second click of a double-click.
+    if (points.length > 0) {
+      const last = points[points.length - 1];
+      const zoom = canvas.getZoom();
+      if (
+        Math.abs(point.x - last.x) * zoom < MIN_DRAG_SIZE &&
+        Math.abs(point.y - last.y) * zoom < MIN_DRAG_SIZE
+      ) {
+        return;
+      }
+    }
+    placePoint(point);
+  };
+
+  const handleMouseMove = (event: { scenePoint: Point2D }) => {
+    cursor = event.scenePoint;
+    if (points.length === 0) {
+      snapping.snapWithGuidelines(cursor.x, cursor.y);
+      return;
+    }
+    updatePreview(cursor);
+  };
+
+  const handleDoubleClick = () => {
+    finalize();
+  };
+
+  // Capture phase so these keys don't also reach the keyboard shortcuts.
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (isEditableTarget(e.target)) return;
+    let handled = true;
+    if (e.key === 'Escape') {
+      cleanup('cancel');
+    } else if (e.key === 'Enter') {
+      handled = finalize();
+    } else if (e.key === 'Backspace' && points.length > 0) {
+      removeLastPoint();
+    } else {
+      handled = false;
+    }
+    if (handled) {
+      e.stopImmediatePropagation();
+      e.preventDefault();
+    }
+  };
+
+  canvas.on('mouse:down', handleMouseDown);
+  canvas.on('mouse:move', handleMouseMove);
+  canvas.on('mouse:dblclick', handleDoubleClick);
+  document.addEventListener('keydown', handleKeyDown, true);
+
+  function cleanup(reason?: 'cancel') {
+    if (exited) return;
+    exited = true;
+
+    canvas.off('mouse:down', handleMouseDown);
+    canvas.off('mouse:move', handleMouseMove);
+    canvas.off('mouse:dblclick', handleDoubleClick);
+    document.removeEventListener('keydown', handleKeyDown, true);
+    shiftTracker.cleanup();
+
+    snapping.cleanup();
+    removePreviewElements();
+
+    if (points.length > 0) canvas.selection = previousSelection;
+    points.length = 0;
+    canvas.requestRenderAll();
+    restoreViewport(options?.viewport);
+
+    if (reason === 'cancel') {
+      options?.onCancel?.();
+    }
+  }
+
+  return () => cleanup();
+}
@@ -4,14 +4,20 @@ import {
   FabricObject,
   Line,
   Point,
+  Polyline,
   Rect,
+  type TPointerEvent,
 } from 'fabric';
 import type {
   Point2D,
   ShapeStyleOptions,
   SnappableInteractionOptions,
 } from '../types';
-import { createPolygonFromVertices } from '../shapes';
+import {
+  createPolygonFromVertices,
+  enableCurvedEdges,
+  getBulgeThroughPoint,
+} from '../shapes';
 import {
   DEFAULT_DRAG_SHAPE_STYLE,
   DEFAULT_GUIDELINE_SHAPE_STYLE,
@@ -22,7 +28,12 @@ import {
   DEFAULT_ANGLE_SNAP_INTERVAL,
   MIN_DRAG_SIZE,
 } from '../constants';
-import { restoreViewport, createShiftKeyTracker } from './shared';
+import {
+  restoreViewport,
+  createShiftKeyTracker,
+  snapAngleToInterval,
+  snapAlongRay,
+} from './shared';
 import { createInteractionSnapping } from './interactionSnapping';
 
 export interface DrawToCreateOptions extends SnappableInteractionOptions {
@@ -36,10 +47,15 @@ export interface DrawToCreateOptions extends SnappableInteractionOptions {
   data?: FabricObject['data'];
   /**
    * Factory function to create the final object from placed vertices.
-   * Receives the canvas and the array of placed points.
+   * Receives the canvas, the array of placed points and, if any edge was
+   * curved, the bulge of each edge (see `PolygonOptions.bulges`).
    * Default: creates a polygon via `createPolygonFromVertices`.
    */
-  factory?: (canvas: FabricCanvas, points: Point2D[]) => FabricObject;
+  factory?: (
+    canvas: FabricCanvas,
+    points: Point2D[],
+    bulges?: number[],
+  ) => FabricObject;
   /**
    * Snap vertex positions to multiples of `interval` degrees when Shift is
    * held while placing a vertex. The angle is measured relative to the
@@ -61,80 +77,21 @@ export interface DrawToCreateOptions extends SnappableInteractionOptions {
   onCancel?: () => void;
 }
 
-function snapAngleToInterval(
-  point: { x: number; y: number },
-  ref: { x: number; y: number },
-  intervalDeg: number,
-): { x: number; y: number } {
-  const dx = point.x - ref.x;
-  const dy = point.y - ref.y;
-  const dist = Math.sqrt(dx * dx + dy * dy);
-  if (dist === 0) return point;
-  const radInterval = (intervalDeg * Math.PI) / 180;
-  const snappedAngle =
-    Math.round(Math.atan2(dy, dx) / radInterval) * radInterval;
-  return {
-    x: ref.x + Math.cos(snappedAngle) * dist,
-    y: ref.y + Math.sin(snappedAngle) * dist,
-  };
-}
-
-/**
- * Apply cursor snapping while maintaining an angle constraint.
- * For each axis that cursor-snapped, compute the intersection of the angle
- * ray with that axis value (preserving both angle and axis alignment).
- * Pick the candidate closest to the original position and re-snap there
- * so guidelines render from the correct on-ray point.
- */
-function snapAlongRay(
-  angleSnapped: { x: number; y: number },
-  ref: { x: number; y: number },
-  doSnap: (x: number, y: number) => { x: number; y: number },
-): { x: number; y: number } {
-  const cursorSnapped = doSnap(angleSnapped.x, angleSnapped.y);
-
-  const snappedX = cursorSnapped.x !== angleSnapped.x;
-  const snappedY = cursorSnapped.y !== angleSnapped.y;
-
-  if (!snappedX && !snappedY) return angleSnapped;
-
-  const rayDx = angleSnapped.x - ref.x;
-  const rayDy = angleSnapped.y - ref.y;
-
-  const candidates: Array<{ x: number; y: number; dist: number }> = [];
-
-  // X-snap: find where the ray crosses x = cursorSnapped.x
-  if (snappedX && Math.abs(rayDx) > 1e-9) {
-    const t = (cursorSnapped.x - ref.x) / rayDx;
-    const onRayY = ref.y + t * rayDy;
-    candidates.push({
-      x: cursorSnapped.x,
-      y: onRayY,
-      dist: Math.abs(onRayY - angleSnapped.y),
-    });
-  }
-
-  // Y-snap: find where the ray crosses y = cursorSnapped.y
-  if (snappedY && Math.abs(rayDy) > 1e-9) {
-    const t = (cursorSnapped.y - ref.y) / rayDy;
-    const onRayX = ref.x + t * rayDx;
-    candidates.push({
-      x: onRayX,
-      y: cursorSnapped.y,
-      dist: Math.abs(onRayX - angleSnapped.x),
-    });
-  }
-
-  if (candidates.length === 0) return angleSnapped;
-
-  // Pick candidate closest to the original angle-snapped position
-  candidates.sort((a, b) => a.dist - b.dist);
-  const best = candidates[0];
-
-  // Re-snap at the on-ray position so guidelines render correctly
-  doSnap(best.x, best.y);
-
-  return best;
+/** Preview of an edge: a line, or a single-edge polyline when curved. */
+function createEdgePreview(
+  from: Point2D,
+  to: Point2D,
+  bulge: number,
+  style: Partial<Line>,
+): FabricObject {
+  if (bulge === 0) return new Line([from.x, from.y, to.x, to.y], style);
+  const edge = new Polyline([from, to], {
+    ...style,
+    fill: '',
+    bulges: [bulge],
+  });
+  enableCurvedEdges(edge, style);
+  return edge;
 }
 
 /**
@@ -143,6 +100,9 @@ function snapAlongRay(
  * to the cursor. Click near the first vertex (within threshold) to close the
  * polygon once at least 3 points have been placed.
  *
+ * Alt-click between vertices to curve the next edge: it becomes a circular
+ * arc through the Alt-clicked point.
+ *
  * When `dragOnHold` is enabled (default), pressing and dragging on the first
  * interaction creates a rectangular polygon from the drag bounds instead of
  * placing individual vertices.
@@ -207,9 +167,14 @@ export function enableDrawToCreate(
   });
 
   const points: Point2D[] = [];
+  /** Bulge of each placed edge; `bulges[i]` ends at `points[i + 1]`. */
+  const bulges: number[] = [];
+  /** Point the next edge curves through, placed with Alt-click. */
+  let arcPoint: Point2D | null = null;
+  let arcMarker: Circle | null = null;
   const markers: Circle[] = [];
-  const edgeLines: Line[] = [];
-  let trackingLine: Line | null = null;
+  const edgeLines: FabricObject[] = [];
+  let trackingLine: FabricObject | null = null;
   let closingLine: Line | null = null;
   let previousSelection: boolean;
 
@@ -235,6 +200,7 @@ export function enableDrawToCreate(
     strokeUniform: true,
     selectable: false,
     evented: false,
+    excludeFromExport: true,
   };
 
   const guideLineStyle = {
@@ -244,9 +210,26 @@ export function enableDrawToCreate(
     strokeUniform: true,
     selectable: false,
     evented: false,
+    excludeFromExport: true,
   } as const;
 
+  /** Bulge of the edge from the last vertex to `to`, through `arcPoint`. */
+  const getPendingBulge = (to: Point2D) =>
+    arcPoint && points.length > 0
+      ? getBulgeThroughPoint(points[points.length - 1], to, arcPoint)
+      : 0;
+
+  const clearArcPoint = () => {
+    arcPoint = null;
+    if (arcMarker) {
+      canvas.remove(arcMarker);
+      untrackPreviewElement(arcMarker);
+      arcMarker = null;
+    }
+  };
+
   const removePreviewElements = () => {
+    clearArcPoint();
     for (const marker of markers) {
       canvas.remove(marker);
       untrackPreviewElement(marker);
@@ -271,16 +254,19 @@ export function enableDrawToCreate(
     }
   };
 
-  const finalize = () => {
+  const finalize = (closingBulge: number) => {
     removePreviewElements();
     snapping.clearSnapResult();
 
+    const edgeBulges = [...bulges, closingBulge];
+    const curved = edgeBulges.some((b) => b !== 0);
     const styleWithData = {
       ...options?.style,
       ...(options?.data != null && { data: options.data }),
+      ...(curved && { bulges: edgeBulges }),
     };
     const obj = options?.factory
-      ? options.factory(canvas, [...points])
+      ? options.factory(canvas, [...points], curved ? edgeBulges : undefined)
       : createPolygonFromVertices(canvas, points, styleWithData);
     canvas.selection = previousSelection;
     canvas.requestRenderAll();
@@ -288,6 +274,28 @@ export function enableDrawToCreate(
     restoreViewport(options?.viewport);
     options?.onCreated?.(obj);
     points.length = 0;
+    bulges.length = 0;
+  };
+
+  /** Mark the point the next edge curves through. */
+  const placeArcPoint = (x: number, y: number) => {
+    clearArcPoint();
+    arcPoint = { x, y };
+    arcMarker = new Circle({
+      left: x,
+      top: y,
+      radius: 3,
+      fill: '',
+      stroke: DEFAULT_SHAPE_STYLE.stroke,
+      strokeWidth: 1,
+      strokeUniform: true,
+      selectable: false,
+      evented: false,
+      excludeFromExport: true,
+    });
+    trackPreviewElement(arcMarker);
+    canvas.add(arcMarker);
+    canvas.requestRenderAll();
   };
 
   /** Place a single vertex (extracted so it can be called from both mouseDown and mouseUp). */
@@ -297,7 +305,7 @@ export function enableDrawToCreate(
       const dx = x - points[0].x;
       const dy = y - points[0].y;
       if (Math.sqrt(dx * dx + dy * dy) <= POLYGON_CLOSE_THRESHOLD) {
-        finalize();
+        finalize(getPendingBulge(points[0]));
         return;
       }
     }
@@ -308,6 +316,8 @@ export function enableDrawToCreate(
       canvas.selection = false;
     }
 
+    const bulge = getPendingBulge({ x, y });
+    clearArcPoint();
     points.push({ x, y });
 
     // Add vertex marker
@@ -321,6 +331,7 @@ export function enableDrawToCreate(
       strokeUniform: true,
       selectable: false,
       evented: false,
+      excludeFromExport: true,
     });
     markers.push(marker);
     trackPreviewElement(marker);
@@ -329,7 +340,8 @@ export function enableDrawToCreate(
     // Add edge line from previous vertex to this one
     if (points.length >= 2) {
       const prev = points[points.length - 2];
-      const edge = new Line([prev.x, prev.y, x, y], lineStyle);
+      const edge = createEdgePreview(prev, { x, y }, bulge, lineStyle);
+      bulges.push(bulge);
       edgeLines.push(edge);
       trackPreviewElement(edge);
       canvas.add(edge);
@@ -338,7 +350,10 @@ export function enableDrawToCreate(
     canvas.requestRenderAll();
   };
 
-  const handleMouseDown = (event: { scenePoint: Point2D }) => {
+  const handleMouseDown = (event: {
+    e: TPointerEvent;
+    scenePoint: Point2D;
+  }) => {
     // Drag-on-hold: defer first click to detect click vs drag
     if (dragEnabled && points.length === 0) {
       const snapped = snapping.snap(event.scenePoint.x, event.scenePoint.y);
@@ -351,6 +366,14 @@ export function enableDrawToCreate(
       return;
     }
 
+    // Alt-click: the next edge curves through this point
+    if (event.e.altKey && points.length > 0) {
+      const { x, y } = snapping.snap(event.scenePoint.x, event.scenePoint.y);
+      snapping.clearSnapResult();
+      placeArcPoint(x, y);
+      return;
+    }
+
     // Normal vertex placement with snapping
     let { x, y } = event.scenePoint;
     if (angleSnapEnabled && shiftTracker.held && points.length > 0) {
@@ -388,6 +411,7 @@ export function enableDrawToCreate(
           height: 0,
           selectable: false,
           evented: false,
+          excludeFromExport: true,
         });
         snapping.excludeSet.add(dragPreviewRect);
         canvas.add(dragPreviewRect);
@@ -428,10 +452,12 @@ export function enableDrawToCreate(
       untrackPreviewElement(trackingLine);
       canvas.remove(trackingLine);
     }
-    trackingLine = new Line([lastPoint.x, lastPoint.y, x, y], {
-      ...guideLineStyle,
-      strokeDashArray: [5, 5],
-    });
+    trackingLine = createEdgePreview(
+      lastPoint,
+      { x, y },
+      getPendingBulge({ x, y }),
+      { ...guideLineStyle, strokeDashArray: [5, 5] },
+    );
     trackPreviewElement(trackingLine);
     canvas.add(trackingLine);
 
@@ -543,6 +569,7 @@ export function enableDrawToCreate(
       canvas.selection = previousSelection;
     }
     points.length = 0;
+    bulges.length = 0;
     dragPending = false;
     isDragMode = false;
     canvas.requestRenderAll();
@@ -6,7 +6,16 @@ export type { DragToCreateOptions } from './dragToCreate';
 export { enableDrawToCreate } from './drawToCreate';
 export type { DrawToCreateOptions } from './drawToCreate';
 
+export { enableDrawPolyline } from './drawPolyline';
+export type { DrawPolylineOptions } from './drawPolyline';
+
 export { enableVertexEdit } from './vertexEdit';
 export type { VertexEditOptions } from './vertexEdit';
 
 export { setCanvasAlignmentEnabled } from './interactionSnapping';
+
+export { enableCalibration } from './calibrate';
+export type { CalibrationOptions, CalibrationLine } from './calibrate';
+
+export { enableMeasure } from './measure';
+export type { MeasureOptions, MeasureStyle, Measurement } from './measure';
@@ -23,6 +23,16 @@ export function setCanvasAlignmentEnabled(
   canvasAlignmentState.set(canvas, enabled);
 }
 
+/**
+ * Return the canvas-level alignment toggle: `undefined` when each feature
+ * uses its own setting.
+ */
+export function getCanvasAlignmentEnabled(
+  canvas: FabricCanvas,
+): boolean | undefined {
+  return canvasAlignmentState.get(canvas);
+}
+
 /** Context object for managing snapping within an interaction mode. */
 export interface InteractionSnappingContext {
   /** Whether snapping is enabled. */
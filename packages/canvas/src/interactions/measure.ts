@@ -0,0 +1,394 @@
+import { Canvas as FabricCanvas, FabricObject, Point, util } from 'fabric';
+import type { Point2D, SnappableInteractionOptions } from '../types';
+import { DEFAULT_MEASURE_STYLE } from '../styles';
+import { MIN_DRAG_SIZE } from '../constants';
+import { isEditableTarget } from '../focus';
+import {
+  formatArea,
+  formatLength,
+  getShapeOutline,
+  isPointInOutline,
+  measureShape,
+  type FormatMeasureOptions,
+} from '../scale';
+import { createInteractionSnapping } from './interactionSnapping';
+
+/**
+ * A measurement made in measure mode, in scene units. Convert with
+ * `toRealLength` / `toRealArea` or display with `formatLength` / `formatArea`.
+ */
+export type Measurement =
+  | {
+      type: 'distance';
+      /** Clicked points, in scene coordinates. */
+      points: Point2D[];
+      /** Length of each segment between consecutive points. */
+      segments: number[];
+      /** Sum of the segment lengths. */
+      total: number;
+    }
+  | {
+      type: 'shape';
+      /** The hovered or selected polygon, rectangle or circle. */
+      object: FabricObject;
+      area: number;
+      perimeter: number;
+    };
+
+/** Appearance of the measurement overlay, in screen pixels. */
+export interface MeasureStyle {
+  color?: string;
+  width?: number;
+  labelColor?: string;
+  fontSize?: number;
+  fontFamily?: string;
+}
+
+export interface MeasureOptions
+  extends
+    Pick<SnappableInteractionOptions, 'snapping' | 'enableAlignment'>,
+    FormatMeasureOptions {
+  /** Show the area and perimeter of the polygon under the cursor, or of the selected one. Default: `true`. */
+  shapes?: boolean;
+  /**
+   * Called when the measurement changes: a point is placed or removed, or a
+   * different shape is hovered or selected. Receives `null` when nothing is
+   * measured.
+   */
+  onMeasure?: (measurement: Measurement | null) => void;
+  /** Called when the user clears the measurement via Escape. */
+  onCancel?: () => void;
+  /** Overlay appearance. Default: `DEFAULT_MEASURE_STYLE`. */
+  style?: MeasureStyle;
+}
+
+/** Padding around label text, in screen pixels. */
+const LABEL_PADDING = 4;
+
+function getDistances(points: Point2D[]): number[] {
+  const segments: number[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    segments.push(Math.hypot(b.x - a.x, b.y - a.y));
+  }
+  return segments;
+}
+
+/**
+ * Enable measure mode.
+ * Click to place points: each segment is labelled with its length and the
+ * last point with the running total. Double-click or press Enter to finish
+ * the path; the next click starts a new one. Backspace removes the last
+ * point and Escape clears the measurement.
+ *
+ * When no path is being drawn, the polygon, rectangle or circle under the
+ * cursor (or else the selected one) is outlined and labelled with its area
+ * and perimeter.
+ *
+ * Values are shown in the canvas's real-world units when it has a scale (see
+ * `setCanvasScale`), and in scene units otherwise. Points snap like the other
+ * interaction modes.
+ *
+ * Works on view canvases too: the viewport is left enabled, and a press that
+ * drags (e.g. to pan) does not place a point. Labels are drawn on the top
+ * layer and never become part of the canvas data.
+ *
+ * Returns a cleanup function that disables the mode.
+ */
+export function enableMeasure(
+  canvas: FabricCanvas,
+  options?: MeasureOptions,
+): () => void {
+  const style = { ...DEFAULT_MEASURE_STYLE, ...options?.style };
+  const format = { unit: options?.unit, decimals: options?.decimals };
+
+  let points: Point2D[] = [];
+  let finished = false;
+  let cursor: Point2D | null = null;
+  let hovered: FabricObject | null = null;
+  let downAt: Point2D | null = null;
+
+  const snapping = createInteractionSnapping(canvas, options);
+
+  const isDrawing = () => points.length > 0 && !finished;
+
+  const getShape = (): FabricObject | null => {
+    if (options?.shapes === false || isDrawing()) return null;
+    if (hovered) return hovered;
+    const active = canvas.getActiveObject();
+    return active && getShapeOutline(active) ? active : null;
+  };
+
+  // A hovered or selected shape takes precedence over a finished path.
+  const getMeasurement = (): Measurement | null => {
+    const shape = getShape();
+    const measured = shape && measureShape(shape);
+    if (measured) return { type: 'shape', object: shape, ...measured };
+    if (points.length === 0) return null;
+    const segments = getDistances(points);
+    return {
+      type: 'distance',
+      points: points.map((p) => ({ ...p })),
+      segments,
+      total: segments.reduce((sum, d) => sum + d, 0),
+    };
+  };
+
+  const notify = () => {
+    options?.onMeasure?.(getMeasurement());
+    canvas.requestRenderAll();
+  };
+
+  const findShapeAt = (point: Point2D): FabricObject | null => {
+    const objects = canvas.getObjects();
+    for (let i = objects.length - 1; i >= 0; i--) {
+      const obj = objects[i];
+      if (!obj.visible || obj.excludeFromExport) continue;
+      const outline = getShapeOutline(obj);
+      if (outline && isPointInOutline(point, outline)) return obj;
+    }
+    return null;
+  };
+
+  // --- Rendering ---
+
+  const toScreen = (p: Point2D) =>
+    util.transformPoint(new Point(p.x, p.y), canvas.viewportTransform);
+
+  function drawLabel(
+    ctx: CanvasRenderingContext2D,
+    text: string,
+    at: Point,
+  ): void {
+    const width = ctx.measureText(text).width + LABEL_PADDING * 2;
+    const height = style.fontSize + LABEL_PADDING * 2;
+    ctx.fillStyle = style.color;
+    ctx.beginPath();
+    ctx.roundRect(at.x - width / 2, at.y - height / 2, width, height, 3);
+    ctx.fill();
+    ctx.fillStyle = style.labelColor;
+    ctx.fillText(text, at.x, at.y);
+  }
+
+  function drawPath(ctx: CanvasRenderingContext2D): void {
+    const path = isDrawing() && cursor ? [...points, cursor] : points;
+    const screen = path.map(toScreen);
+
+    ctx.beginPath();
+    screen.forEach((p, i) =>
+      i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y),
+    );
+    ctx.stroke();
+    for (const p of screen.slice(0, points.length)) {
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, style.width + 1.5, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    const segments = getDistances(path);
+    segments.forEach((length, i) => {
+      const mid = screen[i].midPointFrom(screen[i + 1]);
+      drawLabel(ctx, formatLength(canvas, length, format), mid);
+    });
+    if (segments.length > 1) {
+      const total = segments.reduce((sum, d) => sum + d, 0);
+      const last = screen[screen.length - 1];
+      drawLabel(
+        ctx,
+        `Total ${formatLength(canvas, total, format)}`,
+        new Point(last.x, last.y - style.fontSize - LABEL_PADDING * 3),
+      );
+    }
+  }
+
+  function drawShape(ctx: CanvasRenderingContext2D, shape: FabricObject) {
+    const outline = getShapeOutline(shape);
+    const measured = measureShape(shape);
+    if (!outline || !measured) return;
+
+    ctx.beginPath();
+    outline
+      .map(toScreen)
+      .forEach((p, i) =>
+        i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y),
+      );
+    ctx.closePath();
+    ctx.stroke();
+
+    const center = toScreen(shape.getCenterPoint());
+    drawLabel(ctx, formatArea(canvas, measured.area, format), center);
+    drawLabel(
+      ctx,
+      `Perimeter ${formatLength(canvas, measured.perimeter, format)}`,
+      new Point(center.x, center.y + style.fontSize + LABEL_PADDING * 3),
+    );
+  }
+
+  const beforeRender = () => {
+    canvas.clearContext(canvas.getTopContext());
+  };
+
+  const afterRender = () => {
+    const shape = getShape();
+    if (points.length === 0 && !shape) return;
+
+    const ctx = canvas.getTopContext();
+    ctx.save();
+    ctx.lineWidth = style.width;
+    ctx.strokeStyle = style.color;
+    ctx.fillStyle = style.color;
+    ctx.font = `${style.fontSize}px ${style.fontFamily}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    if (points.length > 0) drawPath(ctx);
+    if (shape) drawShape(ctx, shape);
+    ctx.restore();
+  };
+
+  // --- Pointer and keyboard handling ---
+
+  const handleMouseDown = (event: { viewportPoint: Point2D }) => {
+    downAt = event.viewportPoint;
+  };
+
+  const handleMouseUp = (event: {
+    scenePoint: Point2D;
+    viewportPoint: Point2D;
+  }) => {
+    const start = downAt;
+    downAt = null;
+    // A press that moved is a pan or a drag, not a click.
+    if (
+      !start ||
+      Math.abs(event.viewportPoint.x - start.x) >= MIN_DRAG_SIZE ||
+      Math.abs(event.viewportPoint.y - start.y) >= MIN_DRAG_SIZE
+    ) {
+      return;
+    }
+
+    const point = snapping.snap(event.scenePoint.x, event.scenePoint.y);
+    if (finished || points.length === 0) {
+      points = [point];
+      finished = false;
+    } else {
+      // Ignore the second click of a double-click.
+      const last = toScreen(points[points.length - 1]);
+      const next = toScreen(point);
+      if (
+        Math.abs(next.x - last.x) < MIN_DRAG_SIZE &&
+        Math.abs(next.y - last.y) < MIN_DRAG_SIZE
+      ) {
+        return;
+      }
+      points = [...points, point];
+    }
+    hovered = null;
+    notify();
+  };
+
+  const handleMouseMove = (event: { scenePoint: Point2D }) => {
+    cursor = snapping.snapWithGuidelines(
+      event.scenePoint.x,
+      event.scenePoint.y,
+    );
+    if (isDrawing()) {
+      canvas.requestRenderAll();
+      return;
+    }
+    if (options?.shapes === false) return;
+    const shape = findShapeAt(event.scenePoint);
+    if (shape !== hovered) {
+      hovered = shape;
+      notify();
+    }
+  };
+
+  const handleMouseOut = () => {
+    cursor = null;
+    snapping.clearSnapResult();
+    if (hovered) {
+      hovered = null;
+      notify();
+    } else {
+      canvas.requestRenderAll();
+    }
+  };
+
+  const finish = () => {
+    if (!isDrawing()) return false;
+    finished = true;
+    snapping.clearSnapResult();
+    notify();
+    return true;
+  };
+
+  const handleDoubleClick = () => {
+    if (points.length >= 2) finish();
+  };
+
+  const handleSelection = () => {
+    if (!hovered && !isDrawing()) notify();
+  };
+
+  // Capture phase so these keys don't also reach the keyboard shortcuts.
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (isEditableTarget(e.target)) return;
+    let handled = false;
+    if (e.key === 'Enter') {
+      handled = finish();
+    } else if (e.key === 'Backspace' && isDrawing()) {
+      points = points.slice(0, -1);
+      handled = true;
+      notify();
+    } else if (e.key === 'Escape' && points.length > 0) {
+      points = [];
+      finished = false;
+      handled = true;
+      snapping.clearSnapResult();
+      notify();
+      options?.onCancel?.();
+    }
+    if (handled) {
+      e.stopImmediatePropagation();
+      e.preventDefault();
+    }
+  };
+
+  canvas.on('mouse:down', handleMouseDown);
+  canvas.on('mouse:up', handleMouseUp);
+  canvas.on('mouse:move', handleMouseMove);
+  canvas.on('mouse:out', handleMouseOut);
+  canvas.on('mouse:dblclick', handleDoubleClick);
+  canvas.on('selection:created', handleSelection);
+  canvas.on('selection:updated', handleSelection);
+  canvas.on('selection:cleared', handleSelection);
+  canvas.on('before:render', beforeRender);
+  canvas.on('after:render', afterRender);
+  document.addEventListener('keydown', handleKeyDown, true);
+
+  canvas.requestRenderAll();
+
+  let exited = false;
+
+  return () => {
+    if (exited) return;
+    exited = true;
+
+    canvas.off('mouse:down', handleMouseDown);
+    canvas.off('mouse:up', handleMouseUp);
+    canvas.off('mouse:move', handleMouseMove);
+    canvas.off('mouse:out', handleMouseOut);
+    canvas.off('mouse:dblclick', handleDoubleClick);
+    canvas.off('selection:created', handleSelection);
+    canvas.off('selection:updated', handleSelection);
+    canvas.off('selection:cleared', handleSelection);
+    canvas.off('before:render', beforeRender);
+    canvas.off('after:render', afterRender);
+    document.removeEventListener('keydown', handleKeyDown, true);
+
+    snapping.cleanup();
+    canvas.clearContext(canvas.getTopContext());
+    canvas.requestRenderAll();
+  };
+}
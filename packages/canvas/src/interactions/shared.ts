@@ -42,3 +42,85 @@ export function createShiftKeyTracker(onChange?: (held: boolean) => void): {
     },
   };
 }
+
+// --- Angle snapping ---
+
+/**
+ * Snap `point` to the nearest multiple of `intervalDeg` degrees around
+ * `ref`, keeping its distance from `ref`.
+ */
+export function snapAngleToInterval(
+  point: { x: number; y: number },
+  ref: { x: number; y: number },
+  intervalDeg: number,
+): { x: number; y: number } {
+  const dx = point.x - ref.x;
+  const dy = point.y - ref.y;
+  const dist = Math.sqrt(dx * dx + dy * dy);
+  if (dist === 0) return point;
+  const radInterval = (intervalDeg * Math.PI) / 180;
+  const snappedAngle =
+    Math.round(Math.atan2(dy, dx) / radInterval) * radInterval;
+  return {
+    x: ref.x + Math.cos(snappedAngle) * dist,
+    y: ref.y + Math.sin(snappedAngle) * dist,
+  };
+}
+
+/**
+ * Apply cursor snapping while maintaining an angle constraint.
+ * For each axis that cursor-snapped, compute the intersection of the angle
+ * ray with that axis value (preserving both angle and axis alignment).
+ * Pick the candidate closest to the original position and re-snap there
+ * so guidelines render from the correct on-ray point.
+ */
+export function snapAlongRay(
+  angleSnapped: { x: number; y: number },
+  ref: { x: number; y: number },
+  doSnap: (x: number, y: number) => { x: number; y: number },
+): { x: number; y: number } {
+  const cursorSnapped = doSnap(angleSnapped.x, angleSnapped.y);
+
+  const snappedX = cursorSnapped.x !== angleSnapped.x;
+  const snappedY = cursorSnapped.y !== angleSnapped.y;
+
+  if (!snappedX && !snappedY) return angleSnapped;
+
+  const rayDx = angleSnapped.x - ref.x;
+  const rayDy = angleSnapped.y - ref.y;
+
+  const candidates: Array<{ x: number; y: number; dist: number }> = [];
+
+  // X-snap: find where the ray crosses x = cursorSnapped.x
+  if (snappedX && Math.abs(rayDx) > 1e-9) {
+    const t = (cursorSnapped.x - ref.x) / rayDx;
+    const onRayY = ref.y + t * rayDy;
+    candidates.push({
+      x: cursorSnapped.x,
+      y: onRayY,
+      dist: Math.abs(onRayY - angleSnapped.y),
+    });
+  }
+
+  // Y-snap: find where the ray crosses y = cursorSnapped.y
+  if (snappedY && Math.abs(rayDy) > 1e-9) {
+    const t = (cursorSnapped.y - ref.y) / rayDy;
+    const onRayX = ref.x + t * rayDx;
+    candidates.push({
+      x: onRayX,
+      y: cursorSnapped.y,
+      dist: Math.abs(onRayX - angleSnapped.x),
+    });
+  }
+
+  if (candidates.length === 0) return angleSnapped;
+
+  // Pick candidate closest to the original angle-snapped position
+  candidates.sort((a, b) => a.dist - b.dist);
+  const best = candidates[0];
+
+  // Re-snap at the on-ray position so guidelines render correctly
+  doSnap(best.x, best.y);
+
+  return best;
+}
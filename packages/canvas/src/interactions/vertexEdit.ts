@@ -3,6 +3,7 @@ import {
   FabricObject,
   Point,
   Polygon,
+  Polyline,
   util,
 } from 'fabric';
 import type { Point2D } from '../types';
@@ -12,6 +13,13 @@ import {
   DEFAULT_VERTEX_HANDLE_STROKE,
   DEFAULT_VERTEX_HANDLE_STROKE_WIDTH,
 } from '../constants';
+import { isEditableTarget } from '../focus';
+import {
+  enableCurvedEdges,
+  getBulgeFromMidpoint,
+  getEdgeMidpoint,
+  splitBulge,
+} from '../shapes/curves';
 import { createInteractionSnapping } from './interactionSnapping';
 
 export interface VertexEditOptions {
@@ -19,13 +27,30 @@ export interface VertexEditOptions {
   handleFill?: string;
   handleStroke?: string;
   handleStrokeWidth?: number;
+  /**
+   * Show a handle at the midpoint of each edge; dragging it inserts a new
+   * vertex. Default: `true`.
+   */
+  insertVertices?: boolean;
+  /**
+   * Curve an edge into an arc by Shift-dragging its midpoint handle (or
+   * dragging it, when `insertVertices` is `false`); Alt-click the handle to
+   * straighten the edge again. Default: `true`.
+   */
+  curveEdges?: boolean;
+  /**
+   * Remove a vertex on Alt-click, or with Delete/Backspace after clicking
+   * its handle. Polygons keep at least 3 vertices, lines and polylines 2.
+   * Default: `true`.
+   */
+  removeVertices?: boolean;
   /** Called when vertex editing is exited (via Escape, empty-canvas click, or cleanup). */
   onExit?: () => void;
 }
 
 // --- Coordinate helpers ---
 
-function localPointToScene(polygon: Polygon, point: Point2D): Point {
+function localPointToScene(polygon: Polyline, point: Point2D): Point {
   const matrix = polygon.calcTransformMatrix();
   const localPoint = new Point(
     point.x - polygon.pathOffset.x,
@@ -34,7 +59,7 @@ function localPointToScene(polygon: Polygon, point: Point2D): Point {
   return util.transformPoint(localPoint, matrix);
 }
 
-function scenePointToLocal(polygon: Polygon, scenePoint: Point): Point2D {
+function scenePointToLocal(polygon: Polyline, scenePoint: Point): Point2D {
   const matrix = polygon.calcTransformMatrix();
   const invMatrix = util.invertTransform(matrix);
   const localPoint = util.transformPoint(scenePoint, invMatrix);
@@ -44,6 +69,32 @@ function scenePointToLocal(polygon: Polygon, scenePoint: Point): Point2D {
   };
 }
 
+/**
+ * Replace the polygon's points (and edge bulges, if given) and recalculate
+ * its dimensions and `pathOffset`, keeping `anchor` (one of the new points
+ * that also existed before) in place in the scene.
+ */
+function applyPoints(
+  polygon: Polyline,
+  points: Point2D[],
+  anchor: Point2D,
+  bulges?: number[],
+) {
+  const anchorBefore = localPointToScene(polygon, anchor);
+  enableCurvedEdges(polygon);
+  polygon.points = points;
+  if (bulges) polygon.bulges = bulges;
+  polygon.setDimensions();
+
+  // setDimensions recalculates pathOffset, shifting all vertices visually.
+  // Compensate by adjusting polygon position so the anchor stays in place.
+  const anchorAfter = localPointToScene(polygon, anchor);
+  polygon.left += anchorBefore.x - anchorAfter.x;
+  polygon.top += anchorBefore.y - anchorAfter.y;
+  polygon.dirty = true;
+  polygon.setCoords();
+}
+
 // --- DOM handle helpers ---
 
 function sceneToScreen(scenePoint: Point, canvas: FabricCanvas): Point {
@@ -84,6 +135,16 @@ function createHandleElement(
   return el;
 }
 
+/** Restyle a handle as the active (last pressed) vertex. */
+function setHandleActive(
+  handle: HTMLDivElement,
+  active: boolean,
+  fill: string,
+  stroke: string,
+): void {
+  handle.style.background = active ? stroke : fill;
+}
+
 function positionHandle(
   handle: HTMLDivElement,
   scenePoint: Point,
@@ -97,29 +158,43 @@ function positionHandle(
 // --- Main function ---
 
 /**
- * Enable vertex editing on a polygon.
- * Creates draggable DOM circle handles at each vertex. Dragging a handle
+ * Enable vertex editing on a polygon, or on a line or polyline (any Fabric
+ * `Polyline`). Creates draggable DOM circle handles at each vertex. Dragging a handle
  * updates the polygon's shape in real-time with cursor snapping support.
  *
+ * Smaller handles at edge midpoints insert a vertex when dragged, or curve
+ * the edge into an arc when Shift-dragged. Alt-click a vertex, or click it
+ * and press Delete or Backspace, to remove it; Alt-click a midpoint handle
+ * to straighten a curved edge. Each completed change fires `object:modified`
+ * on the canvas.
+ *
  * Exit by pressing Escape or clicking on empty canvas.
  *
  * Returns a cleanup function that removes handles and exits edit mode.
  */
 export function enableVertexEdit(
   canvas: FabricCanvas,
-  polygon: Polygon,
+  polygon: Polyline,
   options?: VertexEditOptions,
   /** @deprecated Pass `onExit` in options instead. */
   onExit?: () => void,
 ): () => void {
   let exited = false;
   let draggingIndex: number | null = null;
+  /** Edge being curved by dragging its midpoint handle. */
+  let bendingEdge: number | null = null;
+  /** Vertex whose handle was pressed last; the target of Delete/Backspace. */
+  let activeIndex: number | null = null;
 
   const handleRadius = options?.handleRadius ?? DEFAULT_VERTEX_HANDLE_RADIUS;
   const handleFill = options?.handleFill ?? DEFAULT_VERTEX_HANDLE_FILL;
   const handleStroke = options?.handleStroke ?? DEFAULT_VERTEX_HANDLE_STROKE;
   const handleStrokeWidth =
     options?.handleStrokeWidth ?? DEFAULT_VERTEX_HANDLE_STROKE_WIDTH;
+  const insertEnabled = options?.insertVertices !== false;
+  const removeEnabled = options?.removeVertices !== false;
+  const curveEnabled = options?.curveEdges !== false;
+  const minVertices = polygon instanceof Polygon ? 3 : 2;
 
   // Save previous state so we can restore on cleanup
   const previousState = {
@@ -169,29 +244,124 @@ export function enableVertexEdit(
     'position: absolute; inset: 0; pointer-events: none; overflow: hidden;';
   canvas.wrapperEl.appendChild(container);
 
-  // Create DOM handles at each vertex
+  // DOM handles at each vertex and at each edge midpoint. Rebuilt whenever
+  // vertices are inserted or removed.
   const handles: HTMLDivElement[] = [];
-  const points = polygon.points;
+  const midpointHandles: HTMLDivElement[] = [];
+  /** Whether the vertex being dragged has moved since the pointer went down. */
+  let dragMoved = false;
+  /** Whether the vertex being dragged was inserted by this drag. */
+  let dragInserted = false;
+  /** Edge bulges from before the inserted vertex split its edge. */
+  let bulgesBeforeInsert: number[] | undefined;
+
+  /** Number of edges; a polygon's last edge closes it back to vertex 0. */
+  const edgeCount = () =>
+    polygon instanceof Polygon
+      ? polygon.points.length
+      : polygon.points.length - 1;
+
+  const notifyModified = () => {
+    canvas.fire('object:modified', { target: polygon });
+  };
+
+  const setActiveIndex = (index: number | null) => {
+    if (activeIndex !== null && handles[activeIndex]) {
+      setHandleActive(handles[activeIndex], false, handleFill, handleStroke);
+    }
+    activeIndex = index;
+    if (index !== null) {
+      setHandleActive(handles[index], true, handleFill, handleStroke);
+    }
+  };
+
+  const startDrag = (i: number, pointerId: number) => {
+    draggingIndex = i;
+    dragMoved = false;
+    setActiveIndex(i);
+    handles[i].setPointerCapture(pointerId);
+    handles[i].style.cursor = 'grabbing';
+  };
+
+  const getBulges = () => {
+    const bulges = polygon.bulges ?? [];
+    return Array.from({ length: edgeCount() }, (_, i) => bulges[i] ?? 0);
+  };
+
+  const removeVertex = (i: number) => {
+    const points = polygon.points;
+    if (points.length <= minVertices) return false;
+    const next = points.filter((_, j) => j !== i);
+    let bulges: number[] | undefined;
+    if (polygon.bulges) {
+      // The two edges meeting at the vertex become one straight edge.
+      bulges = getBulges();
+      if (polygon instanceof Polygon) {
+        bulges.splice(i, 1);
+        bulges[(i - 1 + bulges.length) % bulges.length] = 0;
+      } else {
+        bulges.splice(Math.min(i, bulges.length - 1), 1);
+        if (i > 0 && i < points.length - 1) bulges[i - 1] = 0;
+      }
+    }
+    applyPoints(polygon, next, next[0], bulges);
+    return true;
+  };
+
+  const insertVertex = (edge: number) => {
+    const points = polygon.points;
+    const bulge = polygon.bulges?.[edge] ?? 0;
+    const midpoint = getEdgeMidpoint(
+      points[edge],
+      points[(edge + 1) % points.length],
+      bulge,
+    );
+    const next = [
+      ...points.slice(0, edge + 1),
+      midpoint,
+      ...points.slice(edge + 1),
+    ];
+    let bulges: number[] | undefined;
+    if (polygon.bulges) {
+      // Both halves follow the original arc.
+      const half = splitBulge(bulge);
+      bulges = getBulges();
+      bulges.splice(edge, 1, half, half);
+    }
+    applyPoints(polygon, next, next[0], bulges);
+    return edge + 1;
+  };
+
+  const setEdgeBulge = (edge: number, bulge: number) => {
+    const bulges = getBulges();
+    bulges[edge] = bulge;
+    applyPoints(polygon, polygon.points, polygon.points[0], bulges);
+  };
 
-  for (let i = 0; i < points.length; i++) {
+  function createVertexHandle(i: number): HTMLDivElement {
     const handle = createHandleElement(
       handleRadius,
       handleFill,
       handleStroke,
       handleStrokeWidth,
     );
-    positionHandle(handle, localPointToScene(polygon, points[i]), canvas);
-    container.appendChild(handle);
-    handles.push(handle);
 
     // --- Pointer event handlers for dragging ---
     handle.addEventListener('pointerdown', (e: PointerEvent) => {
       if (exited) return;
       e.preventDefault();
       e.stopPropagation();
-      draggingIndex = i;
-      handle.setPointerCapture(e.pointerId);
-      handle.style.cursor = 'grabbing';
+      if (e.altKey && removeEnabled) {
+        if (removeVertex(i)) {
+          setActiveIndex(null);
+          rebuildHandles();
+          canvas.requestRenderAll();
+          notifyModified();
+        }
+        return;
+      }
+      dragInserted = false;
+      startDrag(i, e.pointerId);
     });
 
     handle.addEventListener('pointermove', (e: PointerEvent) => {
@@ -211,22 +381,10 @@ export function enableVertexEdit(
 
       // Use a non-dragged vertex as an anchor to measure visual drift
       const anchorIdx = i === 0 ? 1 : 0;
-      const anchorBefore = localPointToScene(
-        polygon,
-        polygon.points[anchorIdx],
-      );
-
-      const localPoint = scenePointToLocal(polygon, scenePoint);
-      polygon.points[i] = localPoint;
-      polygon.setDimensions();
-
-      // setDimensions recalculates pathOffset, shifting all vertices visually.
-      // Compensate by adjusting polygon position so the anchor stays in place.
-      const anchorAfter = localPointToScene(polygon, polygon.points[anchorIdx]);
-      polygon.left += anchorBefore.x - anchorAfter.x;
-      polygon.top += anchorBefore.y - anchorAfter.y;
-      polygon.dirty = true;
-      polygon.setCoords();
+      const next = [...polygon.points];
+      next[i] = scenePointToLocal(polygon, scenePoint);
+      applyPoints(polygon, next, next[anchorIdx]);
+      dragMoved = true;
 
       repositionAllHandles();
       canvas.requestRenderAll();
@@ -238,31 +396,186 @@ export function enableVertexEdit(
       draggingIndex = null;
       handle.style.cursor = 'grab';
       snapping.clearSnapResult();
+      if (dragInserted && !dragMoved) {
+        // A click on a midpoint handle doesn't add a vertex.
+        removeVertex(i);
+        if (bulgesBeforeInsert) {
+          applyPoints(
+            polygon,
+            polygon.points,
+            polygon.points[0],
+            bulgesBeforeInsert,
+          );
+        }
+        setActiveIndex(null);
+        rebuildHandles();
+      } else if (dragMoved) {
+        notifyModified();
+      }
       canvas.requestRenderAll();
     });
+
+    return handle;
+  }
+
+  function createMidpointHandle(edge: number): HTMLDivElement {
+    const handle = createHandleElement(
+      handleRadius * 0.75,
+      handleFill,
+      handleStroke,
+      handleStrokeWidth,
+    );
+    handle.style.opacity = '0.6';
+
+    handle.addEventListener('pointerdown', (e: PointerEvent) => {
+      if (exited) return;
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.altKey && curveEnabled) {
+        if (polygon.bulges?.[edge]) {
+          setEdgeBulge(edge, 0);
+          repositionAllHandles();
+          canvas.requestRenderAll();
+          notifyModified();
+        }
+        return;
+      }
+      if (curveEnabled && (e.shiftKey || !insertEnabled)) {
+        bendingEdge = edge;
+        dragMoved = false;
+        handle.setPointerCapture(e.pointerId);
+        handle.style.cursor = 'grabbing';
+        return;
+      }
+      if (!insertEnabled) return;
+
+      // Insert a vertex and hand the pointer over to its new handle.
+      bulgesBeforeInsert = polygon.bulges;
+      const index = insertVertex(edge);
+      rebuildHandles();
+      dragInserted = true;
+      startDrag(index, e.pointerId);
+      canvas.requestRenderAll();
+    });
+
+    // Curve the edge so that its midpoint follows the pointer.
+    handle.addEventListener('pointermove', (e: PointerEvent) => {
+      if (bendingEdge !== edge) return;
+      const wrapperRect = canvas.wrapperEl.getBoundingClientRect();
+      const rawScene = screenToScene(
+        e.clientX - wrapperRect.left,
+        e.clientY - wrapperRect.top,
+        canvas,
+      );
+      const snapped = snapping.snapWithGuidelines(rawScene.x, rawScene.y);
+      const points = polygon.points;
+      const bulge = getBulgeFromMidpoint(
+        points[edge],
+        points[(edge + 1) % points.length],
+        scenePointToLocal(polygon, new Point(snapped.x, snapped.y)),
+      );
+      setEdgeBulge(edge, bulge);
+      dragMoved = true;
+
+      repositionAllHandles();
+      canvas.requestRenderAll();
+    });
+
+    handle.addEventListener('pointerup', (e: PointerEvent) => {
+      if (bendingEdge !== edge) return;
+      handle.releasePointerCapture(e.pointerId);
+      bendingEdge = null;
+      handle.style.cursor = 'grab';
+      snapping.clearSnapResult();
+      if (dragMoved) notifyModified();
+      canvas.requestRenderAll();
+    });
+
+    return handle;
+  }
+
+  function rebuildHandles() {
+    for (const handle of [...handles, ...midpointHandles]) handle.remove();
+    handles.length = 0;
+    midpointHandles.length = 0;
+
+    // Midpoint handles go first so vertex handles stay on top of them.
+    if (insertEnabled || curveEnabled) {
+      for (let i = 0; i < edgeCount(); i++) {
+        const handle = createMidpointHandle(i);
+        container.appendChild(handle);
+        midpointHandles.push(handle);
+      }
+    }
+    for (let i = 0; i < polygon.points.length; i++) {
+      const handle = createVertexHandle(i);
+      container.appendChild(handle);
+      handles.push(handle);
+    }
+    if (activeIndex !== null) {
+      setHandleActive(handles[activeIndex], true, handleFill, handleStroke);
+    }
+    repositionAllHandles();
   }
 
   // Reposition all handles based on current polygon state
   function repositionAllHandles() {
     const pts = polygon.points;
+    const scenePts = pts.map((pt) => localPointToScene(polygon, pt));
     for (let j = 0; j < pts.length; j++) {
-      positionHandle(handles[j], localPointToScene(polygon, pts[j]), canvas);
+      positionHandle(handles[j], scenePts[j], canvas);
+    }
+    for (let j = 0; j < midpointHandles.length; j++) {
+      const midpoint = getEdgeMidpoint(
+        pts[j],
+        pts[(j + 1) % pts.length],
+        polygon.bulges?.[j] ?? 0,
+      );
+      positionHandle(
+        midpointHandles[j],
+        localPointToScene(polygon, midpoint),
+        canvas,
+      );
     }
   }
 
+  rebuildHandles();
+
   // Reposition handles when viewport changes (zoom/pan)
   const afterRender = () => {
-    if (draggingIndex === null) {
+    if (draggingIndex === null && bendingEdge === null) {
       repositionAllHandles();
     }
   };
   canvas.on('after:render', afterRender);
 
-  // Exit on Escape (capture phase to prevent deletion shortcut)
+  // Exit on Escape and remove the active vertex on Delete/Backspace
+  // (capture phase to prevent the deletion shortcut)
   const handleKeyDown = (e: KeyboardEvent) => {
     if (e.key === 'Escape') {
       e.stopImmediatePropagation();
       cleanup();
+      return;
+    }
+    if (
+      (e.key === 'Delete' || e.key === 'Backspace') &&
+      !isEditableTarget(e.target)
+    ) {
+      e.stopImmediatePropagation();
+      e.preventDefault();
+      if (
+        !removeEnabled ||
+        activeIndex === null ||
+        draggingIndex !== null ||
+        bendingEdge !== null ||
+        !removeVertex(activeIndex)
+      ) {
+        return;
+      }
+      setActiveIndex(null);
+      rebuildHandles();
+      canvas.requestRenderAll();
+      notifyModified();
     }
   };
   document.addEventListener('keydown', handleKeyDown, true);
@@ -1,4 +1,11 @@
-import { Canvas as FabricCanvas, FabricObject } from 'fabric';
+import { ActiveSelection, Canvas as FabricCanvas, FabricObject } from 'fabric';
+import type { HistoryTracker } from './history';
+import { duplicateObjects, type CanvasClipboard } from './clipboard';
+import { isEditableTarget, makeCanvasFocusable } from './focus';
+import { getStrokeFreeCoords } from './alignment/objectAlignmentUtils';
+import { getCanvasAlignmentEnabled } from './interactions/interactionSnapping';
+import { getCanvasSnapGrid } from './grid';
+import { groupObjects, ungroupObjects } from './groups';
 
 /**
  * Remove one or more objects from the canvas.
@@ -11,26 +18,590 @@ export function deleteObjects(
   canvas.requestRenderAll();
 }
 
+// --- Keymap types ---
+
+/** A named action that can be bound to key chords. */
+export interface KeyboardCommand {
+  /** Human-readable description, e.g. for a shortcuts help dialog. */
+  label: string;
+  /**
+   * Run the command. Return `false` if there was nothing to do, so the key
+   * event is left alone (not prevented) for other handlers.
+   */
+  run: (canvas: FabricCanvas, event: KeyboardEvent | null) => boolean | void;
+}
+
+/** A chord bound to a command, as returned by {@link Keymap.getBindings}. */
+export interface KeyBindingInfo {
+  /** The chord as bound, e.g. `'Mod+Z'`. See {@link formatChord} for display. */
+  chord: string;
+  /** Command id, e.g. `'undo'`. */
+  command: string;
+  /** The command's label. */
+  label: string;
+}
+
+/** Keyboard nudging settings (see {@link KeymapOptions.nudge}). */
+export interface NudgeOptions {
+  /** Distance in scene units moved by the arrow keys. Default: 1. */
+  step?: number;
+  /** Distance in scene units moved by Shift+arrow keys. Default: 10. */
+  largeStep?: number;
+  /**
+   * Delay in milliseconds after the last nudge before `object:modified`
+   * fires. A burst of nudges fires it once. Default: 500.
+   */
+  commitDelay?: number;
+}
+
+export interface KeymapOptions {
+  /**
+   * Where key events are listened for.
+   * - `'canvas'`: only while the canvas wrapper has focus. The wrapper is
+   *   made focusable and focused on pointer down.
+   * - `'document'`: anywhere on the page.
+   *
+   * Events from text inputs and editable elements are always ignored.
+   * Default: `'canvas'`.
+   */
+  scope?: 'canvas' | 'document';
+  /**
+   * Additional commands, or replacements for built-in ones, keyed by id.
+   * Pass `null` to remove a built-in command.
+   */
+  commands?: Record<string, KeyboardCommand | null>;
+  /**
+   * Chord → command id, merged over {@link DEFAULT_KEY_BINDINGS}. Pass
+   * `null` to unbind a default chord.
+   */
+  bindings?: Record<string, string | null>;
+  /** History used by the `undo` / `redo` commands. They do nothing without it. */
+  history?: Pick<HistoryTracker, 'undo' | 'redo'>;
+  /**
+   * Clipboard used by the `duplicate` command, so duplicates get ids from
+   * its `generateId`. Without it, duplicates get random UUIDs.
+   */
+  clipboard?: Pick<CanvasClipboard, 'duplicate'>;
+  /** Zoom actions used by the zoom commands. They do nothing without them. */
+  zoom?: {
+    zoomIn: () => void;
+    zoomOut: () => void;
+    reset: () => void;
+  };
+  /**
+   * Step sizes for the `nudge*` commands. While a snap grid is active the
+   * arrow keys move to the next grid step and Shift+arrow keys to the next
+   * major grid line instead.
+   */
+  nudge?: NudgeOptions;
+}
+
+/** A keyboard shortcut registry bound to a canvas. */
+export interface Keymap {
+  /** Add a command, or replace an existing one with the same id. */
+  registerCommand: (id: string, command: KeyboardCommand) => void;
+  /** Bind a chord to a command id, or unbind it with `null`. */
+  bind: (chord: string, command: string | null) => void;
+  /** All bindings to registered commands, in binding order. */
+  getBindings: () => KeyBindingInfo[];
+  /**
+   * Run a command by id, as if its key was pressed. Returns `false` if the
+   * command does not exist or had nothing to do.
+   */
+  run: (command: string) => boolean;
+  /** Remove the key listener. */
+  cleanup: () => void;
+}
+
+// --- Chords ---
+
+const isMac =
+  typeof navigator !== 'undefined' &&
+  /Mac|iPhone|iPad/.test(navigator.platform);
+
+const MODIFIER_ORDER = ['ctrl', 'alt', 'shift', 'meta'] as const;
+
+const MODIFIER_ALIASES: Record<string, (typeof MODIFIER_ORDER)[number]> = {
+  mod: isMac ? 'meta' : 'ctrl',
+  ctrl: 'ctrl',
+  control: 'ctrl',
+  alt: 'alt',
+  option: 'alt',
+  shift: 'shift',
+  meta: 'meta',
+  cmd: 'meta',
+};
+
+const KEY_ALIASES: Record<string, string> = {
+  esc: 'escape',
+  del: 'delete',
+  space: ' ',
+  plus: '+',
+  up: 'arrowup',
+  down: 'arrowdown',
+  left: 'arrowleft',
+  right: 'arrowright',
+};
+
 /**
- * Enable default keyboard shortcuts on the canvas.
- * - Escape / Delete / Backspace: delete selected objects.
- *
- * Returns a cleanup function that removes the listener.
+ * Build a canonical chord string. Shift is ignored for single non-letter
+ * characters, since it is already reflected in the key (`Shift+=` is `+`).
  */
-export function enableKeyboardShortcuts(canvas: FabricCanvas): () => void {
-  const handleKeyDown = (e: KeyboardEvent) => {
-    if (e.key === 'Escape' || e.key === 'Delete' || e.key === 'Backspace') {
-      const active = canvas.getActiveObjects();
-      if (active.length > 0) {
+function canonicalChord(modifiers: Set<string>, key: string): string {
+  const ignoreShift =
+    key.length === 1 && key.toLowerCase() === key.toUpperCase();
+  const parts = MODIFIER_ORDER.filter(
+    (m) => modifiers.has(m) && !(m === 'shift' && ignoreShift),
+  );
+  return [...parts, key].join('+');
+}
+
+function normalizeChord(chord: string): string {
+  // A trailing '+' is the plus key itself, e.g. 'Mod++'.
+  const tokens = chord.endsWith('++')
+    ? [...chord.slice(0, -2).split('+'), '+']
+    : chord.split('+');
+  const rawKey = tokens.pop()!;
+  const lower = rawKey.toLowerCase();
+  const key = KEY_ALIASES[lower] ?? lower;
+  const modifiers = new Set<string>();
+  for (const token of tokens) {
+    const modifier = MODIFIER_ALIASES[token.trim().toLowerCase()];
+    if (!modifier) {
+      throw new Error(`Unknown modifier "${token}" in key chord "${chord}".`);
+    }
+    modifiers.add(modifier);
+  }
+  return canonicalChord(modifiers, key);
+}
+
+function eventToChord(e: KeyboardEvent): string {
+  const modifiers = new Set<string>();
+  if (e.ctrlKey) modifiers.add('ctrl');
+  if (e.altKey) modifiers.add('alt');
+  if (e.shiftKey) modifiers.add('shift');
+  if (e.metaKey) modifiers.add('meta');
+  return canonicalChord(modifiers, e.key.toLowerCase());
+}
+
+/**
+ * Format a chord for display on the current platform, e.g. `'Mod+Shift+Z'`
+ * becomes `'⇧⌘Z'` on macOS and `'Ctrl+Shift+Z'` elsewhere.
+ */
+export function formatChord(chord: string): string {
+  const normalized = normalizeChord(chord);
+  const tokens = normalized.endsWith('++')
+    ? [...normalized.slice(0, -2).split('+'), '+']
+    : normalized.split('+');
+  const key = tokens.pop()!;
+  const keyNames: Record<string, string> = {
+    ' ': 'Space',
+    arrowup: '↑',
+    arrowdown: '↓',
+    arrowleft: '←',
+    arrowright: '→',
+    escape: 'Esc',
+  };
+  const keyName =
+    keyNames[key] ??
+    (key.length === 1
+      ? key.toUpperCase()
+      : key[0].toUpperCase() + key.slice(1));
+
+  if (isMac) {
+    const symbols: Record<string, string> = {
+      ctrl: '⌃',
+      alt: '⌥',
+      shift: '⇧',
+      meta: '⌘',
+    };
+    return tokens.map((t) => symbols[t]).join('') + keyName;
+  }
+  const names: Record<string, string> = {
+    ctrl: 'Ctrl',
+    alt: 'Alt',
+    shift: 'Shift',
+    meta: 'Win',
+  };
+  return [...tokens.map((t) => names[t]), keyName].join('+');
+}
+
+// --- Built-in commands ---
+
+const NUDGE_STEP = 1;
+const NUDGE_STEP_LARGE = 10;
+const NUDGE_COMMIT_DELAY = 500;
+
+function selectAll(canvas: FabricCanvas): boolean {
+  const objects = canvas
+    .getObjects()
+    .filter((obj) => obj.selectable && obj.evented && obj.visible);
+  if (objects.length === 0) return false;
+  canvas.discardActiveObject();
+  canvas.setActiveObject(
+    objects.length === 1
+      ? objects[0]
+      : new ActiveSelection(objects, { canvas }),
+  );
+  canvas.requestRenderAll();
+  return true;
+}
+
+/**
+ * Next position along one axis when moving by `step` in `direction`. On a
+ * grid, positions off the grid move to the nearest grid line in that
+ * direction.
+ */
+function nextStep(
+  value: number,
+  direction: number,
+  step: number,
+  onGrid: boolean,
+): number {
+  if (!onGrid) return value + direction * step;
+  // Tolerance so that positions already on a line move a full step.
+  const cell = value / step;
+  const epsilon = 1e-6;
+  return direction > 0
+    ? (Math.floor(cell + epsilon) + 1) * step
+    : (Math.ceil(cell - epsilon) - 1) * step;
+}
+
+interface Nudger {
+  /** Move the selection one step; `dx` / `dy` are -1, 0 or 1. */
+  nudge: (
+    canvas: FabricCanvas,
+    dx: number,
+    dy: number,
+    large: boolean,
+  ) => boolean;
+  /** Fire the pending `object:modified`, if any. */
+  commit: () => void;
+  cleanup: () => void;
+}
+
+/**
+ * Moves the selection immediately on every nudge but fires a single
+ * `object:modified` once the burst ends, so history and dirty tracking
+ * record one change.
+ */
+function createNudger(
+  canvas: FabricCanvas,
+  options: NudgeOptions | undefined,
+): Nudger {
+  const commitDelay = options?.commitDelay ?? NUDGE_COMMIT_DELAY;
+  let pending: FabricObject | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  function commit() {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (!pending) return;
+    const target = pending;
+    pending = null;
+    canvas.fire('object:modified', { target });
+  }
+
+  // The selection's children must still be in it when the change is
+  // reported, so commit before it is discarded.
+  canvas.on('before:selection:cleared', commit);
+  canvas.on('selection:updated', commit);
+  canvas.on('mouse:down', commit);
+
+  return {
+    nudge(canvas, dx, dy, large) {
+      const active = canvas.getActiveObject();
+      if (!active || active.lockMovementX || active.lockMovementY) {
+        return false;
+      }
+      if (pending && pending !== active) commit();
+
+      const grid =
+        getCanvasAlignmentEnabled(canvas) === false
+          ? null
+          : getCanvasSnapGrid(canvas);
+      const step = grid
+        ? large
+          ? grid.spacing
+          : grid.spacing / grid.subdivisions
+        : large
+          ? (options?.largeStep ?? NUDGE_STEP_LARGE)
+          : (options?.step ?? NUDGE_STEP);
+
+      // On a grid, align the top-left corner of the bounds.
+      const corners = getStrokeFreeCoords(active);
+      const minX = Math.min(...corners.map((p) => p.x));
+      const minY = Math.min(...corners.map((p) => p.y));
+      const offsetX = dx ? nextStep(minX, dx, step, !!grid) - minX : 0;
+      const offsetY = dy ? nextStep(minY, dy, step, !!grid) - minY : 0;
+
+      active.set({ left: active.left + offsetX, top: active.top + offsetY });
+      active.setCoords();
+      canvas.requestRenderAll();
+
+      pending = active;
+      if (timer !== null) clearTimeout(timer);
+      timer = setTimeout(commit, commitDelay);
+      return true;
+    },
+
+    commit,
+
+    cleanup() {
+      commit();
+      canvas.off('before:selection:cleared', commit);
+      canvas.off('selection:updated', commit);
+      canvas.off('mouse:down', commit);
+    },
+  };
+}
+
+/** Built-in nudge commands, which continue a nudge burst rather than end it. */
+const nudgeCommands = new WeakSet<KeyboardCommand>();
+
+function nudgeCommand(
+  nudger: Nudger,
+  label: string,
+  dx: number,
+  dy: number,
+  large = false,
+): KeyboardCommand {
+  const command: KeyboardCommand = {
+    label,
+    run: (canvas) => nudger.nudge(canvas, dx, dy, large),
+  };
+  nudgeCommands.add(command);
+  return command;
+}
+
+function createDefaultCommands(
+  options: KeymapOptions | undefined,
+  nudger: Nudger,
+): Record<string, KeyboardCommand> {
+  return {
+    delete: {
+      label: 'Delete selection',
+      run: (canvas) => {
+        const active = canvas.getActiveObjects();
+        if (active.length === 0) return false;
         canvas.discardActiveObject();
         deleteObjects(canvas, ...active);
-      }
-    }
+      },
+    },
+    selectAll: {
+      label: 'Select all',
+      run: (canvas) => selectAll(canvas),
+    },
+    deselect: {
+      label: 'Deselect',
+      run: (canvas) => {
+        if (!canvas.getActiveObject()) return false;
+        canvas.discardActiveObject();
+        canvas.requestRenderAll();
+      },
+    },
+    undo: {
+      label: 'Undo',
+      run: () => {
+        if (!options?.history) return false;
+        void options.history.undo();
+      },
+    },
+    redo: {
+      label: 'Redo',
+      run: () => {
+        if (!options?.history) return false;
+        void options.history.redo();
+      },
+    },
+    duplicate: {
+      label: 'Duplicate selection',
+      run: (canvas) => {
+        const active = canvas.getActiveObjects();
+        if (active.length === 0) return false;
+        if (options?.clipboard) void options.clipboard.duplicate();
+        else void duplicateObjects(canvas, active);
+      },
+    },
+    group: {
+      label: 'Group selection',
+      run: (canvas) => groupObjects(canvas) !== null,
+    },
+    ungroup: {
+      label: 'Ungroup selection',
+      run: (canvas) => ungroupObjects(canvas).length > 0,
+    },
+    nudgeUp: nudgeCommand(nudger, 'Nudge up', 0, -1),
+    nudgeDown: nudgeCommand(nudger, 'Nudge down', 0, 1),
+    nudgeLeft: nudgeCommand(nudger, 'Nudge left', -1, 0),
+    nudgeRight: nudgeCommand(nudger, 'Nudge right', 1, 0),
+    nudgeUpLarge: nudgeCommand(nudger, 'Nudge up (large)', 0, -1, true),
+    nudgeDownLarge: nudgeCommand(nudger, 'Nudge down (large)', 0, 1, true),
+    nudgeLeftLarge: nudgeCommand(nudger, 'Nudge left (large)', -1, 0, true),
+    nudgeRightLarge: nudgeCommand(nudger, 'Nudge right (large)', 1, 0, true),
+    zoomIn: {
+      label: 'Zoom in',
+      run: () => {
+        if (!options?.zoom) return false;
+        options.zoom.zoomIn();
+      },
+    },
+    zoomOut: {
+      label: 'Zoom out',
+      run: () => {
+        if (!options?.zoom) return false;
+        options.zoom.zoomOut();
+      },
+    },
+    zoomReset: {
+      label: 'Reset zoom',
+      run: () => {
+        if (!options?.zoom) return false;
+        options.zoom.reset();
+      },
+    },
   };
+}
+
+/**
+ * Default chord → command bindings. `Mod` is Cmd on macOS and Ctrl
+ * elsewhere.
+ */
+export const DEFAULT_KEY_BINDINGS: Readonly<Record<string, string>> = {
+  Delete: 'delete',
+  Backspace: 'delete',
+  'Mod+A': 'selectAll',
+  Escape: 'deselect',
+  'Mod+Z': 'undo',
+  'Mod+Shift+Z': 'redo',
+  'Mod+Y': 'redo',
+  'Mod+D': 'duplicate',
+  'Mod+G': 'group',
+  'Mod+Shift+G': 'ungroup',
+  ArrowUp: 'nudgeUp',
+  ArrowDown: 'nudgeDown',
+  ArrowLeft: 'nudgeLeft',
+  ArrowRight: 'nudgeRight',
+  'Shift+ArrowUp': 'nudgeUpLarge',
+  'Shift+ArrowDown': 'nudgeDownLarge',
+  'Shift+ArrowLeft': 'nudgeLeftLarge',
+  'Shift+ArrowRight': 'nudgeRightLarge',
+  'Mod+=': 'zoomIn',
+  'Mod++': 'zoomIn',
+  'Mod+-': 'zoomOut',
+  'Mod+0': 'zoomReset',
+};
 
-  document.addEventListener('keydown', handleKeyDown);
+// --- Public API ---
 
-  return () => {
-    document.removeEventListener('keydown', handleKeyDown);
+/**
+ * Create a keyboard shortcut registry for the canvas.
+ *
+ * Commands are named actions (see {@link KeyboardCommand}); bindings map
+ * key chords such as `'Mod+Shift+Z'` to command ids. Built-in commands are
+ * `delete`, `selectAll`, `deselect`, `undo`, `redo`, `duplicate`, `group`,
+ * `ungroup`, the `nudge*` commands and `zoomIn` / `zoomOut` / `zoomReset`,
+ * bound as in {@link DEFAULT_KEY_BINDINGS}. Override or extend both via
+ * `options`.
+ *
+ * Handled key events are prevented. Keys are ignored while typing in inputs
+ * or editable elements, and while a text object is being edited.
+ */
+export function createKeymap(
+  canvas: FabricCanvas,
+  options?: KeymapOptions,
+): Keymap {
+  const nudger = createNudger(canvas, options?.nudge);
+  const commands = new Map<string, KeyboardCommand>(
+    Object.entries(createDefaultCommands(options, nudger)),
+  );
+  for (const [id, command] of Object.entries(options?.commands ?? {})) {
+    if (command) commands.set(id, command);
+    else commands.delete(id);
+  }
+
+  /** Canonical chord → binding (original chord text and command id). */
+  const bindings = new Map<string, { chord: string; command: string }>();
+  const bind = (chord: string, command: string | null) => {
+    const key = normalizeChord(chord);
+    if (command) bindings.set(key, { chord, command });
+    else bindings.delete(key);
+  };
+  for (const [chord, command] of Object.entries({
+    ...DEFAULT_KEY_BINDINGS,
+    ...options?.bindings,
+  })) {
+    bind(chord, command);
+  }
+
+  const run = (id: string, event: KeyboardEvent | null) => {
+    const command = commands.get(id);
+    if (!command) return false;
+    // Report a nudge burst before anything else changes the canvas, so it
+    // is recorded as its own change (e.g. before undo).
+    if (!nudgeCommands.has(command)) nudger.commit();
+    return command.run(canvas, event) !== false;
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.defaultPrevented || e.isComposing) return;
+    if (isEditableTarget(e.target)) return;
+    const active = canvas.getActiveObject() as
+      | (FabricObject & { isEditing?: boolean })
+      | undefined;
+    if (active?.isEditing) return;
+
+    const binding = bindings.get(eventToChord(e));
+    if (binding && run(binding.command, e)) e.preventDefault();
+  };
+
+  const scope = options?.scope ?? 'canvas';
+  const target: HTMLElement | Document =
+    scope === 'canvas' ? canvas.wrapperEl : document;
+  const restoreFocus = scope === 'canvas' ? makeCanvasFocusable(canvas) : null;
+  target.addEventListener('keydown', handleKeyDown as EventListener);
+
+  return {
+    registerCommand(id, command) {
+      commands.set(id, command);
+    },
+
+    bind,
+
+    getBindings() {
+      return [...bindings.values()]
+        .filter(({ command }) => commands.has(command))
+        .map(({ chord, command }) => ({
+          chord,
+          command,
+          label: commands.get(command)!.label,
+        }));
+    },
+
+    run(id) {
+      return run(id, null);
+    },
+
+    cleanup() {
+      nudger.cleanup();
+      target.removeEventListener('keydown', handleKeyDown as EventListener);
+      restoreFocus?.();
+    },
   };
 }
+
+/**
+ * Enable keyboard shortcuts on the canvas with the default keymap (see
+ * {@link createKeymap}). Shortcuts only apply while the canvas has focus
+ * unless `options.scope` is `'document'`.
+ *
+ * Returns a cleanup function that removes the listener.
+ */
+export function enableKeyboardShortcuts(
+  canvas: FabricCanvas,
+  options?: KeymapOptions,
+): () => void {
+  return createKeymap(canvas, options).cleanup;
+}
@@ -0,0 +1,276 @@
+import { Canvas as FabricCanvas, FabricObject } from 'fabric';
+
+/**
+ * A named layer of a canvas document, e.g. Zones, Desks or Devices. Objects
+ * belong to a layer through their `data.layerId` or, failing that, their
+ * `data.type` (see {@link getObjectLayer}). Stored on the canvas and
+ * persisted by `serializeCanvas`.
+ */
+export interface CanvasLayer {
+  /** Unique id, referenced by `data.layerId`. */
+  id: string;
+  /** Display name, e.g. `'Desks'`. */
+  name: string;
+  /**
+   * `data.type` values whose objects belong to this layer unless their
+   * `data.layerId` names a layer. A type listed by several layers goes to
+   * the first of them.
+   */
+  types?: string[];
+  /** Whether the layer's objects are shown. */
+  visible: boolean;
+  /** Whether the layer's objects are shown but cannot be selected or clicked. */
+  locked: boolean;
+}
+
+/** Whether `value` is a well-formed list of {@link CanvasLayer}s with unique ids. */
+export function isCanvasLayers(value: unknown): value is CanvasLayer[] {
+  if (!Array.isArray(value)) return false;
+  const ids = new Set<string>();
+  return value.every((layer) => {
+    if (typeof layer !== 'object' || layer === null) return false;
+    const { id, name, types, visible, locked } = layer as Record<
+      string,
+      unknown
+    >;
+    if (typeof id !== 'string' || id === '' || ids.has(id)) return false;
+    ids.add(id);
+    return (
+      typeof name === 'string' &&
+      (types === undefined ||
+        (Array.isArray(types) && types.every((t) => typeof t === 'string'))) &&
+      typeof visible === 'boolean' &&
+      typeof locked === 'boolean'
+    );
+  });
+}
+
+function copyLayer(layer: CanvasLayer): CanvasLayer {
+  return { ...layer, ...(layer.types && { types: [...layer.types] }) };
+}
+
+/** Return the canvas's layers, bottom to top (empty if it has none). */
+export function getCanvasLayers(canvas: FabricCanvas): CanvasLayer[] {
+  return (canvas.layers ?? []).map(copyLayer);
+}
+
+/**
+ * Set the canvas's layers, bottom to top, or clear them with `[]`. Objects
+ * are shown, locked and stacked according to their layers right away. The
+ * layers are saved by `serializeCanvas` and restored by `loadCanvas`.
+ *
+ * Fires `layers:modified` on the canvas when the layers actually change.
+ */
+export function setCanvasLayers(
+  canvas: FabricCanvas,
+  layers: CanvasLayer[],
+): void {
+  if (!isCanvasLayers(layers)) {
+    throw new Error(
+      'Invalid canvas layers: each layer needs a unique non-empty id, a name, and boolean visible and locked flags.',
+    );
+  }
+  const changed =
+    JSON.stringify(canvas.layers ?? []) !== JSON.stringify(layers);
+  canvas.layers = layers.length > 0 ? layers.map(copyLayer) : undefined;
+  applyCanvasLayers(canvas);
+  if (changed) canvas.fire('layers:modified');
+}
+
+function findLayerIndex(canvas: FabricCanvas, id: string): number {
+  const index = (canvas.layers ?? []).findIndex((layer) => layer.id === id);
+  if (index === -1) throw new Error(`No layer with id "${id}".`);
+  return index;
+}
+
+/**
+ * Change a layer's name, types, visibility or lock, e.g.
+ * `updateCanvasLayer(canvas, 'zones', { locked: true })`. Throws if there is
+ * no layer with that id.
+ */
+export function updateCanvasLayer(
+  canvas: FabricCanvas,
+  id: string,
+  changes: Partial<Omit<CanvasLayer, 'id'>>,
+): void {
+  const layers = getCanvasLayers(canvas);
+  const index = findLayerIndex(canvas, id);
+  layers[index] = { ...layers[index], ...changes, id };
+  setCanvasLayers(canvas, layers);
+}
+
+/**
+ * Move a layer to `index` in the stacking order (0 is the bottom), taking
+ * its objects with it. Throws if there is no layer with that id.
+ */
+export function moveCanvasLayer(
+  canvas: FabricCanvas,
+  id: string,
+  index: number,
+): void {
+  const layers = getCanvasLayers(canvas);
+  const [layer] = layers.splice(findLayerIndex(canvas, id), 1);
+  layers.splice(Math.max(0, Math.min(index, layers.length)), 0, layer);
+  setCanvasLayers(canvas, layers);
+}
+
+// --- Objects ---
+
+/** Layer index of each top-level object that belongs to a layer. */
+function getLayerIndices(canvas: FabricCanvas): Map<FabricObject, number> {
+  const layers = canvas.layers ?? [];
+  const byId = new Map(layers.map((layer, i) => [layer.id, i]));
+  const byType = new Map<string, number>();
+  layers.forEach((layer, i) => {
+    for (const type of layer.types ?? []) {
+      if (!byType.has(type)) byType.set(type, i);
+    }
+  });
+
+  const indices = new Map<FabricObject, number>();
+  if (layers.length === 0) return indices;
+  for (const obj of canvas.getObjects()) {
+    if (!obj.data || obj.excludeFromExport) continue;
+    const index =
+      (obj.data.layerId !== undefined
+        ? byId.get(obj.data.layerId)
+        : undefined) ?? byType.get(obj.data.type);
+    if (index !== undefined) indices.set(obj, index);
+  }
+  return indices;
+}
+
+/**
+ * The layer `obj` belongs to: the layer named by its `data.layerId`, else
+ * the first layer listing its `data.type`, else `null`. Only top-level
+ * canvas objects belong to layers; members of groups go with their group.
+ */
+export function getObjectLayer(
+  canvas: FabricCanvas,
+  obj: FabricObject,
+): CanvasLayer | null {
+  const index = getLayerIndices(canvas).get(obj);
+  return index === undefined ? null : copyLayer(canvas.layers![index]);
+}
+
+/** The objects on a layer, in stacking order. */
+export function getLayerObjects(
+  canvas: FabricCanvas,
+  id: string,
+): FabricObject[] {
+  const index = findLayerIndex(canvas, id);
+  const indices = getLayerIndices(canvas);
+  return canvas.getObjects().filter((obj) => indices.get(obj) === index);
+}
+
+/**
+ * Put `obj` on a layer by setting its `data.layerId`, or pass `null` to
+ * return it to the layer of its `data.type`. The object needs `data`.
+ * Throws if there is no layer with that id.
+ *
+ * Fires `object:modified` on the object, so history and dirty tracking pick
+ * up the change.
+ */
+export function setObjectLayer(
+  canvas: FabricCanvas,
+  obj: FabricObject,
+  layerId: string | null,
+): void {
+  if (!obj.data) {
+    throw new Error('Only objects with `data` can be put on a layer.');
+  }
+  if (layerId !== null) {
+    findLayerIndex(canvas, layerId);
+    obj.data = { ...obj.data, layerId };
+  } else {
+    if (obj.data.layerId === undefined) return;
+    const { layerId: _layerId, ...data } = obj.data;
+    obj.data = data;
+  }
+  applyCanvasLayers(canvas);
+  canvas.fire('object:modified', { target: obj });
+}
+
+// --- Applying layer state ---
+
+/** Objects whose visibility or interactivity was set by a layer. */
+const layeredObjects = new WeakSet<FabricObject>();
+
+/**
+ * Show, lock and stack the canvas objects according to their layers:
+ * objects on hidden layers are hidden, objects on locked layers are neither
+ * selectable nor evented, and objects are stacked in layer order. Objects
+ * without a layer keep their place in the stack, and objects that left a
+ * layer are shown and unlocked again.
+ *
+ * Called by the layer functions and `loadCanvas`; call it after setting
+ * `selectable` / `evented` on all objects in bulk. Locks are only applied
+ * while the canvas allows selection, since interaction modes and pan mode
+ * manage selectability themselves.
+ */
+export function applyCanvasLayers(canvas: FabricCanvas): void {
+  const layers = canvas.layers ?? [];
+  const indices = getLayerIndices(canvas);
+  const interactive = canvas.selection;
+
+  for (const obj of canvas.getObjects()) {
+    const index = indices.get(obj);
+    if (index !== undefined) {
+      const { visible, locked } = layers[index];
+      layeredObjects.add(obj);
+      obj.visible = visible;
+      if (interactive) {
+        obj.selectable = visible && !locked;
+        obj.evented = visible && !locked;
+      }
+    } else if (layeredObjects.has(obj)) {
+      layeredObjects.delete(obj);
+      obj.visible = true;
+      if (interactive) {
+        obj.selectable = true;
+        obj.evented = true;
+      }
+    }
+  }
+
+  // Stable sort of the layered objects within the stack positions they
+  // already occupy, so unlayered objects stay where they are.
+  const objects = canvas.getObjects();
+  const sorted = objects
+    .filter((obj) => indices.has(obj))
+    .sort((a, b) => indices.get(a)! - indices.get(b)!);
+  let next = 0;
+  const order = objects.map((obj) => (indices.has(obj) ? sorted[next++] : obj));
+  order.forEach((obj, i) => {
+    if (objects[i] === obj) return;
+    objects.splice(objects.indexOf(obj), 1);
+    objects.splice(i, 0, obj);
+    canvas.moveObjectTo(obj, i);
+  });
+
+  if (
+    canvas.getActiveObjects().some((obj) => indices.has(obj) && !obj.selectable)
+  ) {
+    canvas.discardActiveObject();
+  }
+  canvas.requestRenderAll();
+}
+
+/**
+ * Keep objects in line with their layers as they are added or modified, e.g.
+ * place a new desk on the Desks layer, or re-apply the layer after undoing
+ * a change to `data.layerId`.
+ *
+ * Returns a cleanup function that removes the listeners.
+ */
+export function enableLayers(canvas: FabricCanvas): () => void {
+  const onChange = () => {
+    if (canvas.layers) applyCanvasLayers(canvas);
+  };
+  canvas.on('object:added', onChange);
+  canvas.on('object:modified', onChange);
+  return () => {
+    canvas.off('object:added', onChange);
+    canvas.off('object:modified', onChange);
+  };
+}
@@ -0,0 +1,149 @@
+import type { CanvasJSON } from './types';
+
+/**
+ * Schema version written by {@link serializeCanvas}.
+ *
+ * Bump this whenever the saved format changes and register a migration that
+ * upgrades payloads from the previous version. Payloads without a
+ * `schemaVersion` field (everything saved before versioning was introduced,
+ * including data from the old Fabric 6 canvas) are treated as version `0`.
+ */
+export const CANVAS_SCHEMA_VERSION = 1;
+
+/**
+ * A single upgrade step between two consecutive schema versions.
+ *
+ * Migrations operate on plain JSON only — they never touch a Fabric canvas —
+ * so they can be unit-tested in isolation.
+ */
+export interface CanvasMigration {
+  /** The schema version this step upgrades a payload *to* (from `version - 1`). */
+  version: number;
+  /** Short human-readable description of what the step changes. */
+  description: string;
+  /**
+   * Transform a payload at `version - 1` into one at `version`. Receives a
+   * private copy of the payload, so it may mutate and return its argument.
+   * The pipeline stamps `schemaVersion` after each step.
+   */
+  migrate: (json: CanvasJSON) => CanvasJSON;
+}
+
+/** Registered migrations keyed by their target version. */
+const registry = new Map<number, CanvasMigration>();
+
+/**
+ * Register a migration step. Registering a step for a version that already
+ * has one replaces it (last registered wins), allowing consumers to override
+ * built-in steps.
+ */
+export function registerCanvasMigration(migration: CanvasMigration): void {
+  if (!Number.isInteger(migration.version) || migration.version < 1) {
+    throw new Error(
+      `Canvas migration version must be a positive integer, got ${migration.version}.`,
+    );
+  }
+  registry.set(migration.version, migration);
+}
+
+/**
+ * Return all registered migrations, ordered by target version.
+ */
+export function getCanvasMigrations(): CanvasMigration[] {
+  return [...registry.values()].sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Read the schema version of a serialized canvas payload.
+ * Returns `0` for payloads written before versioning was introduced.
+ */
+export function getCanvasSchemaVersion(json: CanvasJSON | object): number {
+  const version = (json as Record<string, unknown>).schemaVersion;
+  return typeof version === 'number' && Number.isInteger(version) && version > 0
+    ? version
+    : 0;
+}
+
+/**
+ * Strip fields that {@link serializeCanvas} writes purely so that the old
+ * (Fabric 6) canvas can still read the data. They duplicate state the new
+ * canvas keeps elsewhere, so they are dropped on every load regardless of
+ * schema version.
+ */
+function stripCompatibilityFields(json: CanvasJSON): CanvasJSON {
+  // Contrast/inversion mirror — the new canvas reads actual Fabric filters
+  // on the background image instead.
+  delete json.backgroundFilters;
+
+  // Base stroke width mirror — the new canvas tracks it in a WeakMap.
+  const stripStrokeWidthBase = (objects: Record<string, unknown>[]) => {
+    for (const obj of objects) {
+      const data = obj.data as Record<string, unknown> | undefined;
+      if (data && typeof data === 'object' && 'strokeWidthBase' in data) {
+        delete data.strokeWidthBase;
+      }
+      // Members of groups carry it too.
+      if (Array.isArray(obj.objects)) stripStrokeWidthBase(obj.objects);
+    }
+  };
+  stripStrokeWidthBase(json.objects);
+
+  // Inversion is a runtime concern (determined by the current theme), not
+  // something that should persist. Callers use setBackgroundInverted() to
+  // apply the correct state after load.
+  const bg = json.backgroundImage as Record<string, unknown> | undefined;
+  if (bg && Array.isArray(bg.filters)) {
+    bg.filters = bg.filters.filter(
+      (f) => (f as Record<string, unknown> | null)?.type !== 'Invert',
+    );
+  }
+
+  return json;
+}
+
+/**
+ * Upgrade a serialized canvas payload to {@link CANVAS_SCHEMA_VERSION}.
+ *
+ * Runs every registered migration newer than the payload's version, one step
+ * at a time and in order, then strips Fabric 6 compatibility fields. The
+ * input is never mutated.
+ *
+ * Throws if the payload was written by a newer version of this package, or
+ * if a step in the chain is missing.
+ */
+export function migrateCanvasJSON(json: CanvasJSON | object): CanvasJSON {
+  const from = getCanvasSchemaVersion(json);
+  if (from > CANVAS_SCHEMA_VERSION) {
+    throw new Error(
+      `Canvas data has schema version ${from}, but this version of @bwp-web/canvas supports up to ${CANVAS_SCHEMA_VERSION}.`,
+    );
+  }
+
+  let result = structuredClone(json) as CanvasJSON;
+  if (!Array.isArray(result.objects)) result.objects = [];
+
+  for (let version = from + 1; version <= CANVAS_SCHEMA_VERSION; version++) {
+    const migration = registry.get(version);
+    if (!migration) {
+      throw new Error(`No canvas migration registered for version ${version}.`);
+    }
+    result = migration.migrate(result);
+    result.schemaVersion = version;
+  }
+
+  return stripCompatibilityFields(result);
+}
+
+// --- Built-in migrations ---
+
+// 0 → 1: payloads saved before versioning. The old canvas persisted the
+// theme-dependent background colour; it is a runtime concern, not user data.
+registerCanvasMigration({
+  version: 1,
+  description: 'Strip persisted backgroundColor from unversioned payloads',
+  migrate(json) {
+    delete json.backgroundColor;
+    delete json.background;
+    return json;
+  },
+});
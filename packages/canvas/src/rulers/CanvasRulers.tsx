@@ -0,0 +1,404 @@
+import type { Canvas as FabricCanvas } from 'fabric';
+import {
+  type CSSProperties,
+  type PointerEvent as ReactPointerEvent,
+  type ReactNode,
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from 'react';
+import { Canvas, type CanvasProps } from '../Canvas';
+import { setCanvasGuides, type CanvasGuide } from '../guides';
+import { getCanvasScale, toSceneLength, type CanvasScale } from '../scale';
+import { getStrokeFreeCoords } from '../alignment/objectAlignmentUtils';
+import { DEFAULT_RULER_STYLE } from '../styles';
+import { drawRuler, type RulerStyle } from './drawRuler';
+
+export interface CanvasRulersProps extends CanvasProps {
+  /**
+   * Guides (controlled). Use with `onGuidesChange`, e.g. to save the guides
+   * with the user's preferences.
+   */
+  guides?: CanvasGuide[];
+  /** Initial guides when uncontrolled. */
+  defaultGuides?: CanvasGuide[];
+  /** Called when a guide is added, moved or removed. */
+  onGuidesChange?: (guides: CanvasGuide[]) => void;
+  /**
+   * Make the guides snap targets for cursor snapping and object alignment
+   * (see `setCanvasGuides`). Default: `true`.
+   */
+  snapToGuides?: boolean;
+  /** Ruler and guide appearance. Default: `DEFAULT_RULER_STYLE`. */
+  rulerStyle?: Partial<RulerStyle>;
+  /**
+   * Rendered over the canvas area (which is `position: relative`), e.g. an
+   * `OverlayContainer`.
+   */
+  children?: ReactNode;
+}
+
+interface GuideDrag {
+  orientation: CanvasGuide['orientation'];
+  /** Index of the guide being moved, or `null` for a new one. */
+  index: number | null;
+  /** Current position in scene units, or `null` outside the canvas area. */
+  position: number | null;
+}
+
+/** Half the width of a guide's pointer hit area, in screen pixels. */
+const GUIDE_HIT_SLOP = 3;
+
+/**
+ * A {@link Canvas} with horizontal and vertical rulers. The rulers follow pan
+ * and zoom, mark the cursor position and the extents of the selection, and
+ * are labelled in the canvas's real-world units when it has a scale (scene
+ * units otherwise).
+ *
+ * Drag from a ruler to create a guide: the top ruler makes horizontal guides,
+ * the left ruler vertical ones. Guides can be dragged to move them, or back
+ * onto a ruler to remove them, and act as snap targets for the alignment
+ * system.
+ *
+ * Accepts all {@link CanvasProps}; `className` and `style` apply to the
+ * outer element, and fixed `width` / `height` size the canvas area.
+ *
+ * @example
+ * ```tsx
+ * const canvas = useEditCanvas();
+ *
+ * <CanvasRulers onReady={canvas.onReady} />
+ * ```
+ */
+export function CanvasRulers({
+  guides: guidesProp,
+  defaultGuides,
+  onGuidesChange,
+  snapToGuides,
+  rulerStyle,
+  children,
+  className,
+  style,
+  onReady,
+  ...canvasProps
+}: CanvasRulersProps) {
+  const [fabricCanvas, setFabricCanvas] = useState<FabricCanvas | null>(null);
+  const [uncontrolledGuides, setUncontrolledGuides] = useState<CanvasGuide[]>(
+    defaultGuides ?? [],
+  );
+  const guides = guidesProp ?? uncontrolledGuides;
+  const [drag, setDrag] = useState<GuideDrag | null>(null);
+  const [scale, setScale] = useState<CanvasScale | null>(null);
+
+  const onReadyRef = useRef(onReady);
+  onReadyRef.current = onReady;
+  const topRulerRef = useRef<HTMLCanvasElement>(null);
+  const leftRulerRef = useRef<HTMLCanvasElement>(null);
+  const areaRef = useRef<HTMLDivElement>(null);
+  const guidesLayerRef = useRef<HTMLDivElement>(null);
+  const cursorRef = useRef<{
+    x: number | null;
+    y: number | null;
+  } | null>(null);
+
+  const resolvedStyle: RulerStyle = { ...DEFAULT_RULER_STYLE, ...rulerStyle };
+  const styleRef = useRef(resolvedStyle);
+  styleRef.current = resolvedStyle;
+  const size = resolvedStyle.size;
+
+  const handleReady = useCallback((canvas: FabricCanvas) => {
+    setFabricCanvas(canvas);
+    onReadyRef.current?.(canvas);
+  }, []);
+
+  const updateGuides = (next: CanvasGuide[]) => {
+    if (guidesProp === undefined) setUncontrolledGuides(next);
+    onGuidesChange?.(next);
+  };
+
+  // --- Rendering ---
+
+  /** Redraw both rulers and reposition the guide elements. */
+  const redraw = useCallback(() => {
+    const canvas = fabricCanvas;
+    if (!canvas) return;
+    const vpt = canvas.viewportTransform;
+    const zoom = canvas.getZoom();
+    const ratio = window.devicePixelRatio || 1;
+    const rulerStyle = styleRef.current;
+    const unitSize = getCanvasScale(canvas) ? toSceneLength(canvas, 1)! : 1;
+
+    const active = canvas.getActiveObject();
+    let extentX: [number, number] | null = null;
+    let extentY: [number, number] | null = null;
+    if (active) {
+      const coords = getStrokeFreeCoords(active);
+      const xs = coords.map((p) => p.x);
+      const ys = coords.map((p) => p.y);
+      extentX = [Math.min(...xs), Math.max(...xs)];
+      extentY = [Math.min(...ys), Math.max(...ys)];
+    }
+
+    const rulers = [
+      {
+        el: topRulerRef.current,
+        orientation: 'horizontal' as const,
+        length: canvas.width,
+        offset: vpt[4],
+        cursor: cursorRef.current?.x ?? null,
+        extent: extentX,
+      },
+      {
+        el: leftRulerRef.current,
+        orientation: 'vertical' as const,
+        length: canvas.height,
+        offset: vpt[5],
+        cursor: cursorRef.current?.y ?? null,
+        extent: extentY,
+      },
+    ];
+    for (const { el, ...state } of rulers) {
+      const ctx = el?.getContext('2d');
+      if (!el || !ctx) continue;
+      const horizontal = state.orientation === 'horizontal';
+      const width = horizontal ? state.length : rulerStyle.size;
+      const height = horizontal ? rulerStyle.size : state.length;
+      if (el.width !== width * ratio || el.height !== height * ratio) {
+        el.width = width * ratio;
+        el.height = height * ratio;
+        el.style.width = `${width}px`;
+        el.style.height = `${height}px`;
+      }
+      ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+      drawRuler(ctx, { ...state, zoom, unitSize, style: rulerStyle });
+    }
+
+    for (const el of Array.from(guidesLayerRef.current?.children ?? [])) {
+      const guide = el as HTMLElement;
+      const position = Number(guide.dataset.position);
+      guide.style.transform =
+        guide.dataset.orientation === 'vertical'
+          ? `translateX(${position * zoom + vpt[4] - GUIDE_HIT_SLOP}px)`
+          : `translateY(${position * zoom + vpt[5] - GUIDE_HIT_SLOP}px)`;
+    }
+  }, [fabricCanvas]);
+
+  useEffect(() => {
+    const canvas = fabricCanvas;
+    if (!canvas) return;
+
+    let rafId = 0;
+    const scheduleRedraw = () => {
+      cancelAnimationFrame(rafId);
+      rafId = requestAnimationFrame(redraw);
+    };
+    const onMove = (e: { scenePoint: { x: number; y: number } }) => {
+      cursorRef.current = { x: e.scenePoint.x, y: e.scenePoint.y };
+      scheduleRedraw();
+    };
+    const onOut = () => {
+      cursorRef.current = null;
+      scheduleRedraw();
+    };
+    const onScaleModified = () => {
+      setScale(getCanvasScale(canvas));
+      scheduleRedraw();
+    };
+
+    canvas.on('after:render', redraw);
+    canvas.on('mouse:move', onMove);
+    canvas.on('mouse:out', onOut);
+    canvas.on('scale:modified', onScaleModified);
+    setScale(getCanvasScale(canvas));
+    redraw();
+
+    return () => {
+      cancelAnimationFrame(rafId);
+      canvas.off('after:render', redraw);
+      canvas.off('mouse:move', onMove);
+      canvas.off('mouse:out', onOut);
+      canvas.off('scale:modified', onScaleModified);
+    };
+  }, [fabricCanvas, redraw]);
+
+  // Position guide elements after every render (e.g. a guide was added).
+  useLayoutEffect(redraw);
+
+  useEffect(() => {
+    if (!fabricCanvas) return;
+    setCanvasGuides(fabricCanvas, snapToGuides === false ? [] : guides);
+    return () => setCanvasGuides(fabricCanvas, []);
+  }, [fabricCanvas, guides, snapToGuides]);
+
+  // --- Guide dragging ---
+
+  /** Scene position of a pointer along a guide's axis, or `null` outside the canvas area. */
+  const getDragPosition = (
+    e: ReactPointerEvent,
+    orientation: CanvasGuide['orientation'],
+  ): number | null => {
+    const area = areaRef.current;
+    if (!fabricCanvas || !area) return null;
+    const rect = area.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    const y = e.clientY - rect.top;
+    if (x < 0 || y < 0 || x > rect.width || y > rect.height) return null;
+    const vpt = fabricCanvas.viewportTransform;
+    const zoom = fabricCanvas.getZoom();
+    return orientation === 'vertical'
+      ? (x - vpt[4]) / zoom
+      : (y - vpt[5]) / zoom;
+  };
+
+  const startDrag = (
+    e: ReactPointerEvent,
+    orientation: CanvasGuide['orientation'],
+    index: number | null,
+  ) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ orientation, index, position: getDragPosition(e, orientation) });
+  };
+
+  const moveDrag = (e: ReactPointerEvent) => {
+    if (!drag) return;
+    const position = getDragPosition(e, drag.orientation);
+    setDrag({ ...drag, position });
+    if (position !== null) {
+      cursorRef.current =
+        drag.orientation === 'vertical'
+          ? { x: position, y: null }
+          : { x: null, y: position };
+      redraw();
+    }
+  };
+
+  const endDrag = (e: ReactPointerEvent) => {
+    if (!drag) return;
+    const position = getDragPosition(e, drag.orientation);
+    setDrag(null);
+    cursorRef.current = null;
+    const next = guides.filter((_, i) => i !== drag.index);
+    if (position !== null) {
+      const guide = { orientation: drag.orientation, position };
+      if (drag.index === null) next.push(guide);
+      else next.splice(drag.index, 0, guide);
+    }
+    // Dropping a new guide outside the canvas area is a no-op.
+    if (position !== null || drag.index !== null) updateGuides(next);
+  };
+
+  const dragHandlers = {
+    onPointerMove: moveDrag,
+    onPointerUp: endDrag,
+    onPointerCancel: () => setDrag(null),
+  };
+
+  // --- Layout ---
+
+  const isFixedSize =
+    canvasProps.width !== undefined && canvasProps.height !== undefined;
+  const wrapperStyle: CSSProperties = {
+    display: 'grid',
+    gridTemplateColumns: `${size}px ${isFixedSize ? `${canvasProps.width}px` : 'minmax(0, 1fr)'}`,
+    gridTemplateRows: `${size}px ${isFixedSize ? `${canvasProps.height}px` : 'minmax(0, 1fr)'}`,
+    ...(isFixedSize ? {} : { width: '100%', height: '100%' }),
+    ...style,
+  };
+  const rulerElementStyle: CSSProperties = {
+    display: 'block',
+    background: resolvedStyle.background,
+    touchAction: 'none',
+  };
+
+  const renderGuide = (guide: CanvasGuide, index: number | null) => {
+    const vertical = guide.orientation === 'vertical';
+    const line = `${GUIDE_HIT_SLOP}px`;
+    const lineEnd = `${GUIDE_HIT_SLOP + 1}px`;
+    return (
+      <div
+        key={index ?? 'drag'}
+        data-orientation={guide.orientation}
+        data-position={guide.position}
+        onPointerDown={
+          index === null
+            ? undefined
+            : (e) => startDrag(e, guide.orientation, index)
+        }
+        {...(index === null ? {} : dragHandlers)}
+        style={{
+          position: 'absolute',
+          left: 0,
+          top: 0,
+          [vertical ? 'height' : 'width']: '100%',
+          [vertical ? 'width' : 'height']: GUIDE_HIT_SLOP * 2 + 1,
+          background: `linear-gradient(${vertical ? 'to right' : 'to bottom'}, transparent ${line}, ${resolvedStyle.guideColor} ${line}, ${resolvedStyle.guideColor} ${lineEnd}, transparent ${lineEnd})`,
+          cursor: vertical ? 'ew-resize' : 'ns-resize',
+          pointerEvents: index === null ? 'none' : 'auto',
+          touchAction: 'none',
+        }}
+      />
+    );
+  };
+
+  return (
+    <div className={className} style={wrapperStyle}>
+      <div
+        style={{
+          background: resolvedStyle.background,
+          color: resolvedStyle.textColor,
+          font: `${resolvedStyle.fontSize}px ${resolvedStyle.fontFamily}`,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          borderRight: `1px solid ${resolvedStyle.tickColor}`,
+          borderBottom: `1px solid ${resolvedStyle.tickColor}`,
+          boxSizing: 'border-box',
+        }}
+      >
+        {scale?.unit}
+      </div>
+      <canvas
+        ref={topRulerRef}
+        style={{ ...rulerElementStyle, cursor: 'ns-resize' }}
+        onPointerDown={(e) => startDrag(e, 'horizontal', null)}
+        {...dragHandlers}
+      />
+      <canvas
+        ref={leftRulerRef}
+        style={{ ...rulerElementStyle, cursor: 'ew-resize' }}
+        onPointerDown={(e) => startDrag(e, 'vertical', null)}
+        {...dragHandlers}
+      />
+      <div
+        ref={areaRef}
+        style={{ position: 'relative', overflow: 'hidden', minWidth: 0 }}
+      >
+        <Canvas {...canvasProps} onReady={handleReady} />
+        <div
+          ref={guidesLayerRef}
+          style={{
+            position: 'absolute',
+            inset: 0,
+            pointerEvents: 'none',
+            zIndex: 1,
+          }}
+        >
+          {guides.map((guide, i) =>
+            drag?.index === i ? null : renderGuide(guide, i),
+          )}
+          {drag?.position != null &&
+            renderGuide(
+              { orientation: drag.orientation, position: drag.position },
+              null,
+            )}
+        </div>
+        {children}
+      </div>
+    </div>
+  );
+}
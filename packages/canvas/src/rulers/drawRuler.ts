@@ -0,0 +1,122 @@
+import { MIN_RULER_LABEL_SPACING } from '../constants';
+
+/** Ruler and guide appearance. Sizes are in screen pixels. */
+export interface RulerStyle {
+  /** Ruler thickness. */
+  size: number;
+  background: string;
+  tickColor: string;
+  textColor: string;
+  fontSize: number;
+  fontFamily: string;
+  /** Cursor position marker. */
+  cursorColor: string;
+  /** Band showing the selection extents. */
+  selectionColor: string;
+  guideColor: string;
+}
+
+export interface RulerState {
+  orientation: 'horizontal' | 'vertical';
+  /** Ruler length in screen pixels. */
+  length: number;
+  /** Viewport translation along the ruler's axis, in screen pixels. */
+  offset: number;
+  zoom: number;
+  /** Scene units per labelled unit: 1 for scene units, or from the canvas scale. */
+  unitSize: number;
+  /** Cursor position along the axis, in scene units. */
+  cursor: number | null;
+  /** Selection start and end along the axis, in scene units. */
+  extent: [number, number] | null;
+  style: RulerStyle;
+}
+
+/**
+ * The smallest 1, 2 or 5 × 10ⁿ step not below `min`, with the number of
+ * minor divisions that suits it.
+ */
+function getRulerStep(min: number): { step: number; divisions: number } {
+  const magnitude = 10 ** Math.floor(Math.log10(min));
+  for (const mantissa of [1, 2, 5, 10]) {
+    const step = mantissa * magnitude;
+    if (step >= min) return { step, divisions: mantissa === 2 ? 4 : 5 };
+  }
+  return { step: 10 * magnitude, divisions: 5 };
+}
+
+/**
+ * Draw a ruler into a 2D context of `length × style.size` CSS pixels (the
+ * caller applies the device pixel ratio). The edge facing the canvas is the
+ * bottom edge of a horizontal ruler and the right edge of a vertical one.
+ */
+export function drawRuler(ctx: CanvasRenderingContext2D, state: RulerState) {
+  const { orientation, length, offset, zoom, unitSize, style } = state;
+  const size = style.size;
+  const horizontal = orientation === 'horizontal';
+  const scale = zoom * unitSize;
+  const toScreen = (scene: number) => scene * zoom + offset;
+
+  // Draw in a horizontal frame; vertical rulers swap the axes.
+  ctx.save();
+  if (!horizontal) ctx.transform(0, 1, 1, 0, 0, 0);
+
+  ctx.fillStyle = style.background;
+  ctx.fillRect(0, 0, length, size);
+
+  if (state.extent) {
+    const [start, end] = state.extent.map(toScreen);
+    ctx.fillStyle = style.selectionColor;
+    ctx.fillRect(start, 0, end - start, size);
+  }
+
+  const { step, divisions } = getRulerStep(MIN_RULER_LABEL_SPACING / scale);
+  const minor = step / divisions;
+  const decimals = Math.max(0, -Math.floor(Math.log10(minor * divisions)));
+  const first = Math.floor(-offset / scale / minor);
+  const last = Math.ceil((length - offset) / scale / minor);
+
+  ctx.strokeStyle = style.tickColor;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  for (let i = first; i <= last; i++) {
+    const x = Math.round(i * minor * scale + offset) + 0.5;
+    const tick = i % divisions === 0 ? size * 0.6 : size * 0.25;
+    ctx.moveTo(x, size);
+    ctx.lineTo(x, size - tick);
+  }
+  ctx.moveTo(0, size - 0.5);
+  ctx.lineTo(length, size - 0.5);
+  ctx.stroke();
+
+  ctx.fillStyle = style.textColor;
+  ctx.font = `${style.fontSize}px ${style.fontFamily}`;
+  ctx.textBaseline = 'top';
+  for (let i = Math.ceil(first / divisions); i * divisions <= last; i++) {
+    const value = i * step;
+    const x = Math.round(value * scale + offset);
+    const label = value.toFixed(decimals);
+    if (horizontal) {
+      ctx.fillText(label, x + 3, 2);
+    } else {
+      // Swap back and rotate, so vertical labels read bottom-to-top.
+      ctx.save();
+      ctx.transform(0, 1, 1, 0, 0, 0);
+      ctx.translate(2, x - 3);
+      ctx.rotate(-Math.PI / 2);
+      ctx.fillText(label, 0, 0);
+      ctx.restore();
+    }
+  }
+
+  if (state.cursor !== null) {
+    const x = Math.round(toScreen(state.cursor)) + 0.5;
+    ctx.strokeStyle = style.cursorColor;
+    ctx.beginPath();
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, size);
+    ctx.stroke();
+  }
+
+  ctx.restore();
+}
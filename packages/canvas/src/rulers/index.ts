@@ -0,0 +1,3 @@
+export { CanvasRulers } from './CanvasRulers';
+export type { CanvasRulersProps } from './CanvasRulers';
+export type { RulerStyle } from './drawRuler';
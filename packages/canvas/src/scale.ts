@@ -0,0 +1,369 @@
+import {
+  Canvas as FabricCanvas,
+  FabricObject,
+  Point,
+  Polygon,
+  Rect,
+  util,
+} from 'fabric';
+import { getPolygonOutline } from './shapes/curves';
+import type { Point2D } from './types';
+
+/** Real-world length units understood by the scale API. */
+export type LengthUnit = 'mm' | 'cm' | 'm' | 'in' | 'ft';
+
+/** A length in real-world units, e.g. `{ value: 5.2, unit: 'm' }`. */
+export interface RealLength {
+  value: number;
+  unit: LengthUnit;
+}
+
+/**
+ * Real-world scale of a canvas document: how many scene units make up one
+ * metre or one foot. Stored on the canvas and persisted by `serializeCanvas`.
+ */
+export interface CanvasScale {
+  /** Scene units per one `unit`. */
+  sceneUnitsPerUnit: number;
+  /** The unit the scale is expressed in, and the default unit for conversions. */
+  unit: 'm' | 'ft';
+}
+
+const METRES_PER_UNIT: Record<LengthUnit, number> = {
+  mm: 0.001,
+  cm: 0.01,
+  m: 1,
+  in: 0.0254,
+  ft: 0.3048,
+};
+
+const UNIT_ALIASES: Record<string, LengthUnit> = {
+  mm: 'mm',
+  millimeter: 'mm',
+  millimeters: 'mm',
+  millimetre: 'mm',
+  millimetres: 'mm',
+  cm: 'cm',
+  centimeter: 'cm',
+  centimeters: 'cm',
+  centimetre: 'cm',
+  centimetres: 'cm',
+  m: 'm',
+  meter: 'm',
+  meters: 'm',
+  metre: 'm',
+  metres: 'm',
+  in: 'in',
+  inch: 'in',
+  inches: 'in',
+  '"': 'in',
+  '″': 'in',
+  ft: 'ft',
+  foot: 'ft',
+  feet: 'ft',
+  "'": 'ft',
+  '′': 'ft',
+};
+
+const NUMBER = '(\\d+(?:\\.\\d*)?|\\.\\d+)';
+const SINGLE_LENGTH = new RegExp(`^${NUMBER}\\s*([a-z"'″′]*)$`);
+const FEET_AND_INCHES = new RegExp(
+  `^${NUMBER}\\s*(?:ft|foot|feet|'|′)\\s*${NUMBER}\\s*(?:in|inch|inches|"|″)?$`,
+);
+
+/**
+ * Parse a typed length such as `"5.2 m"`, `"520cm"`, `"17 ft"`, `"6'"`,
+ * `"5' 6\""` or `"5 ft 6 in"`. A comma is accepted as the decimal separator.
+ * Feet-and-inches values are returned in feet.
+ *
+ * A number without a unit uses `defaultUnit`. Returns `null` if the input
+ * cannot be read or is not a positive length.
+ */
+export function parseLength(
+  input: string,
+  defaultUnit?: LengthUnit,
+): RealLength | null {
+  const text = input.trim().toLowerCase().replace(/,/g, '.');
+
+  const feetAndInches = FEET_AND_INCHES.exec(text);
+  if (feetAndInches) {
+    const value =
+      parseFloat(feetAndInches[1]) + parseFloat(feetAndInches[2]) / 12;
+    return value > 0 ? { value, unit: 'ft' } : null;
+  }
+
+  const single = SINGLE_LENGTH.exec(text);
+  if (!single) return null;
+  const unit = single[2] ? UNIT_ALIASES[single[2]] : defaultUnit;
+  const value = parseFloat(single[1]);
+  if (!unit || !(value > 0)) return null;
+  return { value, unit };
+}
+
+/**
+ * Whether `value` is a usable {@link RealLength}: a positive, finite value in
+ * a known unit, as returned by {@link parseLength}.
+ */
+export function isRealLength(value: unknown): value is RealLength {
+  if (typeof value !== 'object' || value === null) return false;
+  const { value: length, unit } = value as Record<string, unknown>;
+  return (
+    typeof length === 'number' &&
+    Number.isFinite(length) &&
+    length > 0 &&
+    typeof unit === 'string' &&
+    Object.hasOwn(METRES_PER_UNIT, unit)
+  );
+}
+
+/** Convert a length between real-world units. */
+export function convertLength(
+  value: number,
+  from: LengthUnit,
+  to: LengthUnit,
+): number {
+  if (from === to) return value;
+  return (value * METRES_PER_UNIT[from]) / METRES_PER_UNIT[to];
+}
+
+/** Whether `value` is a well-formed {@link CanvasScale}. */
+export function isCanvasScale(value: unknown): value is CanvasScale {
+  if (typeof value !== 'object' || value === null) return false;
+  const { sceneUnitsPerUnit, unit } = value as Record<string, unknown>;
+  return (
+    typeof sceneUnitsPerUnit === 'number' &&
+    Number.isFinite(sceneUnitsPerUnit) &&
+    sceneUnitsPerUnit > 0 &&
+    (unit === 'm' || unit === 'ft')
+  );
+}
+
+/**
+ * Build a scale from a line drawn over a known distance: `sceneLength` scene
+ * units correspond to `length` (a {@link RealLength} or a string for
+ * {@link parseLength}). Metric lengths give a per-metre scale and imperial
+ * lengths a per-foot scale.
+ */
+export function createScaleFromLength(
+  sceneLength: number,
+  length: RealLength | string,
+): CanvasScale {
+  const real = typeof length === 'string' ? parseLength(length) : length;
+  if (!real || !(real.value > 0)) {
+    throw new Error(`Cannot read a length from "${String(length)}".`);
+  }
+  if (!(sceneLength > 0)) {
+    throw new Error(
+      `Scene length must be a positive number, got ${sceneLength}.`,
+    );
+  }
+  const unit = real.unit === 'in' || real.unit === 'ft' ? 'ft' : 'm';
+  return {
+    sceneUnitsPerUnit: sceneLength / convertLength(real.value, real.unit, unit),
+    unit,
+  };
+}
+
+/** Return the canvas's real-world scale, or `null` if it is not calibrated. */
+export function getCanvasScale(canvas: FabricCanvas): CanvasScale | null {
+  return canvas.realWorldScale ?? null;
+}
+
+/**
+ * Set or clear (`null`) the canvas's real-world scale. The scale is saved by
+ * `serializeCanvas` and restored by `loadCanvas`.
+ *
+ * Fires `scale:modified` on the canvas when the scale actually changes.
+ */
+export function setCanvasScale(
+  canvas: FabricCanvas,
+  scale: CanvasScale | null,
+): void {
+  if (scale && !isCanvasScale(scale)) {
+    throw new Error(
+      `Invalid canvas scale: sceneUnitsPerUnit must be a positive number and unit 'm' or 'ft'.`,
+    );
+  }
+  const previous = canvas.realWorldScale;
+  const changed =
+    previous?.sceneUnitsPerUnit !== scale?.sceneUnitsPerUnit ||
+    previous?.unit !== scale?.unit;
+  canvas.realWorldScale = scale ? { ...scale } : undefined;
+  if (changed) canvas.fire('scale:modified');
+}
+
+/**
+ * Convert a length in scene units to real-world units (default: the scale's
+ * own unit). Returns `null` if the canvas has no scale.
+ */
+export function toRealLength(
+  canvas: FabricCanvas,
+  sceneLength: number,
+  unit?: LengthUnit,
+): number | null {
+  const scale = getCanvasScale(canvas);
+  if (!scale) return null;
+  const value = sceneLength / scale.sceneUnitsPerUnit;
+  return convertLength(value, scale.unit, unit ?? scale.unit);
+}
+
+/**
+ * Convert a real-world length (default unit: the scale's own) to scene
+ * units. Returns `null` if the canvas has no scale.
+ */
+export function toSceneLength(
+  canvas: FabricCanvas,
+  length: number,
+  unit?: LengthUnit,
+): number | null {
+  const scale = getCanvasScale(canvas);
+  if (!scale) return null;
+  return (
+    convertLength(length, unit ?? scale.unit, scale.unit) *
+    scale.sceneUnitsPerUnit
+  );
+}
+
+/**
+ * Convert an area in square scene units to square real-world units (default:
+ * the scale's own unit). Returns `null` if the canvas has no scale.
+ */
+export function toRealArea(
+  canvas: FabricCanvas,
+  sceneArea: number,
+  unit?: LengthUnit,
+): number | null {
+  const perUnit = toSceneLength(canvas, 1, unit);
+  return perUnit === null ? null : sceneArea / (perUnit * perUnit);
+}
+
+// --- Formatting ---
+
+/** Options for {@link formatLength} and {@link formatArea}. */
+export interface FormatMeasureOptions {
+  /** Real-world unit to display (default: the scale's own unit). Ignored without a scale. */
+  unit?: LengthUnit;
+  /** Decimal places. Default: 2 with a scale, 0 in scene units. */
+  decimals?: number;
+}
+
+/**
+ * Format a scene length for display: in real-world units when the canvas has
+ * a scale (e.g. `"5.20 m"`), otherwise in scene units (e.g. `"520"`).
+ */
+export function formatLength(
+  canvas: FabricCanvas,
+  sceneLength: number,
+  options?: FormatMeasureOptions,
+): string {
+  const scale = getCanvasScale(canvas);
+  if (!scale) return sceneLength.toFixed(options?.decimals ?? 0);
+  const unit = options?.unit ?? scale.unit;
+  const value = toRealLength(canvas, sceneLength, unit)!;
+  return `${value.toFixed(options?.decimals ?? 2)} ${unit}`;
+}
+
+/**
+ * Format a scene area for display: in square real-world units when the canvas
+ * has a scale (e.g. `"12.50 m²"`), otherwise in square scene units.
+ */
+export function formatArea(
+  canvas: FabricCanvas,
+  sceneArea: number,
+  options?: FormatMeasureOptions,
+): string {
+  const scale = getCanvasScale(canvas);
+  if (!scale) return sceneArea.toFixed(options?.decimals ?? 0);
+  const unit = options?.unit ?? scale.unit;
+  const value = toRealArea(canvas, sceneArea, unit)!;
+  return `${value.toFixed(options?.decimals ?? 2)} ${unit}²`;
+}
+
+// --- Shape measurement ---
+
+/** Number of segments used to outline circles. */
+const CIRCLE_OUTLINE_SEGMENTS = 48;
+
+/**
+ * Scene-space outline of a measurable shape (polygon, rectangle or circle),
+ * excluding the stroke. Circles and curved polygon edges are approximated
+ * by straight segments. Returns `null` for other objects.
+ */
+export function getShapeOutline(obj: FabricObject): Point2D[] | null {
+  const matrix = obj.calcTransformMatrix();
+  if (obj instanceof Polygon) return getPolygonOutline(obj);
+  if (!(obj instanceof Rect)) return null;
+
+  const w = obj.width / 2;
+  const h = obj.height / 2;
+  const local: Point[] = [];
+  if (obj.shapeType === 'circle') {
+    for (let i = 0; i < CIRCLE_OUTLINE_SEGMENTS; i++) {
+      const a = (i / CIRCLE_OUTLINE_SEGMENTS) * Math.PI * 2;
+      local.push(new Point(Math.cos(a) * w, Math.sin(a) * h));
+    }
+  } else {
+    local.push(
+      new Point(-w, -h),
+      new Point(w, -h),
+      new Point(w, h),
+      new Point(-w, h),
+    );
+  }
+  return local.map((pt) => util.transformPoint(pt, matrix));
+}
+
+/**
+ * Ray-casting test of whether `point` lies inside `outline`. Not part of the
+ * public package API — shared by `containment.ts`, `geometry.ts` and the
+ * measure interaction.
+ */
+export function isPointInOutline(point: Point2D, outline: Point2D[]): boolean {
+  let inside = false;
+  for (let i = 0, j = outline.length - 1; i < outline.length; j = i++) {
+    const a = outline[i];
+    const b = outline[j];
+    if (
+      a.y > point.y !== b.y > point.y &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Area and perimeter of a polygon, rectangle or circle in scene units
+ * (excluding the stroke), or `null` for other objects. Convert with
+ * {@link toRealArea} / {@link toRealLength} or display with
+ * {@link formatArea} / {@link formatLength}.
+ */
+export function measureShape(
+  obj: FabricObject,
+): { area: number; perimeter: number } | null {
+  if (obj instanceof Rect && obj.shapeType === 'circle') {
+    // Exact ellipse area; Ramanujan's approximation for the perimeter.
+    const size = obj._getTransformedDimensions({ strokeWidth: 0 });
+    const a = Math.abs(size.x) / 2;
+    const b = Math.abs(size.y) / 2;
+    const h = (a - b) ** 2 / (a + b) ** 2 || 0;
+    return {
+      area: Math.PI * a * b,
+      perimeter:
+        Math.PI * (a + b) * (1 + (3 * h) / (10 + Math.sqrt(4 - 3 * h))),
+    };
+  }
+
+  const outline = getShapeOutline(obj);
+  if (!outline) return null;
+  let area = 0;
+  let perimeter = 0;
+  for (let i = 0; i < outline.length; i++) {
+    const p = outline[i];
+    const q = outline[(i + 1) % outline.length];
+    area += p.x * q.y - q.x * p.y;
+    perimeter += Math.hypot(q.x - p.x, q.y - p.y);
+  }
+  return { area: Math.abs(area) / 2, perimeter };
+}
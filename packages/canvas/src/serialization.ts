@@ -1,14 +1,36 @@
 import {
   Canvas as FabricCanvas,
   FabricImage,
+  Group,
+  IText,
+  Polygon,
+  Polyline,
   Rect,
-  filters,
+  util,
   type FabricObject,
   type TOriginX,
   type TOriginY,
 } from 'fabric';
 import { getBackgroundContrast, getBackgroundInverted } from './background';
+import { forEachNestedObject, isObjectGroup } from './groups';
+import {
+  CANVAS_SCHEMA_VERSION,
+  getCanvasSchemaVersion,
+  migrateCanvasJSON,
+} from './migrations';
+import { getCanvasLayers, isCanvasLayers, setCanvasLayers } from './layers';
+import { isCanvasScale, setCanvasScale } from './scale';
 import { restoreCircleConstraints } from './shapes/circle';
+import { enableCurvedEdges } from './shapes/curves';
+import { restoreLineConstraints } from './shapes/line';
+import { prepareLabelFontSizes, restoreLabelConstraints } from './shapes/label';
+import { prepareIconScales, restoreIconConstraints } from './shapes/icon';
+import {
+  repairCanvasJSON,
+  validateCanvasJSON,
+  type CanvasValidationResult,
+  type ValidateCanvasOptions,
+} from './validation';
 import { DEFAULT_CONTROL_STYLE } from './styles';
 import type { CanvasJSON } from './types';
 
@@ -42,8 +64,10 @@ const DEFAULT_VIEW_BORDER_RADIUS = 4;
 export function enableScaledStrokes(canvas: FabricCanvas): () => void {
   function applyScaledStrokes() {
     const zoom = canvas.getZoom();
-    canvas.forEachObject((obj) => {
+    forEachNestedObject(canvas.getObjects(), (obj) => {
       if (!obj.strokeWidth && obj.strokeWidth !== 0) return;
+      // Scene-space thickness (walls etc.) scales with the plan.
+      if (obj.thickness !== undefined) return;
       if (!strokeBaseMap.has(obj)) {
         // Record the base value on first encounter
         strokeBaseMap.set(obj, obj.strokeWidth ?? 0);
@@ -59,7 +83,7 @@ export function enableScaledStrokes(canvas: FabricCanvas): () => void {
   return () => {
     canvas.off('before:render', applyScaledStrokes);
     // Restore all objects to their base stroke widths on cleanup
-    canvas.forEachObject((obj) => {
+    forEachNestedObject(canvas.getObjects(), (obj) => {
       const base = strokeBaseMap.get(obj);
       if (base !== undefined) {
         obj.strokeWidth = base;
@@ -92,7 +116,7 @@ export function enableScaledBorderRadius(
   const radius = options?.radius ?? DEFAULT_VIEW_BORDER_RADIUS;
 
   function applyScaledBorderRadius() {
-    canvas.forEachObject((obj) => {
+    forEachNestedObject(canvas.getObjects(), (obj) => {
       if (!(obj instanceof Rect)) return;
       if (!borderRadiusBaseMap.has(obj)) return;
       const rx = radius / (obj.scaleX ?? 1);
@@ -105,7 +129,7 @@ export function enableScaledBorderRadius(
 
   return () => {
     canvas.off('before:render', applyScaledBorderRadius);
-    canvas.forEachObject((obj) => {
+    forEachNestedObject(canvas.getObjects(), (obj) => {
       if (!(obj instanceof Rect)) return;
       const base = borderRadiusBaseMap.get(obj);
       if (base !== undefined) {
@@ -121,8 +145,9 @@ export function enableScaledBorderRadius(
 export interface SerializeOptions {
   /**
    * Additional Fabric object properties to include in the JSON output.
-   * The `'data'` and `'shapeType'` properties are always included.
-   * Default: `['data', 'shapeType']`.
+   * The `'data'`, `'shapeType'`, `'thickness'`, `'tint'`, `'fixedSize'` and
+   * `'bulges'` properties are always included. Default:
+   * `['data', 'shapeType', 'thickness', 'tint', 'fixedSize', 'bulges']`.
    */
   properties?: string[];
 }
@@ -143,6 +168,8 @@ export function getBaseStrokeWidth(obj: FabricObject): number {
 // --- Serialization helpers ---
 // Each helper temporarily mutates canvas/object state for serialization
 // and returns a function that restores the original runtime state.
+// prepareStrokeWidths and prepareBorderRadii are also used by export.ts;
+// they are not part of the public package API.
 
 type SavedOrigin = {
   originX: TOriginX;
@@ -152,9 +179,9 @@ type SavedOrigin = {
 };
 
 /** Strip zoom-scaled stroke widths, restoring base values for serialization. */
-function prepareStrokeWidths(canvas: FabricCanvas): () => void {
+export function prepareStrokeWidths(canvas: FabricCanvas): () => void {
   const scaledWidths = new Map<FabricObject, number>();
-  canvas.forEachObject((obj) => {
+  forEachNestedObject(canvas.getObjects(), (obj) => {
     const base = strokeBaseMap.get(obj);
     if (base !== undefined && obj.strokeWidth !== base) {
       scaledWidths.set(obj, obj.strokeWidth ?? 0);
@@ -168,9 +195,9 @@ function prepareStrokeWidths(canvas: FabricCanvas): () => void {
 }
 
 /** Strip visual-only border radii, restoring original rx/ry for serialization. */
-function prepareBorderRadii(canvas: FabricCanvas): () => void {
+export function prepareBorderRadii(canvas: FabricCanvas): () => void {
   const appliedRadii = new Map<Rect, { rx: number; ry: number }>();
-  canvas.forEachObject((obj) => {
+  forEachNestedObject(canvas.getObjects(), (obj) => {
     if (!(obj instanceof Rect)) return;
     const base = borderRadiusBaseMap.get(obj);
     if (base !== undefined) {
@@ -187,7 +214,7 @@ function prepareBorderRadii(canvas: FabricCanvas): () => void {
 /** Convert objects from center/center to left/top origin for Fabric 6 compatibility. */
 function prepareObjectOrigins(canvas: FabricCanvas): () => void {
   const savedOrigins = new Map<FabricObject, SavedOrigin>();
-  canvas.forEachObject((obj) => {
+  forEachNestedObject(canvas.getObjects(), (obj) => {
     if (obj.originX === 'left' && obj.originY === 'top') return;
     savedOrigins.set(obj, {
       originX: obj.originX,
@@ -231,10 +258,37 @@ function prepareBackgroundOrigin(canvas: FabricCanvas): () => void {
   };
 }
 
+/**
+ * Give children of a group (e.g. an ActiveSelection) their scene transform,
+ * since they are otherwise positioned relative to the group.
+ */
+function prepareGroupedTransforms(objects: FabricObject[]): () => void {
+  const savedTransforms = new Map<FabricObject, Partial<FabricObject>>();
+  for (const obj of objects) {
+    if (!obj.group) continue;
+    savedTransforms.set(obj, {
+      left: obj.left,
+      top: obj.top,
+      angle: obj.angle,
+      scaleX: obj.scaleX,
+      scaleY: obj.scaleY,
+      skewX: obj.skewX,
+      skewY: obj.skewY,
+      flipX: obj.flipX,
+      flipY: obj.flipY,
+    });
+    util.addTransformToObject(obj, obj.group.calcTransformMatrix());
+  }
+  return () =>
+    savedTransforms.forEach((saved, obj) => {
+      obj.set(saved);
+    });
+}
+
 /** Add strokeWidthBase to obj.data for backward compatibility with old canvas. */
 function prepareStrokeWidthBaseData(canvas: FabricCanvas): () => void {
   const savedData = new Map<FabricObject, FabricObject['data']>();
-  canvas.forEachObject((obj) => {
+  forEachNestedObject(canvas.getObjects(), (obj) => {
     const base = strokeBaseMap.get(obj) ?? obj.strokeWidth;
     if (base !== undefined && base !== 0 && obj.data) {
       savedData.set(obj, obj.data);
@@ -250,11 +304,119 @@ function prepareStrokeWidthBaseData(canvas: FabricCanvas): () => void {
     });
 }
 
+// --- Load helpers ---
+// Shared by loadCanvas, applyCanvasPatch (diff.ts) and the history tracker;
+// not part of the public package API.
+
+/**
+ * Restore runtime state on an object freshly created from serialized data:
+ * center/center origin, control styling, circle, line, label and icon state and
+ * the visual border radius. Members of groups are restored too.
+ */
+export function restoreLoadedObject(
+  obj: FabricObject,
+  borderRadius: number | false = DEFAULT_VIEW_BORDER_RADIUS,
+): void {
+  // Curved edges first: they change the size the origin is measured from.
+  if (obj instanceof Polyline) enableCurvedEdges(obj);
+  // Normalize legacy origin: old data uses originX/Y 'left'/'top', but the
+  // new canvas expects 'center'/'center'. Compute the visual center before
+  // switching origins so objects stay in the same position.
+  if (obj.originX !== 'center' || obj.originY !== 'center') {
+    const center = obj.getRelativeCenterPoint();
+    obj.set({
+      originX: 'center',
+      originY: 'center',
+      left: center.x,
+      top: center.y,
+    });
+    obj.setCoords();
+  }
+
+  // Control styling (borderColor, cornerColor, etc.) is absent from Fabric's
+  // default toObject output, so we restore it explicitly for all objects.
+  obj.set(DEFAULT_CONTROL_STYLE);
+  // Circle-specific constraints (control visibility, lock flags).
+  if (obj.shapeType === 'circle' && obj instanceof Rect) {
+    restoreCircleConstraints(obj);
+  }
+  // Labels: double-click editing and control layout.
+  if (obj.shapeType === 'label' && obj instanceof IText) {
+    restoreLabelConstraints(obj);
+  }
+  // Icons: control layout and fixed-size scaling lock.
+  if (obj.shapeType === 'icon' && obj instanceof Group) {
+    restoreIconConstraints(obj);
+  }
+  // Open polylines: shapeType tag and scene-space thickness.
+  if (obj instanceof Polyline && !(obj instanceof Polygon)) {
+    restoreLineConstraints(obj);
+  }
+  // Groups: their members are restored like top-level objects.
+  if (isObjectGroup(obj)) {
+    for (const member of obj.getObjects()) {
+      restoreLoadedObject(member, borderRadius);
+    }
+  }
+  // Apply visual border radius to Rects (excluding circles and DEVICE objects).
+  // Compensate for non-uniform scaling so corners appear circular.
+  // Original values are stored so serializeCanvas can strip them before saving.
+  if (
+    borderRadius !== false &&
+    obj instanceof Rect &&
+    obj.shapeType !== 'circle' &&
+    obj.data?.type !== 'DEVICE'
+  ) {
+    borderRadiusBaseMap.set(obj, { rx: obj.rx ?? 0, ry: obj.ry ?? 0 });
+    const rx = borderRadius / (obj.scaleX ?? 1);
+    const ry = borderRadius / (obj.scaleY ?? 1);
+    obj.set({ rx, ry });
+  }
+}
+
+/**
+ * Set an object's stroke width as its new base value, so that
+ * {@link enableScaledStrokes} and {@link serializeCanvas} pick it up.
+ */
+export function setBaseStrokeWidth(obj: FabricObject, width: number): void {
+  if (strokeBaseMap.has(obj)) strokeBaseMap.set(obj, width);
+  obj.strokeWidth = width;
+}
+
+/**
+ * Return a Rect's original corner radii, ignoring any visual border radius
+ * applied by {@link loadCanvas}.
+ */
+export function getBaseBorderRadius(rect: Rect): { rx: number; ry: number } {
+  return (
+    borderRadiusBaseMap.get(rect) ?? { rx: rect.rx ?? 0, ry: rect.ry ?? 0 }
+  );
+}
+
+/**
+ * Set a Rect's original corner radii. When a visual border radius is applied
+ * (see {@link loadCanvas}), only the stored originals are updated.
+ */
+export function setBaseBorderRadius(
+  rect: Rect,
+  radii: { rx?: number; ry?: number },
+): void {
+  const base = borderRadiusBaseMap.get(rect);
+  if (base) {
+    borderRadiusBaseMap.set(rect, { ...base, ...radii });
+  } else {
+    rect.set(radii);
+  }
+}
+
 // --- Public serialization API ---
 
 /**
  * Serialize the canvas to a plain object, ready for `JSON.stringify`.
  *
+ * The output is stamped with `schemaVersion` ({@link CANVAS_SCHEMA_VERSION})
+ * so {@link loadCanvas} knows which migrations to run when reading it back.
+ *
  * The output uses Fabric 6 conventions (`originX: 'left'`, `originY: 'top'`,
  * `backgroundFilters`, `data.strokeWidthBase`) so saved data is readable by
  * both old (Fabric 6) and new (Fabric 7) canvas implementations.
@@ -267,32 +429,25 @@ export function serializeCanvas(
   canvas: FabricCanvas,
   options?: SerializeOptions,
 ): CanvasJSON {
-  const properties = [
-    'data',
-    'shapeType',
-    // Control styling — absent from Fabric's default toObject output
-    'borderColor',
-    'cornerColor',
-    'cornerStrokeColor',
-    'transparentCorners',
-    // Interaction locks — absent from Fabric's default toObject output
-    'lockRotation',
-    'lockUniScaling',
-    ...(options?.properties ?? []),
-  ];
+  const properties = getSerializedProperties(options);
 
   // Temporarily mutate canvas state for backward-compatible serialization.
   // Each prepare* call returns a restore function to undo the mutation.
   const restoreStrokeWidths = prepareStrokeWidths(canvas);
   const restoreBorderRadii = prepareBorderRadii(canvas);
+  const restoreLabelSizes = prepareLabelFontSizes(canvas);
+  const restoreIconScales = prepareIconScales(canvas);
   const restoreOrigins = prepareObjectOrigins(canvas);
   const restoreBgOrigin = prepareBackgroundOrigin(canvas);
   const restoreData = prepareStrokeWidthBaseData(canvas);
 
   const json = canvas.toObject(properties) as CanvasJSON;
+  json.schemaVersion = CANVAS_SCHEMA_VERSION;
 
   // Strip backgroundColor — it's theme-dependent, not user data.
+  // Fabric serializes it under the `background` key.
   delete json.backgroundColor;
+  delete json.background;
 
   // Add backward-compatible canvas-level properties.
   (json as Record<string, unknown>).backgroundFilters = {
@@ -302,17 +457,87 @@ export function serializeCanvas(
   if (canvas.lockLightMode !== undefined) {
     (json as Record<string, unknown>).lockLightMode = canvas.lockLightMode;
   }
+  if (canvas.realWorldScale) {
+    (json as Record<string, unknown>).realWorldScale = {
+      ...canvas.realWorldScale,
+    };
+  }
+  if (canvas.layers) {
+    (json as Record<string, unknown>).layers = getCanvasLayers(canvas);
+  }
 
   // Restore all runtime state.
   restoreStrokeWidths();
   restoreBorderRadii();
   restoreOrigins();
+  restoreLabelSizes();
+  restoreIconScales();
   restoreBgOrigin();
   restoreData();
 
   return json;
 }
 
+/**
+ * Serialize some of the canvas objects using the same rules as
+ * {@link serializeCanvas}, e.g. for copying them to the clipboard. Objects
+ * inside an ActiveSelection are written in scene coordinates.
+ *
+ * The result is the `objects` array of a {@link CanvasJSON} and can be
+ * restored with `util.enlivenObjects` followed by the usual load handling
+ * (see {@link pasteObjects}).
+ */
+export function serializeObjects(
+  canvas: FabricCanvas,
+  objects: FabricObject[],
+  options?: SerializeOptions,
+): Record<string, unknown>[] {
+  const properties = getSerializedProperties(options);
+
+  const restoreTransforms = prepareGroupedTransforms(objects);
+  const restoreStrokeWidths = prepareStrokeWidths(canvas);
+  const restoreBorderRadii = prepareBorderRadii(canvas);
+  const restoreLabelSizes = prepareLabelFontSizes(canvas);
+  const restoreIconScales = prepareIconScales(canvas);
+  const restoreOrigins = prepareObjectOrigins(canvas);
+  const restoreData = prepareStrokeWidthBaseData(canvas);
+
+  const json = objects.map(
+    (obj) => obj.toObject(properties) as Record<string, unknown>,
+  );
+
+  restoreStrokeWidths();
+  restoreBorderRadii();
+  restoreOrigins();
+  restoreLabelSizes();
+  restoreIconScales();
+  restoreData();
+  restoreTransforms();
+
+  return json;
+}
+
+/** Properties written for every object, plus `options.properties`. */
+function getSerializedProperties(options?: SerializeOptions): string[] {
+  return [
+    'data',
+    'shapeType',
+    'thickness',
+    'tint',
+    'fixedSize',
+    'bulges',
+    // Control styling — absent from Fabric's default toObject output
+    'borderColor',
+    'cornerColor',
+    'cornerStrokeColor',
+    'transparentCorners',
+    // Interaction locks — absent from Fabric's default toObject output
+    'lockRotation',
+    'lockUniScaling',
+    ...(options?.properties ?? []),
+  ];
+}
+
 /**
  * Options for {@link loadCanvas}.
  */
@@ -328,11 +553,64 @@ export interface LoadCanvasOptions {
    * Pass a number to customize, or `false` to skip entirely. Default: `4`.
    */
   borderRadius?: number | false;
+  /**
+   * Validate the payload with {@link validateCanvasJSON} before loading.
+   * - `'strict'`: throw if there are any errors. Nothing is loaded.
+   * - `'repair'`: drop invalid objects and an invalid background image
+   *   (see {@link repairCanvasJSON}), then load the rest.
+   *
+   * Default: no validation.
+   */
+  validate?: 'strict' | 'repair';
+  /** Options forwarded to the validator. Only relevant when `validate` is set. */
+  validationOptions?: ValidateCanvasOptions;
+  /** Called with the validation result before loading. Only called when `validate` is set. */
+  onValidation?: (result: CanvasValidationResult) => void;
+}
+
+/**
+ * Upgrade the payload and run the validation requested by
+ * {@link LoadCanvasOptions.validate} on the result, so migrations can fix
+ * legacy data first and the payload Fabric loads is the one checked. A
+ * payload that cannot be migrated (not an object, no `objects` array, or a
+ * newer schema) is validated as is, so the problem is reported.
+ */
+function validateForLoad(
+  json: CanvasJSON | object,
+  options: LoadCanvasOptions,
+): CanvasJSON {
+  const canMigrate =
+    typeof json === 'object' &&
+    json !== null &&
+    Array.isArray((json as Record<string, unknown>).objects) &&
+    getCanvasSchemaVersion(json) <= CANVAS_SCHEMA_VERSION;
+  const source = canMigrate ? migrateCanvasJSON(json) : json;
+
+  if (options.validate === 'repair') {
+    const repaired = repairCanvasJSON(source, options.validationOptions);
+    options.onValidation?.(repaired.result);
+    return canMigrate ? repaired.json : migrateCanvasJSON(repaired.json);
+  }
+
+  const result = validateCanvasJSON(source, options.validationOptions);
+  options.onValidation?.(result);
+  if (!result.valid) {
+    const [first] = result.errors;
+    throw new Error(
+      `Invalid canvas data (${result.errors.length} error${result.errors.length === 1 ? '' : 's'}). ${first.path}: ${first.message}`,
+    );
+  }
+  return source as CanvasJSON;
 }
 
 /**
  * Load a canvas from a previously serialized JSON object (from {@link serializeCanvas}).
  *
+ * The payload is first upgraded to the current schema via
+ * {@link migrateCanvasJSON}, so data saved by older versions (including the
+ * old Fabric 6 canvas) is normalised before Fabric sees it. The input object
+ * is not mutated. Pass `validate` to check the upgraded payload first.
+ *
  * Clears the canvas and restores all objects, then requests a re-render.
  * The returned promise resolves once the canvas is fully loaded.
  */
@@ -341,18 +619,25 @@ export async function loadCanvas(
   json: CanvasJSON | object,
   options?: LoadCanvasOptions,
 ): Promise<FabricObject[]> {
-  await canvas.loadFromJSON(json);
-
-  // Strip backgroundColor restored from old canvas data —
-  // background color is a runtime/theme concern, not persisted data.
-  // Mirrors serializeCanvas which already deletes backgroundColor on save.
+  const source = options?.validate
+    ? validateForLoad(json, options)
+    : migrateCanvasJSON(json);
+
+  // `schemaVersion` is document metadata — keep it off the canvas instance.
+  // The real-world scale and layers are applied below through
+  // setCanvasScale and setCanvasLayers.
+  const {
+    schemaVersion: _schemaVersion,
+    realWorldScale,
+    layers,
+    ...migrated
+  } = source;
+  await canvas.loadFromJSON(migrated);
+
+  // Background color is a runtime/theme concern, not persisted data.
+  // Mirrors serializeCanvas which already strips it on save.
   canvas.backgroundColor = '';
 
-  // Strip legacy `backgroundFilters` custom property from old canvas data.
-  // The old implementation stored contrast/inversion state as a custom canvas
-  // property; the new canvas reads actual Fabric filters on the image directly.
-  delete (canvas as unknown as Record<string, unknown>).backgroundFilters;
-
   // Restore lockLightMode from serialized data. Fabric's loadFromJSON sets
   // unknown top-level properties on the canvas instance, so we read and
   // re-assign it to the typed augmented property.
@@ -361,6 +646,9 @@ export async function loadCanvas(
     canvas.lockLightMode = rawCanvas.lockLightMode as boolean;
   }
 
+  // Loading a document without a scale clears the previous document's scale.
+  setCanvasScale(canvas, isCanvasScale(realWorldScale) ? realWorldScale : null);
+
   // Normalize background image origin: old data (Fabric 6) uses originX/Y
   // 'left'/'top' while the new canvas uses 'center'/'center'. Compute the
   // visual center before switching so the image stays in the same position.
@@ -376,72 +664,27 @@ export async function loadCanvas(
       });
       bg.setCoords();
     }
-
-    // Strip Invert filter that may have been baked into old saved data.
-    // Inversion is a runtime concern (determined by the current theme),
-    // not something that should persist from serialized data. Callers
-    // use setBackgroundInverted() to apply the correct state after load.
-    if (bg.filters?.some((f) => f instanceof filters.Invert)) {
-      bg.filters = bg.filters.filter((f) => !(f instanceof filters.Invert));
-      bg.applyFilters();
-    }
   }
 
-  // Filter out non-matching objects before applying styles
+  // Filter out non-matching objects (including group members) before
+  // applying styles
   if (options?.filter) {
     const toRemove: FabricObject[] = [];
-    canvas.forEachObject((obj) => {
+    forEachNestedObject(canvas.getObjects(), (obj) => {
       if (!options.filter!(obj)) toRemove.push(obj);
     });
-    for (const obj of toRemove) canvas.remove(obj);
+    for (const obj of toRemove) {
+      if (obj.group) obj.group.remove(obj);
+      else canvas.remove(obj);
+    }
   }
 
-  // Normalize legacy origin: old data uses originX/Y 'left'/'top', but the
-  // new canvas expects 'center'/'center'. Compute the visual center before
-  // switching origins so objects stay in the same position.
-  canvas.forEachObject((obj) => {
-    if (obj.originX === 'center' && obj.originY === 'center') return;
-    const center = obj.getCenterPoint();
-    obj.set({
-      originX: 'center',
-      originY: 'center',
-      left: center.x,
-      top: center.y,
-    });
-    obj.setCoords();
-  });
+  canvas.forEachObject((obj) =>
+    restoreLoadedObject(obj, options?.borderRadius),
+  );
 
-  // Re-apply per-object state that Fabric does not persist through serialization.
-  canvas.forEachObject((obj) => {
-    // Strip legacy `strokeWidthBase` from obj.data — the old canvas stored the
-    // base stroke width by mutating data. The new canvas uses internal WeakMaps.
-    const data = obj.data as Record<string, unknown> | undefined;
-    if (data?.strokeWidthBase !== undefined) {
-      delete data.strokeWidthBase;
-    }
-    // Control styling (borderColor, cornerColor, etc.) is absent from Fabric's
-    // default toObject output, so we restore it explicitly for all objects.
-    obj.set(DEFAULT_CONTROL_STYLE);
-    // Circle-specific constraints (control visibility, lock flags).
-    if (obj.shapeType === 'circle' && obj instanceof Rect) {
-      restoreCircleConstraints(obj);
-    }
-    // Apply visual border radius to Rects (excluding circles and DEVICE objects).
-    // Compensate for non-uniform scaling so corners appear circular.
-    // Original values are stored so serializeCanvas can strip them before saving.
-    const borderRadius = options?.borderRadius ?? DEFAULT_VIEW_BORDER_RADIUS;
-    if (
-      borderRadius !== false &&
-      obj instanceof Rect &&
-      obj.shapeType !== 'circle' &&
-      obj.data?.type !== 'DEVICE'
-    ) {
-      borderRadiusBaseMap.set(obj, { rx: obj.rx ?? 0, ry: obj.ry ?? 0 });
-      const rx = borderRadius / (obj.scaleX ?? 1);
-      const ry = borderRadius / (obj.scaleY ?? 1);
-      obj.set({ rx, ry });
-    }
-  });
+  // Like the scale, loading a document without layers clears them.
+  setCanvasLayers(canvas, isCanvasLayers(layers) ? layers : []);
   canvas.requestRenderAll();
 
   return canvas.getObjects() as FabricObject[];
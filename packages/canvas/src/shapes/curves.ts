@@ -0,0 +1,324 @@
+import { Point, Polygon, Polyline, util } from 'fabric';
+import type { Point2D } from '../types';
+
+/**
+ * Curved edges for polygons, lines and polylines.
+ *
+ * A shape's `bulges` array holds one value per edge: `bulges[i]` bends the
+ * edge from vertex `i` to vertex `i + 1` (for polygons, the last edge runs
+ * back to vertex 0) into a circular arc. As in DXF, the value is the arc's
+ * sagitta divided by half the chord: `0` (or a missing entry) is straight,
+ * `±1` a semicircle. Positive values bulge to the left of the edge's
+ * direction as seen on screen.
+ *
+ * Shapes made or loaded by this package draw, measure and export their
+ * curved edges through {@link enableCurvedEdges}. Shapes without bulges,
+ * and Fabric shapes the package never touched, are handled by Fabric's own
+ * code.
+ */
+
+export interface PolygonOutlineOptions {
+  /** Straight segments used per semicircle of arc. Default: 16. */
+  segments?: number;
+}
+
+/** A curved edge as a circular arc, in the coordinates of its end points. */
+interface EdgeArc {
+  center: Point2D;
+  radius: number;
+  startAngle: number;
+  /** Signed sweep in radians; positive sweeps towards increasing angles. */
+  sweep: number;
+}
+
+const DEFAULT_ARC_SEGMENTS = 16;
+
+/** Bulges smaller than this are treated as straight. */
+const MIN_BULGE = 1e-6;
+
+/** Whether a shape has at least one curved edge. */
+export function hasCurvedEdges(polyline: Polyline): boolean {
+  return (
+    Array.isArray(polyline.bulges) &&
+    polyline.bulges.some((b) => Number.isFinite(b) && Math.abs(b) > MIN_BULGE)
+  );
+}
+
+/** Number of edges; a polygon's last edge closes it back to vertex 0. */
+function getEdgeCount(polyline: Polyline): number {
+  const count = polyline.points.length;
+  return polyline instanceof Polygon ? count : count - 1;
+}
+
+function getBulge(polyline: Polyline, edge: number): number {
+  const bulge = polyline.bulges?.[edge] ?? 0;
+  return Number.isFinite(bulge) && Math.abs(bulge) > MIN_BULGE ? bulge : 0;
+}
+
+/** Unit normal to the left of the edge from `a` to `b`, as seen on screen. */
+function getEdgeNormal(a: Point2D, b: Point2D, chord: number): Point2D {
+  return { x: (b.y - a.y) / chord, y: (a.x - b.x) / chord };
+}
+
+function getEdgeArc(a: Point2D, b: Point2D, bulge: number): EdgeArc | null {
+  const chord = Math.hypot(b.x - a.x, b.y - a.y);
+  if (bulge === 0 || chord === 0) return null;
+  const half = chord / 2;
+  const sagitta = bulge * half;
+  const radius = (half * half + sagitta * sagitta) / (2 * Math.abs(sagitta));
+  const normal = getEdgeNormal(a, b, chord);
+  const offset = sagitta - Math.sign(sagitta) * radius;
+  const center = {
+    x: (a.x + b.x) / 2 + normal.x * offset,
+    y: (a.y + b.y) / 2 + normal.y * offset,
+  };
+  return {
+    center,
+    radius,
+    startAngle: Math.atan2(a.y - center.y, a.x - center.x),
+    sweep: 4 * Math.atan(bulge),
+  };
+}
+
+/**
+ * The point halfway along an edge: the arc midpoint for curved edges, the
+ * chord midpoint otherwise.
+ */
+export function getEdgeMidpoint(a: Point2D, b: Point2D, bulge = 0): Point2D {
+  const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  const chord = Math.hypot(b.x - a.x, b.y - a.y);
+  if (bulge === 0 || chord === 0) return mid;
+  const normal = getEdgeNormal(a, b, chord);
+  const sagitta = (bulge * chord) / 2;
+  return { x: mid.x + normal.x * sagitta, y: mid.y + normal.y * sagitta };
+}
+
+/**
+ * The bulge that bends the edge from `a` to `b` so that its midpoint lies
+ * as close as possible to `point` (its projection onto the edge's normal).
+ */
+export function getBulgeFromMidpoint(
+  a: Point2D,
+  b: Point2D,
+  point: Point2D,
+): number {
+  const chord = Math.hypot(b.x - a.x, b.y - a.y);
+  if (chord === 0) return 0;
+  const normal = getEdgeNormal(a, b, chord);
+  const sagitta =
+    (point.x - (a.x + b.x) / 2) * normal.x +
+    (point.y - (a.y + b.y) / 2) * normal.y;
+  return sagitta / (chord / 2);
+}
+
+/**
+ * The bulge of the circular arc from `a` to `b` passing through `point`.
+ * Returns 0 when the three points are collinear.
+ */
+export function getBulgeThroughPoint(
+  a: Point2D,
+  b: Point2D,
+  point: Point2D,
+): number {
+  const chord = Math.hypot(b.x - a.x, b.y - a.y);
+  if (chord === 0) return 0;
+  const half = chord / 2;
+  const normal = getEdgeNormal(a, b, chord);
+  const dx = point.x - (a.x + b.x) / 2;
+  const dy = point.y - (a.y + b.y) / 2;
+  const distance = dx * normal.x + dy * normal.y;
+  if (Math.abs(distance) < MIN_BULGE * chord) return 0;
+  // Offset of the circle's center from the chord midpoint, along the normal.
+  const offset = (dx * dx + dy * dy - half * half) / (2 * distance);
+  const radius = Math.hypot(half, offset);
+  return (offset + Math.sign(distance) * radius) / half;
+}
+
+/**
+ * The bulge of each half of a curved edge split at its arc midpoint, as
+ * when a vertex is inserted there.
+ */
+export function splitBulge(bulge: number): number {
+  return Math.tan(Math.atan(bulge) / 2);
+}
+
+/** Append points along an edge (excluding its start) to `out`. */
+function flattenEdge(
+  a: Point2D,
+  b: Point2D,
+  bulge: number,
+  segments: number,
+  out: Point2D[],
+): void {
+  const arc = getEdgeArc(a, b, bulge);
+  if (arc) {
+    const count = Math.max(
+      1,
+      Math.ceil((Math.abs(arc.sweep) / Math.PI) * segments),
+    );
+    for (let i = 1; i < count; i++) {
+      const angle = arc.startAngle + (arc.sweep * i) / count;
+      out.push({
+        x: arc.center.x + arc.radius * Math.cos(angle),
+        y: arc.center.y + arc.radius * Math.sin(angle),
+      });
+    }
+  }
+  out.push({ x: b.x, y: b.y });
+}
+
+/**
+ * Approximate a shape's edges with straight segments, in the same
+ * (untransformed) coordinates as its `points`.
+ */
+function flattenPoints(polyline: Polyline, segments: number): Point2D[] {
+  const { points } = polyline;
+  const flat: Point2D[] = points.length ? [{ ...points[0] }] : [];
+  const edges = getEdgeCount(polyline);
+  for (let i = 0; i < edges; i++) {
+    const b = points[(i + 1) % points.length];
+    flattenEdge(points[i], b, getBulge(polyline, i), segments, flat);
+  }
+  // The closing edge ends back at the first vertex.
+  if (polyline instanceof Polygon && flat.length > 1) flat.pop();
+  return flat;
+}
+
+/**
+ * The outline of a polygon, line or polyline in scene coordinates, with
+ * curved edges approximated by straight segments. For shapes without
+ * curved edges this is simply their transformed vertices.
+ */
+export function getPolygonOutline(
+  polyline: Polyline,
+  options?: PolygonOutlineOptions,
+): Point[] {
+  const segments = options?.segments ?? DEFAULT_ARC_SEGMENTS;
+  const matrix = polyline.calcTransformMatrix();
+  const { x, y } = polyline.pathOffset;
+  return flattenPoints(polyline, segments).map((p) =>
+    util.transformPoint(new Point(p.x - x, p.y - y), matrix),
+  );
+}
+
+/** Scene-space midpoints of a shape's curved edges. */
+export function getCurvedEdgeMidpoints(polyline: Polyline): Point[] {
+  const { points } = polyline;
+  const matrix = polyline.calcTransformMatrix();
+  const { x, y } = polyline.pathOffset;
+  const midpoints: Point[] = [];
+  for (let i = 0; i < getEdgeCount(polyline); i++) {
+    const bulge = getBulge(polyline, i);
+    if (bulge === 0) continue;
+    const mid = getEdgeMidpoint(
+      points[i],
+      points[(i + 1) % points.length],
+      bulge,
+    );
+    midpoints.push(
+      util.transformPoint(new Point(mid.x - x, mid.y - y), matrix),
+    );
+  }
+  return midpoints;
+}
+
+// --- Drawing curved edges ---
+
+const {
+  _render: renderPolyline,
+  _calcDimensions: calcPolylineDimensions,
+  _toSVG: polylineToSVG,
+} = Polyline.prototype;
+
+function renderCurvedEdges(this: Polyline, ctx: CanvasRenderingContext2D) {
+  if (!hasCurvedEdges(this)) return renderPolyline.call(this, ctx);
+  const { points, pathOffset } = this;
+  if (points.length === 0) return;
+  ctx.beginPath();
+  ctx.moveTo(points[0].x - pathOffset.x, points[0].y - pathOffset.y);
+  for (let i = 0; i < getEdgeCount(this); i++) {
+    const b = points[(i + 1) % points.length];
+    const arc = getEdgeArc(points[i], b, getBulge(this, i));
+    if (arc) {
+      ctx.arc(
+        arc.center.x - pathOffset.x,
+        arc.center.y - pathOffset.y,
+        arc.radius,
+        arc.startAngle,
+        arc.startAngle + arc.sweep,
+        arc.sweep < 0,
+      );
+    } else {
+      ctx.lineTo(b.x - pathOffset.x, b.y - pathOffset.y);
+    }
+  }
+  if (this instanceof Polygon) ctx.closePath();
+  this._renderPaintInOrder(ctx);
+}
+
+// Measure the bounding box from the arcs rather than the vertices alone.
+function calcCurvedDimensions(
+  this: Polyline,
+  options?: Parameters<Polyline['_calcDimensions']>[0],
+) {
+  if (!hasCurvedEdges(this)) return calcPolylineDimensions.call(this, options);
+  const { points } = this;
+  this.points = flattenPoints(this, DEFAULT_ARC_SEGMENTS * 4).map(
+    (p) => new Point(p.x, p.y),
+  );
+  try {
+    return calcPolylineDimensions.call(this, options);
+  } finally {
+    this.points = points;
+  }
+}
+
+function curvedEdgesToSVG(this: Polyline) {
+  if (!hasCurvedEdges(this)) return polylineToSVG.call(this);
+  const { points, pathOffset } = this;
+  const format = (p: Point2D) =>
+    `${util.toFixed(p.x - pathOffset.x, 4)} ${util.toFixed(p.y - pathOffset.y, 4)}`;
+  const commands = [`M ${format(points[0])}`];
+  for (let i = 0; i < getEdgeCount(this); i++) {
+    const b = points[(i + 1) % points.length];
+    const arc = getEdgeArc(points[i], b, getBulge(this, i));
+    if (arc) {
+      const radius = util.toFixed(arc.radius, 4);
+      const large = Math.abs(arc.sweep) > Math.PI ? 1 : 0;
+      const sweep = arc.sweep > 0 ? 1 : 0;
+      commands.push(`A ${radius} ${radius} 0 ${large} ${sweep} ${format(b)}`);
+    } else {
+      commands.push(`L ${format(b)}`);
+    }
+  }
+  if (this instanceof Polygon) commands.push('Z');
+  return ['<path ', 'COMMON_PARTS', `d="${commands.join(' ')}" />\n`];
+}
+
+/**
+ * Let a polygon, line or polyline draw, measure and export its curved
+ * edges. The methods are installed on the shape itself, so Fabric's classes
+ * and shapes this package did not make are left alone. Called by the shape
+ * factories and `loadCanvas`; safe to call more than once.
+ *
+ * Fabric measures a shape from its vertices while constructing it, so a
+ * curved shape is measured again. As in Fabric's constructor, it is
+ * centred on its points unless `position` gives `left`/`top`; by default
+ * it keeps its current position.
+ *
+ * Not part of the public package API.
+ */
+export function enableCurvedEdges(
+  polyline: Polyline,
+  position: { left?: number; top?: number } = polyline,
+): void {
+  if (polyline._render === renderCurvedEdges) return;
+  const { left, top } = position;
+  polyline._render = renderCurvedEdges;
+  polyline._calcDimensions = calcCurvedDimensions;
+  polyline._toSVG = curvedEdgesToSVG;
+  if (!hasCurvedEdges(polyline)) return;
+  polyline.setBoundingBox(true);
+  if (typeof left === 'number') polyline.set('left', left);
+  if (typeof top === 'number') polyline.set('top', top);
+}
@@ -0,0 +1,332 @@
+import {
+  createElement,
+  isValidElement,
+  type ComponentType,
+  type ReactElement,
+} from 'react';
+import type { SvgIconProps } from '@mui/material';
+import { biampTheme } from '@bwp-web/styles';
+import {
+  Canvas as FabricCanvas,
+  FabricObject,
+  Group,
+  loadSVGFromString,
+} from 'fabric';
+import type { Point2D } from '../types';
+import { DEFAULT_CONTROL_STYLE, DEFAULT_ICON_STYLE } from '../styles';
+import { forEachNestedObject } from '../groups';
+
+const { palette } = biampTheme();
+
+/**
+ * An icon component such as those exported by `@bwp-web/assets`
+ * (`PrinterIcon`), or an element when props are needed
+ * (`<AddIcon variant="xs" />`).
+ */
+export type IconSource = ComponentType<SvgIconProps> | ReactElement;
+
+/** Theme palette colors accepted as icon tints, besides any CSS color. */
+export type IconPaletteColor =
+  | 'primary'
+  | 'secondary'
+  | 'error'
+  | 'warning'
+  | 'info'
+  | 'success';
+
+export interface IconStyleOptions {
+  /**
+   * Length of the icon's longer side, in scene units or, for `fixedSize`
+   * icons, in screen pixels. Default: 24.
+   */
+  size?: number;
+  /**
+   * Color for the parts of the icon drawn in `currentColor`: a theme palette
+   * key (`'primary'`, `'error'`, …) or any CSS color. Parts with their own
+   * color keep it. Default: the theme's primary text color.
+   */
+  tint?: IconPaletteColor | (string & {});
+  /**
+   * Keep the icon the same size on screen at any zoom level, like a marker.
+   * Requires {@link enableFixedSizeIcons} (on by default in `useEditCanvas`
+   * and `useViewCanvas`). Default: `false` (the icon scales with the plan).
+   */
+  fixedSize?: boolean;
+  opacity?: number;
+  /** Optional metadata to attach to the created object. */
+  data?: FabricObject['data'];
+}
+
+export interface IconOptions extends IconStyleOptions {
+  icon: IconSource;
+  left: number;
+  top: number;
+}
+
+export interface IconAtPointOptions extends IconStyleOptions {
+  icon: IconSource;
+}
+
+/** Tints resolved through the theme palette (see {@link IconPaletteColor}). */
+const PALETTE_TINTS: readonly string[] = [
+  'primary',
+  'secondary',
+  'error',
+  'warning',
+  'info',
+  'success',
+];
+
+/** Controls hidden on icons: mid-edge handles, which would distort them. */
+const HIDDEN_ICON_CONTROLS = {
+  mt: false,
+  mb: false,
+  ml: false,
+  mr: false,
+} as const;
+
+/** Controls hidden on fixed-size icons: all resize handles. */
+const HIDDEN_FIXED_SIZE_ICON_CONTROLS = {
+  ...HIDDEN_ICON_CONTROLS,
+  tl: false,
+  tr: false,
+  bl: false,
+  br: false,
+} as const;
+
+/** Whether an object is an icon created by {@link createIcon}. */
+function isIcon(obj: FabricObject): obj is Group {
+  return obj instanceof Group && obj.shapeType === 'icon';
+}
+
+/** Resolve a tint to a CSS color, looking up theme palette keys. */
+function resolveIconTint(tint: string): string {
+  return PALETTE_TINTS.includes(tint)
+    ? palette[tint as IconPaletteColor].main
+    : tint;
+}
+
+/** Recolor the icon parts currently painted in `from`. */
+function recolorIcon(icon: Group, from: string, to: string): void {
+  for (const shape of icon.getObjects()) {
+    if (shape.fill === from) shape.set('fill', to);
+    if (shape.stroke === from) shape.set('stroke', to);
+  }
+  icon.dirty = true;
+}
+
+/**
+ * Render an icon component to SVG markup for Fabric's SVG parser. The root
+ * gets `fill="currentColor"`, which `SvgIcon` otherwise sets through CSS.
+ *
+ * `react-dom/server` is loaded on first use, so apps that never create icons
+ * don't bundle the server renderer.
+ */
+async function renderIconMarkup(icon: IconSource): Promise<string> {
+  const { renderToStaticMarkup } = await import('react-dom/server');
+  const element = isValidElement(icon) ? icon : createElement(icon);
+  return renderToStaticMarkup(element)
+    .replace(/<style[\s\S]*?<\/style>/g, '')
+    .replace(/^<svg(?![^>]*\sfill=)/, '<svg fill="currentColor"');
+}
+
+/** Scale that makes an icon's longer side `size` units long. */
+function getIconScale(icon: Group, size: number): number {
+  return size / Math.max(icon.width, icon.height, 1);
+}
+
+/**
+ * Re-apply icon state after deserialization: the control layout, and locked
+ * scaling for fixed-size icons. Fabric's `loadFromJSON` restores neither.
+ *
+ * Not part of the public package API — imported directly by `serialization.ts`.
+ */
+export function restoreIconConstraints(icon: Group): void {
+  const fixed = icon.fixedSize === true;
+  icon.set({ lockScalingX: fixed, lockScalingY: fixed });
+  icon.setControlsVisibility(
+    fixed ? HIDDEN_FIXED_SIZE_ICON_CONTROLS : HIDDEN_ICON_CONTROLS,
+  );
+}
+
+/**
+ * Create an icon centered on `left`/`top` and add it to the canvas. The
+ * icon component is rendered to SVG and converted into a Fabric `Group` of
+ * paths tagged `shapeType: 'icon'`, so unlike `ObjectOverlay` content it is
+ * saved with the canvas, exported, and takes part in alignment.
+ *
+ * Resolves to the fabric Group once the SVG has been parsed. Throws if the
+ * icon renders no drawable SVG elements.
+ */
+export async function createIcon(
+  canvas: FabricCanvas,
+  options: IconOptions,
+): Promise<Group> {
+  const {
+    icon,
+    left,
+    top,
+    size = DEFAULT_ICON_STYLE.size,
+    tint = DEFAULT_ICON_STYLE.tint,
+    fixedSize = false,
+    ...rest
+  } = options;
+
+  const { objects } = await loadSVGFromString(await renderIconMarkup(icon));
+  const shapes = objects.filter((obj): obj is FabricObject => obj !== null);
+  if (shapes.length === 0) {
+    throw new Error('Icon has no drawable SVG elements.');
+  }
+
+  const group = new Group(shapes, { ...DEFAULT_CONTROL_STYLE, ...rest });
+  group.shapeType = 'icon';
+  group.tint = tint;
+  group.fixedSize = fixedSize;
+  recolorIcon(group, 'currentColor', resolveIconTint(tint));
+  const scale = getIconScale(group, size);
+  group.set({ left, top, scaleX: scale, scaleY: scale });
+  restoreIconConstraints(group);
+  group.setCoords();
+
+  canvas.add(group);
+  canvas.requestRenderAll();
+  return group;
+}
+
+/**
+ * Create an icon centered on the given scene point and add it to the
+ * canvas. Resolves to the fabric Group.
+ */
+export function createIconAtPoint(
+  canvas: FabricCanvas,
+  point: Point2D,
+  options: IconAtPointOptions,
+): Promise<Group> {
+  return createIcon(canvas, { ...options, left: point.x, top: point.y });
+}
+
+/**
+ * Edit an existing icon's position, size, tint, sizing mode or metadata.
+ * `size` is in screen pixels for fixed-size icons.
+ */
+export function editIcon(
+  canvas: FabricCanvas,
+  icon: Group,
+  changes: Partial<Omit<IconOptions, 'icon'>>,
+): void {
+  const { size, tint, fixedSize, ...rest } = changes;
+  icon.set(rest);
+
+  if (tint !== undefined) {
+    const previous = resolveIconTint(icon.tint ?? DEFAULT_ICON_STYLE.tint);
+    recolorIcon(icon, previous, resolveIconTint(tint));
+    icon.tint = tint;
+  }
+
+  if (fixedSize !== undefined && fixedSize !== icon.fixedSize) {
+    // Leaving fixed-size mode: keep the base scale rather than the zoomed one.
+    const base = iconScaleBaseMap.get(icon);
+    if (base !== undefined) {
+      icon.set({ scaleX: base, scaleY: base });
+      iconScaleBaseMap.delete(icon);
+    }
+    icon.fixedSize = fixedSize;
+    restoreIconConstraints(icon);
+  }
+
+  if (size !== undefined) {
+    setBaseIconScale(canvas, icon, getIconScale(icon, size));
+  }
+
+  icon.setCoords();
+  canvas.requestRenderAll();
+}
+
+// --- Fixed-size icons ---
+
+/**
+ * Module-level map from fixed-size icon to its "base" (unzoomed) scale.
+ * Shared between enableFixedSizeIcons and the serialization helpers.
+ */
+const iconScaleBaseMap = new WeakMap<Group, number>();
+
+/**
+ * Set an icon's base (unzoomed) scale, the one saved by `serializeCanvas`.
+ * Fixed-size icons kept on screen by {@link enableFixedSizeIcons} are shown
+ * at `scale / zoom`. Not part of the public package API — used by `diff.ts`.
+ */
+export function setBaseIconScale(
+  canvas: FabricCanvas,
+  icon: Group,
+  scale: number,
+): void {
+  if (iconScaleBaseMap.has(icon)) {
+    iconScaleBaseMap.set(icon, scale);
+    const zoomed = scale / canvas.getZoom();
+    icon.set({ scaleX: zoomed, scaleY: zoomed });
+  } else {
+    icon.set({ scaleX: scale, scaleY: scale });
+  }
+}
+
+/**
+ * Keep icons created with `fixedSize: true` the same size on screen as the
+ * user zooms in and out. Other icons scale with the plan.
+ *
+ * On every render, each fixed-size icon's scale is set to `base / zoom`.
+ * The base scale is stored in an internal WeakMap and is automatically
+ * restored before serialization and export.
+ *
+ * Returns a cleanup function that removes the listener and restores all
+ * icons to their base scale.
+ */
+export function enableFixedSizeIcons(canvas: FabricCanvas): () => void {
+  function applyFixedSizeIcons() {
+    const zoom = canvas.getZoom();
+    forEachNestedObject(canvas.getObjects(), (obj) => {
+      if (!isIcon(obj) || !obj.fixedSize) return;
+      if (!iconScaleBaseMap.has(obj)) {
+        iconScaleBaseMap.set(obj, obj.scaleX);
+      }
+      const scale = iconScaleBaseMap.get(obj)! / zoom;
+      if (obj.scaleX === scale && obj.scaleY === scale) return;
+      obj.set({ scaleX: scale, scaleY: scale });
+      obj.setCoords();
+    });
+  }
+
+  canvas.on('before:render', applyFixedSizeIcons);
+
+  return () => {
+    canvas.off('before:render', applyFixedSizeIcons);
+    forEachNestedObject(canvas.getObjects(), (obj) => {
+      if (!isIcon(obj)) return;
+      const base = iconScaleBaseMap.get(obj);
+      if (base !== undefined) {
+        obj.set({ scaleX: base, scaleY: base });
+        obj.setCoords();
+      }
+      iconScaleBaseMap.delete(obj);
+    });
+  };
+}
+
+/**
+ * Strip zoom-adjusted icon scales, restoring base values for serialization
+ * and export. Not part of the public package API.
+ */
+export function prepareIconScales(canvas: FabricCanvas): () => void {
+  const zoomedScales = new Map<Group, number>();
+  forEachNestedObject(canvas.getObjects(), (obj) => {
+    if (!isIcon(obj)) return;
+    const base = iconScaleBaseMap.get(obj);
+    if (base !== undefined && obj.scaleX !== base) {
+      zoomedScales.set(obj, obj.scaleX);
+      obj.set({ scaleX: base, scaleY: base });
+    }
+  });
+  return () =>
+    zoomedScales.forEach((zoomed, obj) => {
+      obj.set({ scaleX: zoomed, scaleY: zoomed });
+    });
+}
@@ -1,3 +1,7 @@
 export * from './rectangle';
 export * from './circle';
 export * from './polygon';
+export * from './curves';
+export * from './line';
+export * from './label';
+export * from './icon';
@@ -0,0 +1,204 @@
+import { Canvas as FabricCanvas, FabricObject, IText } from 'fabric';
+import type { Point2D, ShapeStyleOptions } from '../types';
+import { DEFAULT_LABEL_STYLE } from '../styles';
+import { forEachNestedObject } from '../groups';
+
+export interface LabelStyleOptions extends ShapeStyleOptions {
+  /**
+   * Font size in scene units, or in screen pixels while
+   * {@link enableScaledLabels} is active. Default: 16.
+   */
+  fontSize?: number;
+  fontFamily?: string;
+  fontWeight?: string | number;
+  /** Alignment of multi-line text. Default: `'center'`. */
+  textAlign?: 'left' | 'center' | 'right';
+}
+
+export interface LabelOptions extends LabelStyleOptions {
+  text: string;
+  left: number;
+  top: number;
+}
+
+export interface LabelAtPointOptions extends LabelStyleOptions {
+  text: string;
+}
+
+/** Controls hidden on labels: mid-edge handles, which would stretch the text. */
+const HIDDEN_LABEL_CONTROLS = {
+  mt: false,
+  mb: false,
+  ml: false,
+  mr: false,
+} as const;
+
+/** Whether an object is a label created by {@link createLabel}. */
+function isLabel(obj: FabricObject): obj is IText {
+  return obj instanceof IText && obj.shapeType === 'label';
+}
+
+/**
+ * Re-apply label state after deserialization: inline editing only on
+ * double-click (see {@link startLabelEditing}) and the label control layout,
+ * which Fabric's `loadFromJSON` does not restore.
+ *
+ * Not part of the public package API — imported directly by `serialization.ts`.
+ */
+export function restoreLabelConstraints(label: IText): void {
+  label.editable = false;
+  label.setControlsVisibility(HIDDEN_LABEL_CONTROLS);
+}
+
+function addLabel(
+  canvas: FabricCanvas,
+  text: string,
+  options: LabelStyleOptions & { left: number; top: number },
+): IText {
+  const label = new IText(text, { ...DEFAULT_LABEL_STYLE, ...options });
+  label.shapeType = 'label';
+  restoreLabelConstraints(label);
+  canvas.add(label);
+  canvas.requestRenderAll();
+  return label;
+}
+
+/**
+ * Create a text label centered on `left`/`top` and add it to the canvas.
+ * Labels are Fabric `IText` objects tagged `shapeType: 'label'`; they are
+ * part of the canvas data and exports, unlike `ObjectOverlay` content.
+ * Returns the fabric IText instance.
+ */
+export function createLabel(
+  canvas: FabricCanvas,
+  options: LabelOptions,
+): IText {
+  const { text, ...rest } = options;
+  return addLabel(canvas, text, rest);
+}
+
+/**
+ * Create a text label centered on the given scene point and add it to the
+ * canvas. Returns the fabric IText instance.
+ */
+export function createLabelAtPoint(
+  canvas: FabricCanvas,
+  point: Point2D,
+  options: LabelAtPointOptions,
+): IText {
+  const { text, ...style } = options;
+  return addLabel(canvas, text, { left: point.x, top: point.y, ...style });
+}
+
+/**
+ * Edit an existing label's properties (text, position, font, appearance).
+ * While {@link enableScaledLabels} is active, `fontSize` sets the on-screen
+ * size.
+ */
+export function editLabel(
+  canvas: FabricCanvas,
+  label: IText,
+  changes: Partial<LabelOptions>,
+): void {
+  const { fontSize, ...rest } = changes;
+  label.set(rest);
+  if (fontSize !== undefined) {
+    if (labelFontSizeBaseMap.has(label)) {
+      labelFontSizeBaseMap.set(label, fontSize);
+      label.set('fontSize', fontSize / canvas.getZoom());
+    } else {
+      label.set('fontSize', fontSize);
+    }
+  }
+  label.setCoords();
+  canvas.requestRenderAll();
+}
+
+/**
+ * Start inline editing of a label with all of its text selected. Editing
+ * ends when the user clicks elsewhere or presses Escape, and fires
+ * `object:modified` if the text changed. `useEditCanvas` calls this when a
+ * label is double-clicked.
+ */
+export function startLabelEditing(label: IText): void {
+  const canvas = label.canvas;
+  if (!canvas || label.isEditing) return;
+  label.editable = true;
+  label.once('editing:exited', () => {
+    label.editable = false;
+  });
+  canvas.setActiveObject(label);
+  label.enterEditing();
+  label.selectAll();
+  canvas.requestRenderAll();
+}
+
+// --- Zoom-independent font sizes ---
+
+/**
+ * Module-level map from label to its "base" (unscaled) font size. Shared
+ * between enableScaledLabels and the serialization helpers.
+ */
+const labelFontSizeBaseMap = new WeakMap<IText, number>();
+
+/**
+ * Keep label font sizes visually constant as the user zooms in and out.
+ *
+ * On every render, each label's `fontSize` is set to `base / zoom`. The
+ * original (base) size is stored in an internal WeakMap and is automatically
+ * restored before serialization and export.
+ *
+ * Returns a cleanup function that removes the listener and restores all
+ * font sizes to their base values.
+ */
+export function enableScaledLabels(canvas: FabricCanvas): () => void {
+  function applyScaledLabels() {
+    const zoom = canvas.getZoom();
+    forEachNestedObject(canvas.getObjects(), (obj) => {
+      if (!isLabel(obj)) return;
+      if (!labelFontSizeBaseMap.has(obj)) {
+        labelFontSizeBaseMap.set(obj, obj.fontSize);
+      }
+      const size = labelFontSizeBaseMap.get(obj)! / zoom;
+      // Changing the font size re-measures the text; skip when unchanged.
+      if (obj.fontSize === size) return;
+      obj.set('fontSize', size);
+      obj.setCoords();
+    });
+  }
+
+  canvas.on('before:render', applyScaledLabels);
+
+  return () => {
+    canvas.off('before:render', applyScaledLabels);
+    forEachNestedObject(canvas.getObjects(), (obj) => {
+      if (!isLabel(obj)) return;
+      const base = labelFontSizeBaseMap.get(obj);
+      if (base !== undefined) {
+        obj.set('fontSize', base);
+        obj.setCoords();
+      }
+      labelFontSizeBaseMap.delete(obj);
+    });
+  };
+}
+
+/**
+ * Strip zoom-scaled label font sizes, restoring base values for
+ * serialization and export. Not part of the public package API.
+ */
+export function prepareLabelFontSizes(canvas: FabricCanvas): () => void {
+  const scaledSizes = new Map<IText, number>();
+  forEachNestedObject(canvas.getObjects(), (obj) => {
+    if (!isLabel(obj)) return;
+    const base = labelFontSizeBaseMap.get(obj);
+    if (base !== undefined && obj.fontSize !== base) {
+      scaledSizes.set(obj, obj.fontSize);
+      obj.set('fontSize', base);
+    }
+  });
+  return () =>
+    scaledSizes.forEach((scaled, obj) => {
+      obj.set('fontSize', scaled);
+    });
+}
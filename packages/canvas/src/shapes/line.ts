@@ -0,0 +1,112 @@
+import { Canvas as FabricCanvas, Polyline } from 'fabric';
+import type { Point2D, ShapeStyleOptions } from '../types';
+import { DEFAULT_LINE_STYLE } from '../styles';
+import { enableCurvedEdges } from './curves';
+
+export interface LineStyleOptions extends ShapeStyleOptions {
+  /**
+   * Stroke thickness in scene units, e.g. the width of a wall. The stroke
+   * then scales with zoom like the rest of the plan and is left alone by
+   * `enableScaledStrokes`. When omitted, `strokeWidth` applies as for other
+   * shapes.
+   */
+  thickness?: number;
+}
+
+export interface PolylineOptions extends LineStyleOptions {
+  points: Point2D[];
+}
+
+/** Apply a scene-space thickness to a line, if one is set. */
+function applyThickness(polyline: Polyline, thickness?: number): void {
+  if (thickness === undefined) return;
+  polyline.set({ thickness, strokeWidth: thickness });
+}
+
+/**
+ * Re-apply line state after deserialization: tags open polylines without a
+ * `shapeType` (e.g. from imported data) as `'polyline'` and sets the stroke
+ * from `thickness`.
+ *
+ * Not part of the public package API — imported directly by `serialization.ts`.
+ */
+export function restoreLineConstraints(polyline: Polyline): void {
+  polyline.shapeType ??= 'polyline';
+  applyThickness(polyline, polyline.thickness);
+}
+
+function addPolyline(
+  canvas: FabricCanvas,
+  points: Point2D[],
+  shapeType: 'line' | 'polyline',
+  options?: LineStyleOptions,
+): Polyline {
+  const { thickness, ...style } = options ?? {};
+  const polyline = new Polyline(
+    points.map((p) => ({ x: p.x, y: p.y })),
+    {
+      ...DEFAULT_LINE_STYLE,
+      ...style,
+      ...(thickness !== undefined && { strokeWidth: thickness, thickness }),
+    },
+  );
+  polyline.shapeType = shapeType;
+  // Positioned by its points.
+  enableCurvedEdges(polyline, {});
+  canvas.add(polyline);
+  canvas.requestRenderAll();
+  return polyline;
+}
+
+/**
+ * Create a straight line between two scene points and add it to the canvas.
+ * Lines are two-point Polylines tagged `shapeType: 'line'`, so vertex editing
+ * and snapping treat them like polylines.
+ * Returns the fabric Polyline instance.
+ */
+export function createLine(
+  canvas: FabricCanvas,
+  start: Point2D,
+  end: Point2D,
+  options?: LineStyleOptions,
+): Polyline {
+  return addPolyline(canvas, [start, end], 'line', options);
+}
+
+/**
+ * Create an open polyline (e.g. a wall or partition) through the given
+ * scene points and add it to the canvas. Tagged `shapeType: 'polyline'`.
+ * Returns the fabric Polyline instance.
+ */
+export function createPolyline(
+  canvas: FabricCanvas,
+  options: PolylineOptions,
+): Polyline {
+  const { points, ...style } = options;
+  if (points.length < 2) {
+    throw new Error(
+      `A polyline needs at least 2 points, got ${points.length}.`,
+    );
+  }
+  return addPolyline(canvas, points, 'polyline', style);
+}
+
+/**
+ * Edit an existing line or polyline's properties (points, thickness,
+ * appearance, etc.).
+ */
+export function editPolyline(
+  canvas: FabricCanvas,
+  polyline: Polyline,
+  changes: Partial<PolylineOptions>,
+): void {
+  const { points, thickness, ...rest } = changes;
+  if (points) {
+    polyline.points = points.map((p) => ({ x: p.x, y: p.y }));
+  }
+  polyline.set(rest);
+  applyThickness(polyline, thickness);
+  if (points || thickness !== undefined) polyline.setDimensions();
+  polyline.setCoords();
+  canvas.requestRenderAll();
+}
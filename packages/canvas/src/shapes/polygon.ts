@@ -1,9 +1,17 @@
 import { Canvas as FabricCanvas, Polygon } from 'fabric';
 import type { Point2D, ShapeStyleOptions } from '../types';
 import { DEFAULT_SHAPE_STYLE } from '../styles';
+import { enableCurvedEdges } from './curves';
 
 export interface PolygonOptions extends ShapeStyleOptions {
   points: Point2D[];
+  /**
+   * Arc bulge of each edge, for curved edges: `bulges[i]` bends the edge
+   * from `points[i]` to the next point (the last edge closes the polygon).
+   * `0` is straight and `±1` a semicircle; positive values bulge to the left
+   * of the edge's direction on screen. Default: all edges straight.
+   */
+  bulges?: number[];
   left?: number;
   top?: number;
 }
@@ -21,6 +29,7 @@ export function createPolygon(
 ): Polygon {
   const { points, ...rest } = options;
   const polygon = new Polygon(points, { ...DEFAULT_SHAPE_STYLE, ...rest });
+  enableCurvedEdges(polygon, rest);
   canvas.add(polygon);
   canvas.requestRenderAll();
   return polygon;
@@ -45,6 +54,7 @@ export function createPolygonAtPoint(
     ],
     { ...DEFAULT_SHAPE_STYLE, left: point.x, top: point.y, ...style },
   );
+  enableCurvedEdges(polygon);
   canvas.add(polygon);
   canvas.requestRenderAll();
   return polygon;
@@ -73,6 +83,7 @@ export function createPolygonFromDrag(
     ],
     { ...DEFAULT_SHAPE_STYLE, left, top, ...options },
   );
+  enableCurvedEdges(polygon);
   canvas.add(polygon);
   canvas.requestRenderAll();
   return polygon;
@@ -80,35 +91,52 @@ export function createPolygonFromDrag(
 
 /**
  * Create a polygon from an arbitrary array of vertices and add it to the canvas.
+ * Pass `bulges` to curve some of its edges (see {@link PolygonOptions}).
  * Returns the fabric Polygon instance.
  */
 export function createPolygonFromVertices(
   canvas: FabricCanvas,
   points: Point2D[],
-  options?: ShapeStyleOptions,
+  options?: ShapeStyleOptions & { bulges?: number[] },
+): Polygon {
+  const polygon = buildPolygonFromVertices(points, options);
+  canvas.add(polygon);
+  canvas.requestRenderAll();
+  return polygon;
+}
+
+/**
+ * Build the polygon {@link createPolygonFromVertices} adds, without adding it.
+ * Not part of the public package API — used by `geometry.ts` to insert
+ * results at their stacking position.
+ */
+export function buildPolygonFromVertices(
+  points: Point2D[],
+  options?: ShapeStyleOptions & { bulges?: number[] },
 ): Polygon {
   const polygon = new Polygon(
     points.map((p) => ({ x: p.x, y: p.y })),
     { ...DEFAULT_SHAPE_STYLE, ...options },
   );
-  canvas.add(polygon);
-  canvas.requestRenderAll();
+  // Positioned by its points.
+  enableCurvedEdges(polygon, {});
   return polygon;
 }
 
 /**
- * Edit an existing polygon's properties (position, points, appearance, etc.).
+ * Edit an existing polygon's properties (position, points, edge bulges,
+ * appearance, etc.).
  */
 export function editPolygon(
   canvas: FabricCanvas,
   polygon: Polygon,
   changes: Partial<PolygonOptions>,
 ): void {
-  const { points, ...rest } = changes;
-  if (points) {
-    polygon.points = points;
-    polygon.setDimensions();
-  }
+  const { points, bulges, ...rest } = changes;
+  enableCurvedEdges(polygon);
+  if (bulges) polygon.bulges = bulges;
+  if (points) polygon.points = points;
+  if (points || bulges) polygon.setDimensions();
   polygon.set(rest);
   polygon.setCoords();
   canvas.requestRenderAll();
@@ -29,6 +29,33 @@ export const DEFAULT_CIRCLE_STYLE = {
   ...DEFAULT_CONTROL_STYLE,
 };
 
+/** Default stroke for lines and polylines (no fill). */
+export const DEFAULT_LINE_STYLE = {
+  fill: '',
+  stroke: palette.info.main,
+  strokeWidth: 2.5,
+  strokeUniform: true,
+  ...DEFAULT_CONTROL_STYLE,
+};
+
+/** Default text and editing colors for labels. */
+export const DEFAULT_LABEL_STYLE = {
+  fill: palette.text.primary,
+  fontSize: 16,
+  fontFamily: '"Open Sans", sans-serif',
+  textAlign: 'center',
+  cursorColor: palette.info.main,
+  selectionColor: alpha(palette.info.main, 0.3),
+  editingBorderColor: palette.info.main,
+  ...DEFAULT_CONTROL_STYLE,
+} as const;
+
+/** Default size (longer side) and color for icons. */
+export const DEFAULT_ICON_STYLE = {
+  size: 24,
+  tint: palette.text.primary,
+} as const;
+
 /** Preview rectangle shown during drag-to-create (dashed stroke). */
 export const DEFAULT_DRAG_SHAPE_STYLE = {
   fill: alpha(palette.info.main, 0.1),
@@ -53,3 +80,32 @@ export const DEFAULT_ALIGNMENT_STYLE = {
   width: 1,
   xSize: 2.4,
 } as const;
+
+/** Grid overlay appearance (major and minor line colors, line width in screen pixels). */
+export const DEFAULT_GRID_STYLE = {
+  color: alpha(palette.grey[500], 0.4),
+  minorColor: alpha(palette.grey[500], 0.15),
+  width: 1,
+} as const;
+
+/** Measurement overlay appearance (line color and width, label text). Widths and sizes are in screen pixels. */
+export const DEFAULT_MEASURE_STYLE = {
+  color: palette.info.main,
+  width: 2,
+  labelColor: palette.info.contrastText,
+  fontSize: 12,
+  fontFamily: '"Open Sans", sans-serif',
+} as const;
+
+/** Ruler and guide appearance for `CanvasRulers`. Sizes are in screen pixels. */
+export const DEFAULT_RULER_STYLE = {
+  size: 20,
+  background: palette.grey[100],
+  tickColor: palette.grey[500],
+  textColor: palette.grey[700],
+  fontSize: 10,
+  fontFamily: '"Open Sans", sans-serif',
+  cursorColor: palette.error.main,
+  selectionColor: alpha(palette.info.main, 0.25),
+  guideColor: palette.info.main,
+} as const;
@@ -18,6 +18,11 @@ export interface ShapeStyleOptions {
 /** JSON representation returned by {@link serializeCanvas}. */
 export interface CanvasJSON {
   version: string;
+  /**
+   * Schema version of the saved format (see {@link CANVAS_SCHEMA_VERSION}).
+   * Absent on data saved before versioning was introduced.
+   */
+  schemaVersion?: number;
   objects: Record<string, unknown>[];
   [key: string]: unknown;
 }
@@ -0,0 +1,526 @@
+import { classRegistry } from 'fabric';
+import { OBJECT_DATA_TYPES } from './fabricAugmentation';
+import { CANVAS_SCHEMA_VERSION, getCanvasSchemaVersion } from './migrations';
+import { isCanvasLayers } from './layers';
+import { isCanvasScale } from './scale';
+import type { CanvasJSON } from './types';
+
+export type CanvasValidationSeverity = 'error' | 'warning';
+
+/** A single problem found by {@link validateCanvasJSON}. */
+export interface CanvasValidationIssue {
+  /** `error` issues prevent loading; `warning` issues are loadable as-is. */
+  severity: CanvasValidationSeverity;
+  /** Machine-readable issue code, e.g. `'invalid-number'`. */
+  code: string;
+  /** JSON path to the offending value, e.g. `$.objects[3].points[1].x`. */
+  path: string;
+  /** Human-readable description. */
+  message: string;
+}
+
+/** Result returned by {@link validateCanvasJSON}. */
+export interface CanvasValidationResult {
+  /** `true` when there are no errors (warnings are allowed). */
+  valid: boolean;
+  errors: CanvasValidationIssue[];
+  warnings: CanvasValidationIssue[];
+}
+
+export interface ValidateCanvasOptions {
+  /**
+   * Additional `data.type` values to accept besides the built-in
+   * {@link ObjectDataType}s.
+   */
+  dataTypes?: string[];
+  /**
+   * Allow objects without a `data` property. Default: `true`.
+   * Pass `false` to report them as errors.
+   */
+  allowObjectsWithoutData?: boolean;
+}
+
+/** Result returned by {@link repairCanvasJSON}. */
+export interface CanvasRepairResult {
+  /** A repaired copy of the payload. The input is never mutated. */
+  json: CanvasJSON;
+  /** Validation result of the original payload. */
+  result: CanvasValidationResult;
+  /** Indices (in the original `objects` array) of the objects that were dropped. */
+  removedObjects: number[];
+  /** Whether an invalid background image was dropped. */
+  removedBackground: boolean;
+}
+
+/** Geometry fields that must be finite numbers when present. */
+const NUMERIC_FIELDS = [
+  'left',
+  'top',
+  'width',
+  'height',
+  'scaleX',
+  'scaleY',
+  'angle',
+  'skewX',
+  'skewY',
+  'strokeWidth',
+  'thickness',
+  'opacity',
+  'rx',
+  'ry',
+  'radius',
+  'x1',
+  'y1',
+  'x2',
+  'y2',
+] as const;
+
+/** Minimum number of points for point-based shapes, keyed by lower-case type. */
+const MIN_POINTS: Record<string, number> = {
+  polygon: 3,
+  polyline: 2,
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Collects issues and tracks which top-level objects have errors, so that
+ * {@link repairCanvasJSON} knows what to drop.
+ */
+class IssueCollector {
+  readonly errors: CanvasValidationIssue[] = [];
+  readonly warnings: CanvasValidationIssue[] = [];
+  readonly invalidObjects = new Set<number>();
+  invalidBackground = false;
+
+  error(path: string, code: string, message: string, objectIndex?: number) {
+    this.errors.push({ severity: 'error', code, path, message });
+    if (objectIndex !== undefined) this.invalidObjects.add(objectIndex);
+  }
+
+  warn(path: string, code: string, message: string) {
+    this.warnings.push({ severity: 'warning', code, path, message });
+  }
+
+  toResult(): CanvasValidationResult {
+    return {
+      valid: this.errors.length === 0,
+      errors: this.errors,
+      warnings: this.warnings,
+    };
+  }
+}
+
+function validateNumericFields(
+  obj: Record<string, unknown>,
+  path: string,
+  issues: IssueCollector,
+  index?: number,
+) {
+  for (const field of NUMERIC_FIELDS) {
+    if (!(field in obj) || obj[field] === undefined) continue;
+    if (!isFiniteNumber(obj[field])) {
+      issues.error(
+        `${path}.${field}`,
+        'invalid-number',
+        `Expected a finite number, got ${JSON.stringify(obj[field]) ?? String(obj[field])}.`,
+        index,
+      );
+    }
+  }
+  for (const field of ['width', 'height', 'radius'] as const) {
+    const value = obj[field];
+    if (isFiniteNumber(value) && value < 0) {
+      issues.error(
+        `${path}.${field}`,
+        'negative-size',
+        `Expected a non-negative ${field}, got ${value}.`,
+        index,
+      );
+    }
+  }
+  for (const field of ['scaleX', 'scaleY'] as const) {
+    if (obj[field] === 0) {
+      issues.warn(
+        `${path}.${field}`,
+        'zero-scale',
+        `Object has a ${field} of 0 and will not be visible.`,
+      );
+    }
+  }
+}
+
+function validatePoints(
+  obj: Record<string, unknown>,
+  type: string,
+  path: string,
+  issues: IssueCollector,
+  index: number,
+) {
+  const minPoints = MIN_POINTS[type.toLowerCase()];
+  if (minPoints === undefined) return;
+
+  const points = obj.points;
+  if (!Array.isArray(points)) {
+    issues.error(
+      `${path}.points`,
+      'invalid-points',
+      `${type} requires a "points" array.`,
+      index,
+    );
+    return;
+  }
+  if (points.length < minPoints) {
+    issues.error(
+      `${path}.points`,
+      'too-few-points',
+      `${type} requires at least ${minPoints} points, got ${points.length}.`,
+      index,
+    );
+  }
+  points.forEach((pt, i) => {
+    if (!isRecord(pt) || !isFiniteNumber(pt.x) || !isFiniteNumber(pt.y)) {
+      issues.error(
+        `${path}.points[${i}]`,
+        'invalid-point',
+        'Expected a point with finite numeric "x" and "y".',
+        index,
+      );
+    }
+  });
+
+  const bulges = obj.bulges;
+  if (bulges === undefined) return;
+  if (!Array.isArray(bulges)) {
+    issues.error(
+      `${path}.bulges`,
+      'invalid-bulges',
+      'Expected "bulges" to be an array of numbers.',
+      index,
+    );
+    return;
+  }
+  bulges.forEach((bulge, i) => {
+    if (!isFiniteNumber(bulge)) {
+      issues.error(
+        `${path}.bulges[${i}]`,
+        'invalid-number',
+        `Expected a finite number, got ${JSON.stringify(bulge) ?? String(bulge)}.`,
+        index,
+      );
+    }
+  });
+}
+
+/** A `data.parentId`, checked once all ids are known. */
+type ParentReference = { path: string; parentId: string };
+
+function validateData(
+  obj: Record<string, unknown>,
+  path: string,
+  issues: IssueCollector,
+  index: number,
+  knownDataTypes: Set<string>,
+  seenIds: Map<string, string>,
+  parentRefs: ParentReference[],
+  allowWithoutData: boolean,
+) {
+  const data = obj.data;
+  if (data === undefined || data === null) {
+    if (!allowWithoutData) {
+      issues.error(
+        `${path}.data`,
+        'missing-data',
+        'Object has no "data" metadata.',
+        index,
+      );
+    }
+    return;
+  }
+  if (!isRecord(data)) {
+    issues.error(
+      `${path}.data`,
+      'invalid-data',
+      'Expected "data" to be an object.',
+      index,
+    );
+    return;
+  }
+
+  if (typeof data.type !== 'string' || !knownDataTypes.has(data.type)) {
+    issues.error(
+      `${path}.data.type`,
+      'unknown-data-type',
+      `Unknown data.type ${JSON.stringify(data.type)}. Expected one of: ${[...knownDataTypes].join(', ')}.`,
+      index,
+    );
+  }
+
+  if (data.parentId !== undefined) {
+    if (typeof data.parentId !== 'string' || data.parentId === '') {
+      issues.error(
+        `${path}.data.parentId`,
+        'invalid-parent-id',
+        'Expected "data.parentId" to be a non-empty string.',
+        index,
+      );
+    } else {
+      parentRefs.push({
+        path: `${path}.data.parentId`,
+        parentId: data.parentId,
+      });
+    }
+  }
+
+  if (
+    data.layerId !== undefined &&
+    (typeof data.layerId !== 'string' || data.layerId === '')
+  ) {
+    issues.error(
+      `${path}.data.layerId`,
+      'invalid-layer-id',
+      'Expected "data.layerId" to be a non-empty string.',
+      index,
+    );
+  }
+
+  if (typeof data.id !== 'string' || data.id === '') {
+    issues.error(
+      `${path}.data.id`,
+      'invalid-id',
+      'Expected "data.id" to be a non-empty string.',
+      index,
+    );
+    return;
+  }
+
+  const firstPath = seenIds.get(data.id);
+  if (firstPath !== undefined) {
+    issues.error(
+      `${path}.data.id`,
+      'duplicate-id',
+      `Duplicate data.id "${data.id}" (first used at ${firstPath}).`,
+      index,
+    );
+  } else {
+    seenIds.set(data.id, `${path}.data.id`);
+  }
+}
+
+function validateBackground(
+  json: Record<string, unknown>,
+  issues: IssueCollector,
+) {
+  const bg = json.backgroundImage;
+  if (bg === undefined || bg === null) return;
+
+  const path = '$.backgroundImage';
+  const fail = (p: string, code: string, message: string) => {
+    issues.error(p, code, message);
+    issues.invalidBackground = true;
+  };
+
+  if (!isRecord(bg)) {
+    fail(
+      path,
+      'invalid-background',
+      'Expected "backgroundImage" to be an object.',
+    );
+    return;
+  }
+  if (typeof bg.type !== 'string' || bg.type.toLowerCase() !== 'image') {
+    fail(
+      `${path}.type`,
+      'unknown-background-type',
+      `Unsupported background type ${JSON.stringify(bg.type)}. Expected "Image".`,
+    );
+    return;
+  }
+  if (typeof bg.src !== 'string' || bg.src === '') {
+    fail(
+      `${path}.src`,
+      'missing-background-src',
+      'Background image has no "src".',
+    );
+  }
+  const before = issues.errors.length;
+  validateNumericFields(bg, path, issues);
+  if (issues.errors.length > before) issues.invalidBackground = true;
+}
+
+/**
+ * Structurally validate a serialized canvas payload before loading it.
+ *
+ * Checks that every object has a known Fabric type and finite numeric
+ * geometry, that polygons and polylines have valid point arrays, that
+ * `data.type` is a known {@link ObjectDataType}, that `data.id`s are unique,
+ * that `data.parentId`s refer to existing objects, that layers are well
+ * formed, and that the background (if any) is an image with a source. Members of groups are checked like
+ * top-level objects.
+ *
+ * Never throws — all problems are reported in the returned result, each with
+ * a JSON path such as `$.objects[3].points[1].x`.
+ */
+export function validateCanvasJSON(
+  json: unknown,
+  options?: ValidateCanvasOptions,
+): CanvasValidationResult {
+  return collectIssues(json, options).toResult();
+}
+
+function collectIssues(
+  json: unknown,
+  options?: ValidateCanvasOptions,
+): IssueCollector {
+  const issues = new IssueCollector();
+
+  if (!isRecord(json)) {
+    issues.error('$', 'invalid-root', 'Expected canvas data to be an object.');
+    return issues;
+  }
+
+  const schemaVersion = getCanvasSchemaVersion(json);
+  if (schemaVersion > CANVAS_SCHEMA_VERSION) {
+    issues.error(
+      '$.schemaVersion',
+      'unsupported-schema-version',
+      `Schema version ${schemaVersion} is newer than the supported version ${CANVAS_SCHEMA_VERSION}.`,
+    );
+  }
+  if (json.version !== undefined && typeof json.version !== 'string') {
+    issues.warn(
+      '$.version',
+      'invalid-version',
+      'Expected "version" to be a string.',
+    );
+  }
+
+  validateBackground(json, issues);
+
+  if (
+    json.realWorldScale !== undefined &&
+    !isCanvasScale(json.realWorldScale)
+  ) {
+    issues.warn(
+      '$.realWorldScale',
+      'invalid-scale',
+      'Expected "realWorldScale" to have a positive "sceneUnitsPerUnit" and a "unit" of "m" or "ft". It is ignored on load.',
+    );
+  }
+
+  if (json.layers !== undefined && !isCanvasLayers(json.layers)) {
+    issues.warn(
+      '$.layers',
+      'invalid-layers',
+      'Expected "layers" to be an array of layers with unique non-empty ids, names, and boolean "visible" and "locked" flags. It is ignored on load.',
+    );
+  }
+
+  if (!Array.isArray(json.objects)) {
+    issues.error(
+      '$.objects',
+      'invalid-objects',
+      'Expected "objects" to be an array.',
+    );
+    return issues;
+  }
+
+  const knownDataTypes = new Set<string>([
+    ...OBJECT_DATA_TYPES,
+    ...(options?.dataTypes ?? []),
+  ]);
+  const seenIds = new Map<string, string>();
+  const allowWithoutData = options?.allowObjectsWithoutData !== false;
+
+  const parentRefs: ParentReference[] = [];
+
+  const validateObject = (obj: unknown, path: string, index: number) => {
+    if (!isRecord(obj)) {
+      issues.error(path, 'invalid-object', 'Expected an object.', index);
+      return;
+    }
+    if (typeof obj.type !== 'string' || !classRegistry.has(obj.type)) {
+      issues.error(
+        `${path}.type`,
+        'unknown-object-type',
+        `Unknown object type ${JSON.stringify(obj.type)}.`,
+        index,
+      );
+      return;
+    }
+    const isGroup = obj.shapeType === 'group';
+    validateNumericFields(obj, path, issues, index);
+    validatePoints(obj, obj.type, path, issues, index);
+    validateData(
+      obj,
+      path,
+      issues,
+      index,
+      knownDataTypes,
+      seenIds,
+      parentRefs,
+      // Groups are structural and need no metadata of their own.
+      allowWithoutData || isGroup,
+    );
+    // Members of a group are reported against the group's index.
+    if (isGroup && Array.isArray(obj.objects)) {
+      obj.objects.forEach((member: unknown, i: number) =>
+        validateObject(member, `${path}.objects[${i}]`, index),
+      );
+    }
+  };
+
+  json.objects.forEach((obj: unknown, index: number) =>
+    validateObject(obj, `$.objects[${index}]`, index),
+  );
+
+  for (const { path, parentId } of parentRefs) {
+    if (!seenIds.has(parentId)) {
+      issues.warn(
+        path,
+        'unknown-parent',
+        `No object has the data.id "${parentId}" given as parent. The parent link is ignored.`,
+      );
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a payload and return a repaired copy that can be loaded safely.
+ *
+ * Objects with errors are dropped (for duplicate IDs, the first occurrence
+ * is kept), and an invalid background image is removed. Document-level
+ * errors that cannot be repaired (e.g. an unsupported schema version or a
+ * non-object payload) are left in the result; callers should check
+ * {@link validateCanvasJSON} on the repaired copy if they need certainty.
+ */
+export function repairCanvasJSON(
+  json: unknown,
+  options?: ValidateCanvasOptions,
+): CanvasRepairResult {
+  const issues = collectIssues(json, options);
+  const source = isRecord(json) ? json : {};
+  const repaired = { ...source } as CanvasJSON;
+
+  const objects = Array.isArray(source.objects) ? source.objects : [];
+  repaired.objects = objects.filter(
+    (_: unknown, i: number) => !issues.invalidObjects.has(i),
+  ) as CanvasJSON['objects'];
+
+  if (issues.invalidBackground) delete repaired.backgroundImage;
+
+  return {
+    json: repaired,
+    result: issues.toResult(),
+    removedObjects: [...issues.invalidObjects].sort((a, b) => a - b),
+    removedBackground: issues.invalidBackground,
+  };
+}
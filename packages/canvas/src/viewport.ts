@@ -10,6 +10,7 @@ import {
   DEFAULT_ZOOM_FACTOR,
   DEFAULT_ZOOM_STEP,
 } from './constants';
+import { applyCanvasLayers } from './layers';
 
 export type ViewportMode = 'select' | 'pan';
 
@@ -331,6 +332,8 @@ export function enablePanAndZoom(
           obj.selectable = true;
           obj.evented = true;
         });
+        // Objects on locked or hidden layers stay out of reach.
+        applyCanvasLayers(canvas);
         canvas.setCursor('default');
       }
       canvas.requestRenderAll();